@@ -0,0 +1,320 @@
+import type {
+  AircraftKind,
+  AircraftType,
+  EngineType,
+  MilitaryRole,
+  WakeCategory,
+} from "./types";
+
+type CatalogRow = [
+  designator: string,
+  manufacturer: string,
+  model: string,
+  engines: number,
+  engineType: EngineType,
+  wake: WakeCategory,
+  kind?: AircraftKind,
+  military?: MilitaryRole,
+];
+
+// Bundled subset of ICAO Doc 8643: airliners, freighters, business and
+// general aviation, helicopters and the military types of the campaigns
+// prettier-ignore
+const ROWS: CatalogRow[] = [
+  // Airbus
+  ["A318", "Airbus", "A318", 2, "jet", "M"],
+  ["A319", "Airbus", "A319", 2, "jet", "M"],
+  ["A320", "Airbus", "A320", 2, "jet", "M"],
+  ["A321", "Airbus", "A321", 2, "jet", "M"],
+  ["A19N", "Airbus", "A319neo", 2, "jet", "M"],
+  ["A20N", "Airbus", "A320neo", 2, "jet", "M"],
+  ["A21N", "Airbus", "A321neo", 2, "jet", "M"],
+  ["BCS1", "Airbus", "A220-100", 2, "jet", "M"],
+  ["BCS3", "Airbus", "A220-300", 2, "jet", "M"],
+  ["A30B", "Airbus", "A300B2/B4", 2, "jet", "H"],
+  ["A306", "Airbus", "A300-600", 2, "jet", "H"],
+  ["A310", "Airbus", "A310", 2, "jet", "H"],
+  ["A332", "Airbus", "A330-200", 2, "jet", "H"],
+  ["A333", "Airbus", "A330-300", 2, "jet", "H"],
+  ["A338", "Airbus", "A330-800neo", 2, "jet", "H"],
+  ["A339", "Airbus", "A330-900neo", 2, "jet", "H"],
+  ["A342", "Airbus", "A340-200", 4, "jet", "H"],
+  ["A343", "Airbus", "A340-300", 4, "jet", "H"],
+  ["A345", "Airbus", "A340-500", 4, "jet", "H"],
+  ["A346", "Airbus", "A340-600", 4, "jet", "H"],
+  ["A359", "Airbus", "A350-900", 2, "jet", "H"],
+  ["A35K", "Airbus", "A350-1000", 2, "jet", "H"],
+  ["A388", "Airbus", "A380-800", 4, "jet", "J"],
+  ["A3ST", "Airbus", "A300-600ST Beluga", 2, "jet", "H"],
+  ["A337", "Airbus", "A330-743L BelugaXL", 2, "jet", "H"],
+  ["A400", "Airbus", "A400M Atlas", 4, "turboprop", "H", "airplane", "transport"],
+  ["C295", "Airbus", "C295", 2, "turboprop", "M", "airplane", "transport"],
+  ["CN35", "Airbus", "CN235", 2, "turboprop", "M", "airplane", "transport"],
+
+  // Boeing
+  ["B712", "Boeing", "717-200", 2, "jet", "M"],
+  ["B732", "Boeing", "737-200", 2, "jet", "M"],
+  ["B733", "Boeing", "737-300", 2, "jet", "M"],
+  ["B734", "Boeing", "737-400", 2, "jet", "M"],
+  ["B735", "Boeing", "737-500", 2, "jet", "M"],
+  ["B736", "Boeing", "737-600", 2, "jet", "M"],
+  ["B737", "Boeing", "737-700", 2, "jet", "M"],
+  ["B738", "Boeing", "737-800", 2, "jet", "M"],
+  ["B739", "Boeing", "737-900", 2, "jet", "M"],
+  ["B37M", "Boeing", "737 MAX 7", 2, "jet", "M"],
+  ["B38M", "Boeing", "737 MAX 8", 2, "jet", "M"],
+  ["B39M", "Boeing", "737 MAX 9", 2, "jet", "M"],
+  ["B3XM", "Boeing", "737 MAX 10", 2, "jet", "M"],
+  ["B741", "Boeing", "747-100", 4, "jet", "H"],
+  ["B742", "Boeing", "747-200", 4, "jet", "H"],
+  ["B743", "Boeing", "747-300", 4, "jet", "H"],
+  ["B744", "Boeing", "747-400", 4, "jet", "H"],
+  ["B748", "Boeing", "747-8", 4, "jet", "H"],
+  ["B74S", "Boeing", "747SP", 4, "jet", "H"],
+  ["BLCF", "Boeing", "747-400 Dreamlifter", 4, "jet", "H"],
+  ["B752", "Boeing", "757-200", 2, "jet", "M"],
+  ["B753", "Boeing", "757-300", 2, "jet", "M"],
+  ["B762", "Boeing", "767-200", 2, "jet", "H"],
+  ["B763", "Boeing", "767-300", 2, "jet", "H"],
+  ["B764", "Boeing", "767-400", 2, "jet", "H"],
+  ["B772", "Boeing", "777-200", 2, "jet", "H"],
+  ["B77L", "Boeing", "777-200LR", 2, "jet", "H"],
+  ["B773", "Boeing", "777-300", 2, "jet", "H"],
+  ["B77W", "Boeing", "777-300ER", 2, "jet", "H"],
+  ["B778", "Boeing", "777-8", 2, "jet", "H"],
+  ["B779", "Boeing", "777-9", 2, "jet", "H"],
+  ["B788", "Boeing", "787-8 Dreamliner", 2, "jet", "H"],
+  ["B789", "Boeing", "787-9 Dreamliner", 2, "jet", "H"],
+  ["B78X", "Boeing", "787-10 Dreamliner", 2, "jet", "H"],
+  ["C17", "Boeing", "C-17 Globemaster III", 4, "jet", "H", "airplane", "transport"],
+  ["K35R", "Boeing", "KC-135R Stratotanker", 4, "jet", "H", "airplane", "tanker"],
+  ["B52", "Boeing", "B-52 Stratofortress", 8, "jet", "H", "airplane", "bomber"],
+  ["E3TF", "Boeing", "E-3 Sentry", 4, "jet", "H", "airplane", "surveillance"],
+  ["E6", "Boeing", "E-6 Mercury", 4, "jet", "H", "airplane", "surveillance"],
+  ["R135", "Boeing", "RC-135", 4, "jet", "H", "airplane", "surveillance"],
+  ["E737", "Boeing", "E-7 Wedgetail", 2, "jet", "M", "airplane", "surveillance"],
+  ["P8", "Boeing", "P-8 Poseidon", 2, "jet", "M", "airplane", "patrol"],
+  ["H47", "Boeing", "CH-47 Chinook", 2, "turboshaft", "M", "helicopter", "transport"],
+  ["AH64", "Boeing", "AH-64 Apache", 2, "turboshaft", "M", "helicopter", "attack"],
+
+  // McDonnell Douglas and Douglas
+  ["DC3", "Douglas", "DC-3", 2, "piston", "M"],
+  ["DC87", "Douglas", "DC-8-70", 4, "jet", "H"],
+  ["DC93", "McDonnell Douglas", "DC-9-30", 2, "jet", "M"],
+  ["DC10", "McDonnell Douglas", "DC-10", 3, "jet", "H"],
+  ["MD11", "McDonnell Douglas", "MD-11", 3, "jet", "H"],
+  ["MD82", "McDonnell Douglas", "MD-82", 2, "jet", "M"],
+  ["MD83", "McDonnell Douglas", "MD-83", 2, "jet", "M"],
+  ["MD88", "McDonnell Douglas", "MD-88", 2, "jet", "M"],
+  ["MD90", "McDonnell Douglas", "MD-90", 2, "jet", "M"],
+  ["F4", "McDonnell Douglas", "F-4 Phantom II", 2, "jet", "M", "airplane", "fighter"],
+  ["F15", "McDonnell Douglas", "F-15 Eagle", 2, "jet", "M", "airplane", "fighter"],
+  ["F18", "McDonnell Douglas", "F/A-18 Hornet", 2, "jet", "M", "airplane", "fighter"],
+
+  // Lockheed and other US military
+  ["L101", "Lockheed", "L-1011 TriStar", 3, "jet", "H"],
+  ["C130", "Lockheed", "C-130 Hercules", 4, "turboprop", "M", "airplane", "transport"],
+  ["C30J", "Lockheed Martin", "C-130J Super Hercules", 4, "turboprop", "M", "airplane", "transport"],
+  ["C5", "Lockheed", "C-5 Galaxy", 4, "jet", "H", "airplane", "transport"],
+  ["C5M", "Lockheed Martin", "C-5M Super Galaxy", 4, "jet", "H", "airplane", "transport"],
+  ["P3", "Lockheed", "P-3 Orion", 4, "turboprop", "M", "airplane", "patrol"],
+  ["F104", "Lockheed", "F-104 Starfighter", 1, "jet", "M", "airplane", "fighter"],
+  ["F16", "Lockheed Martin", "F-16 Fighting Falcon", 1, "jet", "M", "airplane", "fighter"],
+  ["F22", "Lockheed Martin", "F-22 Raptor", 2, "jet", "M", "airplane", "fighter"],
+  ["F35", "Lockheed Martin", "F-35 Lightning II", 1, "jet", "M", "airplane", "fighter"],
+  ["F14", "Grumman", "F-14 Tomcat", 2, "jet", "M", "airplane", "fighter"],
+  ["F5", "Northrop", "F-5 Tiger II", 2, "jet", "M", "airplane", "fighter"],
+  ["T38", "Northrop", "T-38 Talon", 2, "jet", "L", "airplane", "trainer"],
+  ["B2", "Northrop Grumman", "B-2 Spirit", 4, "jet", "H", "airplane", "bomber"],
+  ["B1", "Rockwell", "B-1 Lancer", 4, "jet", "H", "airplane", "bomber"],
+  ["A10", "Fairchild", "A-10 Thunderbolt II", 2, "jet", "M", "airplane", "attack"],
+  ["V22", "Bell-Boeing", "V-22 Osprey", 2, "turboshaft", "M", "tiltrotor", "transport"],
+
+  // European military
+  ["EUFI", "Eurofighter", "Typhoon", 2, "jet", "M", "airplane", "fighter"],
+  ["TOR", "Panavia", "Tornado", 2, "jet", "M", "airplane", "fighter"],
+  ["RFAL", "Dassault", "Rafale", 2, "jet", "M", "airplane", "fighter"],
+  ["MIR2", "Dassault", "Mirage 2000", 1, "jet", "M", "airplane", "fighter"],
+  ["MIRA", "Dassault", "Mirage III", 1, "jet", "M", "airplane", "fighter"],
+  ["MRF1", "Dassault", "Mirage F1", 1, "jet", "M", "airplane", "fighter"],
+  ["ATL2", "Dassault", "Atlantique 2", 2, "turboprop", "M", "airplane", "patrol"],
+  ["AJET", "Dassault-Dornier", "Alpha Jet", 2, "jet", "M", "airplane", "trainer"],
+  ["SB35", "Saab", "35 Draken", 1, "jet", "M", "airplane", "fighter"],
+  ["SB37", "Saab", "37 Viggen", 1, "jet", "M", "airplane", "fighter"],
+  ["HAWK", "BAE Systems", "Hawk", 1, "jet", "M", "airplane", "trainer"],
+  ["M346", "Leonardo", "M-346 Master", 2, "jet", "M", "airplane", "trainer"],
+  ["C27J", "Leonardo", "C-27J Spartan", 2, "turboprop", "M", "airplane", "transport"],
+  ["C160", "Transall", "C-160", 2, "turboprop", "M", "airplane", "transport"],
+  ["PC7", "Pilatus", "PC-7", 1, "turboprop", "L", "airplane", "trainer"],
+  ["PC9", "Pilatus", "PC-9", 1, "turboprop", "L", "airplane", "trainer"],
+  ["PC21", "Pilatus", "PC-21", 1, "turboprop", "L", "airplane", "trainer"],
+  ["L39", "Aero Vodochody", "L-39 Albatros", 1, "jet", "L", "airplane", "trainer"],
+  ["NH90", "NHIndustries", "NH90", 2, "turboshaft", "M", "helicopter", "transport"],
+  ["TIGR", "Airbus Helicopters", "Tiger", 2, "turboshaft", "L", "helicopter", "attack"],
+  ["EH10", "Leonardo", "AW101 Merlin", 3, "turboshaft", "M", "helicopter", "transport"],
+  ["LCA", "Hindustan Aeronautics", "Tejas", 1, "jet", "M", "airplane", "fighter"],
+
+  // Russian and Ukrainian
+  ["MG21", "Mikoyan", "MiG-21", 1, "jet", "M", "airplane", "fighter"],
+  ["MG29", "Mikoyan", "MiG-29", 2, "jet", "M", "airplane", "fighter"],
+  ["MG31", "Mikoyan", "MiG-31", 2, "jet", "M", "airplane", "fighter"],
+  ["SU27", "Sukhoi", "Su-27", 2, "jet", "M", "airplane", "fighter"],
+  ["SU30", "Sukhoi", "Su-30", 2, "jet", "M", "airplane", "fighter"],
+  ["SU95", "Sukhoi", "Superjet 100", 2, "jet", "M"],
+  ["TU95", "Tupolev", "Tu-95 Bear", 4, "turboprop", "H", "airplane", "bomber"],
+  ["T160", "Tupolev", "Tu-160", 4, "jet", "H", "airplane", "bomber"],
+  ["T134", "Tupolev", "Tu-134", 2, "jet", "M"],
+  ["T154", "Tupolev", "Tu-154", 3, "jet", "M"],
+  ["T204", "Tupolev", "Tu-204", 2, "jet", "M"],
+  ["IL18", "Ilyushin", "Il-18", 4, "turboprop", "M"],
+  ["IL62", "Ilyushin", "Il-62", 4, "jet", "H"],
+  ["IL76", "Ilyushin", "Il-76", 4, "jet", "H"],
+  ["IL78", "Ilyushin", "Il-78", 4, "jet", "H", "airplane", "tanker"],
+  ["IL96", "Ilyushin", "Il-96", 4, "jet", "H"],
+  ["YK40", "Yakovlev", "Yak-40", 3, "jet", "M"],
+  ["YK42", "Yakovlev", "Yak-42", 3, "jet", "M"],
+  ["AN2", "Antonov", "An-2", 1, "piston", "L"],
+  ["AN12", "Antonov", "An-12", 4, "turboprop", "M"],
+  ["AN24", "Antonov", "An-24", 2, "turboprop", "M"],
+  ["AN26", "Antonov", "An-26", 2, "turboprop", "M"],
+  ["AN30", "Antonov", "An-30", 2, "turboprop", "M"],
+  ["AN32", "Antonov", "An-32", 2, "turboprop", "M"],
+  ["AN72", "Antonov", "An-72/74", 2, "jet", "M"],
+  ["A140", "Antonov", "An-140", 2, "turboprop", "M"],
+  ["A148", "Antonov", "An-148", 2, "jet", "M"],
+  ["A158", "Antonov", "An-158", 2, "jet", "M"],
+  ["A124", "Antonov", "An-124 Ruslan", 4, "jet", "H"],
+  ["A225", "Antonov", "An-225 Mriya", 6, "jet", "J"],
+  ["MI8", "Mil", "Mi-8", 2, "turboshaft", "M", "helicopter"],
+  ["MI24", "Mil", "Mi-24", 2, "turboshaft", "M", "helicopter", "attack"],
+
+  // Other airliners and freighters
+  ["AJ27", "COMAC", "ARJ21", 2, "jet", "M"],
+  ["C919", "COMAC", "C919", 2, "jet", "M"],
+  ["CONC", "Aerospatiale-BAC", "Concorde", 4, "jet", "H"],
+  ["SGUP", "Aero Spacelines", "Super Guppy", 4, "turboprop", "M"],
+  ["SLCH", "Scaled Composites", "351 Stratolaunch", 6, "jet", "H"],
+  ["B461", "BAE Systems", "146-100", 4, "jet", "M"],
+  ["B462", "BAE Systems", "146-200", 4, "jet", "M"],
+  ["B463", "BAE Systems", "146-300", 4, "jet", "M"],
+  ["RJ85", "Avro", "RJ85", 4, "jet", "M"],
+  ["RJ1H", "Avro", "RJ100", 4, "jet", "M"],
+  ["F28", "Fokker", "F28 Fellowship", 2, "jet", "M"],
+  ["F50", "Fokker", "50", 2, "turboprop", "M"],
+  ["F70", "Fokker", "70", 2, "jet", "M"],
+  ["F100", "Fokker", "100", 2, "jet", "M"],
+  ["AT43", "ATR", "42-300", 2, "turboprop", "M"],
+  ["AT45", "ATR", "42-500", 2, "turboprop", "M"],
+  ["AT46", "ATR", "42-600", 2, "turboprop", "M"],
+  ["AT72", "ATR", "72", 2, "turboprop", "M"],
+  ["AT75", "ATR", "72-500", 2, "turboprop", "M"],
+  ["AT76", "ATR", "72-600", 2, "turboprop", "M"],
+  ["DH8A", "De Havilland Canada", "Dash 8-100", 2, "turboprop", "M"],
+  ["DH8B", "De Havilland Canada", "Dash 8-200", 2, "turboprop", "M"],
+  ["DH8C", "De Havilland Canada", "Dash 8-300", 2, "turboprop", "M"],
+  ["DH8D", "De Havilland Canada", "Dash 8-400", 2, "turboprop", "M"],
+  ["DHC6", "De Havilland Canada", "DHC-6 Twin Otter", 2, "turboprop", "L"],
+  ["DHC2", "De Havilland Canada", "DHC-2 Beaver", 1, "piston", "L"],
+  ["CRJ1", "Bombardier", "CRJ100", 2, "jet", "M"],
+  ["CRJ2", "Bombardier", "CRJ200", 2, "jet", "M"],
+  ["CRJ7", "Bombardier", "CRJ700", 2, "jet", "M"],
+  ["CRJ9", "Bombardier", "CRJ900", 2, "jet", "M"],
+  ["CRJX", "Bombardier", "CRJ1000", 2, "jet", "M"],
+  ["E135", "Embraer", "ERJ 135", 2, "jet", "M"],
+  ["E145", "Embraer", "ERJ 145", 2, "jet", "M"],
+  ["E170", "Embraer", "E170", 2, "jet", "M"],
+  ["E75L", "Embraer", "E175", 2, "jet", "M"],
+  ["E190", "Embraer", "E190", 2, "jet", "M"],
+  ["E195", "Embraer", "E195", 2, "jet", "M"],
+  ["E290", "Embraer", "E190-E2", 2, "jet", "M"],
+  ["E295", "Embraer", "E195-E2", 2, "jet", "M"],
+  ["SF34", "Saab", "340", 2, "turboprop", "M"],
+  ["SB20", "Saab", "2000", 2, "turboprop", "M"],
+  ["D328", "Dornier", "328", 2, "turboprop", "M"],
+  ["J328", "Dornier", "328JET", 2, "jet", "M"],
+  ["JU52", "Junkers", "Ju 52", 3, "piston", "M"],
+
+  // Business jets
+  ["GLF4", "Gulfstream", "IV", 2, "jet", "M"],
+  ["GLF5", "Gulfstream", "V", 2, "jet", "M"],
+  ["GLF6", "Gulfstream", "G650", 2, "jet", "M"],
+  ["GLEX", "Bombardier", "Global Express", 2, "jet", "M"],
+  ["GL5T", "Bombardier", "Global 5000", 2, "jet", "M"],
+  ["GL7T", "Bombardier", "Global 7500", 2, "jet", "M"],
+  ["CL60", "Bombardier", "Challenger 600", 2, "jet", "M"],
+  ["LJ45", "Learjet", "45", 2, "jet", "M"],
+  ["F900", "Dassault", "Falcon 900", 3, "jet", "M"],
+  ["F2TH", "Dassault", "Falcon 2000", 2, "jet", "M"],
+  ["FA7X", "Dassault", "Falcon 7X", 3, "jet", "M"],
+  ["FA8X", "Dassault", "Falcon 8X", 3, "jet", "M"],
+  ["C510", "Cessna", "Citation Mustang", 2, "jet", "L"],
+  ["C25A", "Cessna", "Citation CJ2", 2, "jet", "L"],
+  ["C56X", "Cessna", "Citation Excel", 2, "jet", "M"],
+  ["C68A", "Cessna", "Citation Latitude", 2, "jet", "M"],
+  ["E50P", "Embraer", "Phenom 100", 2, "jet", "L"],
+  ["E55P", "Embraer", "Phenom 300", 2, "jet", "M"],
+  ["HDJT", "Honda", "HondaJet", 2, "jet", "L"],
+  ["PC24", "Pilatus", "PC-24", 2, "jet", "M"],
+  ["SF50", "Cirrus", "Vision SF50", 1, "jet", "L"],
+
+  // General aviation
+  ["C152", "Cessna", "152", 1, "piston", "L"],
+  ["C172", "Cessna", "172 Skyhawk", 1, "piston", "L"],
+  ["C182", "Cessna", "182 Skylane", 1, "piston", "L"],
+  ["C208", "Cessna", "208 Caravan", 1, "turboprop", "L"],
+  ["P28A", "Piper", "PA-28 Cherokee", 1, "piston", "L"],
+  ["SR22", "Cirrus", "SR22", 1, "piston", "L"],
+  ["DA40", "Diamond", "DA40 Diamond Star", 1, "piston", "L"],
+  ["DA42", "Diamond", "DA42 Twin Star", 2, "piston", "L"],
+  ["PC12", "Pilatus", "PC-12", 1, "turboprop", "L"],
+  ["TBM9", "Daher", "TBM 900", 1, "turboprop", "L"],
+  ["BE9L", "Beechcraft", "King Air 90", 2, "turboprop", "L"],
+  ["BE20", "Beechcraft", "King Air 200", 2, "turboprop", "L"],
+  ["B350", "Beechcraft", "King Air 350", 2, "turboprop", "L"],
+  ["BN2P", "Britten-Norman", "BN-2 Islander", 2, "piston", "L"],
+
+  // Helicopters
+  ["R22", "Robinson", "R22", 1, "piston", "L", "helicopter"],
+  ["R44", "Robinson", "R44", 1, "piston", "L", "helicopter"],
+  ["B06", "Bell", "206 JetRanger", 1, "turboshaft", "L", "helicopter"],
+  ["B407", "Bell", "407", 1, "turboshaft", "L", "helicopter"],
+  ["B412", "Bell", "412", 2, "turboshaft", "L", "helicopter"],
+  ["AS50", "Airbus Helicopters", "H125 Ecureuil", 1, "turboshaft", "L", "helicopter"],
+  ["EC30", "Airbus Helicopters", "H130", 1, "turboshaft", "L", "helicopter"],
+  ["EC35", "Airbus Helicopters", "H135", 2, "turboshaft", "L", "helicopter"],
+  ["EC45", "Airbus Helicopters", "H145", 2, "turboshaft", "L", "helicopter"],
+  ["EC55", "Airbus Helicopters", "H155", 2, "turboshaft", "L", "helicopter"],
+  ["EC75", "Airbus Helicopters", "H175", 2, "turboshaft", "M", "helicopter"],
+  ["EC25", "Airbus Helicopters", "H225 Super Puma", 2, "turboshaft", "M", "helicopter"],
+  ["AS32", "Airbus Helicopters", "AS332 Super Puma", 2, "turboshaft", "M", "helicopter"],
+  ["A139", "Leonardo", "AW139", 2, "turboshaft", "L", "helicopter"],
+  ["A169", "Leonardo", "AW169", 2, "turboshaft", "L", "helicopter"],
+  ["A189", "Leonardo", "AW189", 2, "turboshaft", "M", "helicopter"],
+  ["S76", "Sikorsky", "S-76", 2, "turboshaft", "L", "helicopter"],
+  ["S92", "Sikorsky", "S-92", 2, "turboshaft", "M", "helicopter"],
+  ["H60", "Sikorsky", "UH-60 Black Hawk", 2, "turboshaft", "M", "helicopter", "transport"],
+  ["H53", "Sikorsky", "CH-53 Sea Stallion", 2, "turboshaft", "M", "helicopter", "transport"],
+  ["H53S", "Sikorsky", "CH-53E Super Stallion", 3, "turboshaft", "M", "helicopter", "transport"],
+];
+
+export const AIRCRAFT_TYPES: AircraftType[] = ROWS.map(
+  ([
+    designator,
+    manufacturer,
+    model,
+    engines,
+    engineType,
+    wake,
+    kind,
+    military,
+  ]) => ({
+    designator,
+    manufacturer,
+    model,
+    engines,
+    engineType,
+    wake,
+    kind: kind ?? "airplane",
+    ...(military && { military }),
+  }),
+);
@@ -0,0 +1,5 @@
+// Re-export all aircraft modules for convenient importing
+export * from "./types";
+export * from "./catalog";
+export * from "./query";
+export * from "./registrations";
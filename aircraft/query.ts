@@ -0,0 +1,51 @@
+import { AIRCRAFT_TYPES } from "./catalog";
+import type { AircraftType, AircraftTypeQuery } from "./types";
+
+const BY_DESIGNATOR = new Map(
+  AIRCRAFT_TYPES.map((type) => [type.designator, type]),
+);
+
+/**
+ * Looks up an ICAO type designator in the catalog
+ */
+export function findAircraftType(designator: string): AircraftType | undefined {
+  return BY_DESIGNATOR.get(designator.toUpperCase());
+}
+
+/**
+ * Full model name of a type designator, e.g. "Airbus A340-500" for "A345"
+ */
+export function aircraftTypeName(designator: string): string | undefined {
+  const type = findAircraftType(designator);
+  return type && `${type.manufacturer} ${type.model}`;
+}
+
+/**
+ * Whether a catalog entry meets all criteria of a query
+ */
+export function matchesAircraftQuery(
+  type: AircraftType,
+  query: AircraftTypeQuery,
+): boolean {
+  return (
+    (query.wake === undefined || type.wake === query.wake) &&
+    (query.kind === undefined || type.kind === query.kind) &&
+    (query.military === undefined ||
+      (type.military !== undefined) === query.military) &&
+    (query.role === undefined || type.military === query.role) &&
+    (query.manufacturer === undefined ||
+      type.manufacturer
+        .toLowerCase()
+        .startsWith(query.manufacturer.toLowerCase())) &&
+    (query.engineType === undefined || type.engineType === query.engineType) &&
+    (query.engines === undefined || type.engines === query.engines)
+  );
+}
+
+/**
+ * Catalog entries meeting all criteria of a query, e.g. all heavy wake
+ * category types, all military fighters or all Antonov types
+ */
+export function queryAircraftTypes(query: AircraftTypeQuery): AircraftType[] {
+  return AIRCRAFT_TYPES.filter((type) => matchesAircraftQuery(type, query));
+}
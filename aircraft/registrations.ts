@@ -0,0 +1,185 @@
+// Nationality marks of aircraft registrations by country, as registered
+// with the ICAO. Marks without a hyphen are followed directly by the
+// aircraft's letters or digits (N123AB, JA801A, HL7611).
+// prettier-ignore
+const NATIONALITY_MARKS: Record<string, string> = {
+  "N": "United States",
+  "C-": "Canada",
+  "XA-": "Mexico", "XB-": "Mexico", "XC-": "Mexico",
+  "D-": "Germany",
+  "F-": "France",
+  "G-": "United Kingdom",
+  "EI-": "Ireland", "EJ-": "Ireland",
+  "I-": "Italy",
+  "EC-": "Spain",
+  "CS-": "Portugal",
+  "PH-": "Netherlands",
+  "OO-": "Belgium",
+  "LX-": "Luxembourg",
+  "HB-": "Switzerland",
+  "OE-": "Austria",
+  "OK-": "Czechia",
+  "OM-": "Slovakia",
+  "SP-": "Poland",
+  "HA-": "Hungary",
+  "YR-": "Romania",
+  "LZ-": "Bulgaria",
+  "SX-": "Greece",
+  "9H-": "Malta",
+  "5B-": "Cyprus",
+  "TC-": "Turkey",
+  "OY-": "Denmark",
+  "LN-": "Norway",
+  "SE-": "Sweden",
+  "OH-": "Finland",
+  "TF-": "Iceland",
+  "ES-": "Estonia",
+  "YL-": "Latvia",
+  "LY-": "Lithuania",
+  "S5-": "Slovenia",
+  "9A-": "Croatia",
+  "YU-": "Serbia",
+  "Z3-": "North Macedonia",
+  "ZA-": "Albania",
+  "4O-": "Montenegro",
+  "E7-": "Bosnia and Herzegovina",
+  "ER-": "Moldova",
+  "UR-": "Ukraine",
+  "EW-": "Belarus",
+  "RA-": "Russia", "RF-": "Russia",
+  "4L-": "Georgia",
+  "EK-": "Armenia",
+  "4K-": "Azerbaijan",
+  "UP-": "Kazakhstan",
+  "UK-": "Uzbekistan",
+  "EX-": "Kyrgyzstan",
+  "EY-": "Tajikistan",
+  "EZ-": "Turkmenistan",
+  "4X-": "Israel",
+  "JY-": "Jordan",
+  "OD-": "Lebanon",
+  "YK-": "Syria",
+  "YI-": "Iraq",
+  "EP-": "Iran",
+  "HZ-": "Saudi Arabia",
+  "A6-": "United Arab Emirates",
+  "A7-": "Qatar",
+  "A9C-": "Bahrain",
+  "9K-": "Kuwait",
+  "A4O-": "Oman",
+  "7O-": "Yemen",
+  "SU-": "Egypt",
+  "5A-": "Libya",
+  "TS-": "Tunisia",
+  "7T-": "Algeria",
+  "CN-": "Morocco",
+  "ST-": "Sudan",
+  "ET-": "Ethiopia",
+  "5Y-": "Kenya",
+  "5H-": "Tanzania",
+  "5X-": "Uganda",
+  "9XR-": "Rwanda",
+  "ZS-": "South Africa",
+  "V5-": "Namibia",
+  "A2-": "Botswana",
+  "Z-": "Zimbabwe",
+  "9J-": "Zambia",
+  "C9-": "Mozambique",
+  "5R-": "Madagascar",
+  "3B-": "Mauritius",
+  "S7-": "Seychelles",
+  "D2-": "Angola",
+  "9Q-": "DR Congo",
+  "TN-": "Congo",
+  "TJ-": "Cameroon",
+  "5N-": "Nigeria",
+  "9G-": "Ghana",
+  "TU-": "Ivory Coast",
+  "6V-": "Senegal",
+  "D4-": "Cape Verde",
+  "4R-": "Sri Lanka",
+  "8Q-": "Maldives",
+  "VT-": "India",
+  "AP-": "Pakistan",
+  "S2-": "Bangladesh",
+  "9N-": "Nepal",
+  "A5-": "Bhutan",
+  "YA-": "Afghanistan",
+  "B-H": "Hong Kong", "B-K": "Hong Kong", "B-L": "Hong Kong",
+  "B-M": "Macau",
+  "B-": "China",
+  "JA": "Japan",
+  "HL": "South Korea",
+  "P-": "North Korea",
+  "JU-": "Mongolia",
+  "XY-": "Myanmar",
+  "HS-": "Thailand",
+  "XU-": "Cambodia",
+  "RDPL-": "Laos",
+  "VN-": "Vietnam",
+  "9M-": "Malaysia",
+  "9V-": "Singapore",
+  "V8-": "Brunei",
+  "PK-": "Indonesia",
+  "RP-": "Philippines",
+  "4W-": "Timor-Leste",
+  "VH-": "Australia",
+  "ZK-": "New Zealand",
+  "P2-": "Papua New Guinea",
+  "H4-": "Solomon Islands",
+  "YJ-": "Vanuatu",
+  "DQ-": "Fiji",
+  "A3-": "Tonga",
+  "5W-": "Samoa",
+  "T3-": "Kiribati",
+  "V6-": "Micronesia",
+  "V7-": "Marshall Islands",
+  "T8A-": "Palau",
+  "C2-": "Nauru",
+  "T2-": "Tuvalu",
+  "LV-": "Argentina", "LQ-": "Argentina",
+  "PP-": "Brazil", "PR-": "Brazil", "PS-": "Brazil", "PT-": "Brazil", "PU-": "Brazil",
+  "CC-": "Chile",
+  "CP-": "Bolivia",
+  "OB-": "Peru",
+  "HC-": "Ecuador",
+  "HK-": "Colombia",
+  "YV": "Venezuela",
+  "ZP-": "Paraguay",
+  "CX-": "Uruguay",
+  "8R-": "Guyana",
+  "PZ-": "Suriname",
+  "TG-": "Guatemala",
+  "TI-": "Costa Rica",
+  "HP-": "Panama",
+  "YS-": "El Salvador",
+  "HR-": "Honduras",
+  "YN-": "Nicaragua",
+  "CU-": "Cuba",
+  "HI": "Dominican Republic",
+  "HH-": "Haiti",
+  "6Y-": "Jamaica",
+  "C6-": "Bahamas",
+  "8P-": "Barbados",
+  "9Y-": "Trinidad and Tobago",
+  "VP-B": "Bermuda", "VQ-B": "Bermuda",
+  "VP-C": "Cayman Islands",
+  "2-": "Guernsey",
+  "M-": "Isle of Man",
+  "ZJ-": "Jersey",
+};
+
+// Longest marks first, so "B-H" wins over "B-" and "P2-" over "P-"
+const MARKS = Object.keys(NATIONALITY_MARKS).sort(
+  (a, b) => b.length - a.length,
+);
+
+/**
+ * Country of an aircraft registration from its nationality mark, e.g.
+ * "Malta" for "9H-EAA"
+ */
+export function registrationCountry(registration: string): string | undefined {
+  const normalized = registration.trim().toUpperCase();
+  const mark = MARKS.find((mark) => normalized.startsWith(mark));
+  return mark && NATIONALITY_MARKS[mark];
+}
@@ -0,0 +1,65 @@
+// ICAO wake turbulence category: light, medium, heavy and super (A388, A225)
+export type WakeCategory = "L" | "M" | "H" | "J";
+
+export const WAKE_CATEGORY_NAMES: Record<string, WakeCategory> = {
+  light: "L",
+  medium: "M",
+  heavy: "H",
+  super: "J",
+};
+
+export type EngineType = "jet" | "turboprop" | "turboshaft" | "piston";
+
+export type AircraftKind = "airplane" | "helicopter" | "tiltrotor";
+
+export const AIRCRAFT_KINDS: AircraftKind[] = [
+  "airplane",
+  "helicopter",
+  "tiltrotor",
+];
+
+export type MilitaryRole =
+  | "fighter"
+  | "attack"
+  | "bomber"
+  | "transport"
+  | "tanker"
+  | "trainer"
+  | "patrol"
+  | "surveillance";
+
+export const MILITARY_ROLES: MilitaryRole[] = [
+  "fighter",
+  "attack",
+  "bomber",
+  "transport",
+  "tanker",
+  "trainer",
+  "patrol",
+  "surveillance",
+];
+
+// Entry of the aircraft type catalog, keyed by ICAO type designator
+export interface AircraftType {
+  designator: string;
+  manufacturer: string;
+  model: string;
+  engines: number;
+  engineType: EngineType;
+  wake: WakeCategory;
+  kind: AircraftKind;
+  // Role of military types, absent for civil ones
+  military?: MilitaryRole;
+}
+
+// Criteria catalog entries must all meet, absent criteria match everything
+export interface AircraftTypeQuery {
+  wake?: WakeCategory;
+  kind?: AircraftKind;
+  military?: boolean;
+  role?: MilitaryRole;
+  // Case-insensitive prefix of the manufacturer, e.g. "antonov"
+  manufacturer?: string;
+  engineType?: EngineType;
+  engines?: number;
+}
@@ -0,0 +1,28 @@
+import chalk from "chalk";
+import { achievementProgress, goalKey } from "./goals";
+import type { Campaign, Goal } from "./types";
+
+/**
+ * Display the progress of every achievement in a campaign
+ */
+export function displayCampaignStatus(campaign: Campaign): void {
+  console.log(chalk.bold.cyan(`🏆 ${campaign.name.toUpperCase()}`));
+
+  campaign.achievements.forEach((achievement) => {
+    const { collected, total } = achievementProgress(achievement);
+    const progressColor = collected === total ? chalk.green : chalk.yellow;
+
+    console.log(
+      `\n${chalk.bold(achievement.name)} ${chalk.gray(`(${achievement.kind})`)} ${progressColor(`${collected}/${total}`)}`,
+    );
+
+    (achievement.goals as Goal[]).forEach((goal) => {
+      const marker = goal.collected ? chalk.green("✔") : chalk.red("○");
+      const key = goal.collected
+        ? chalk.gray(goalKey(goal))
+        : chalk.cyan(goalKey(goal));
+      const name = goal.name ? ` ${chalk.gray(goal.name)}` : "";
+      console.log(`  ${marker} ${key}${name}`);
+    });
+  });
+}
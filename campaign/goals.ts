@@ -0,0 +1,112 @@
+import type { BidirectionalAirportPair } from "../operations/flights-between-pairs";
+import type { Achievement, Campaign, Goal } from "./types";
+
+/**
+ * Aircraft types of all goals that are not collected yet
+ */
+export function openAircraftTypes(campaign: Campaign): string[] {
+  const types = campaign.achievements
+    .flatMap((a) => (a.kind === "aircraft" ? a.goals : []))
+    .filter((goal) => !goal.collected)
+    .map((goal) => goal.type);
+  return [...new Set(types)];
+}
+
+/**
+ * Airport pairs of all route goals that are not collected yet
+ */
+export function openRoutes(campaign: Campaign): BidirectionalAirportPair[] {
+  return campaign.achievements
+    .flatMap((a) => (a.kind === "route" ? a.goals : []))
+    .filter((goal) => !goal.collected)
+    .map((goal) => ({
+      source: goal.source,
+      destination: goal.destination,
+      searchBothDirections: goal.bothDirections !== false,
+    }));
+}
+
+/**
+ * Countries of all country goals that are not collected yet
+ */
+export function openCountries(campaign: Campaign): string[] {
+  const countries = campaign.achievements
+    .flatMap((a) => (a.kind === "country" ? a.goals : []))
+    .filter((goal) => !goal.collected)
+    .map((goal) => goal.country);
+  return [...new Set(countries)];
+}
+
+/**
+ * ICAO designators of all airline goals that are not collected yet
+ */
+export function openAirlines(campaign: Campaign): string[] {
+  const airlines = campaign.achievements
+    .flatMap((a) => (a.kind === "airline" ? a.goals : []))
+    .filter((goal) => !goal.collected)
+    .map((goal) => goal.airline);
+  return [...new Set(airlines)];
+}
+
+/**
+ * Returns the key identifying a goal: the type code, "SRC-DST", country or
+ * airline designator
+ */
+export function goalKey(goal: Goal): string {
+  if ("type" in goal) return goal.type;
+  if ("source" in goal) return `${goal.source}-${goal.destination}`;
+  if ("airline" in goal) return goal.airline;
+  return goal.country;
+}
+
+/**
+ * Matches a user supplied key against a goal, case-insensitive and
+ * accepting routes in either direction
+ */
+function matchesGoal(goal: Goal, key: string): boolean {
+  const normalized = key.trim().toLowerCase();
+  if ("source" in goal) {
+    const forward = `${goal.source}-${goal.destination}`.toLowerCase();
+    const reverse = `${goal.destination}-${goal.source}`.toLowerCase();
+    return (
+      normalized === forward ||
+      (goal.bothDirections !== false && normalized === reverse)
+    );
+  }
+  return goalKey(goal).toLowerCase() === normalized;
+}
+
+/**
+ * Sets the collected state of all goals matching the key, returning the
+ * number of goals changed
+ */
+export function setCollected(
+  campaign: Campaign,
+  key: string,
+  collected: boolean,
+): number {
+  let changed = 0;
+  for (const achievement of campaign.achievements) {
+    for (const goal of achievement.goals as Goal[]) {
+      if (matchesGoal(goal, key) && goal.collected !== collected) {
+        goal.collected = collected;
+        changed++;
+      }
+    }
+  }
+  return changed;
+}
+
+/**
+ * Progress of an achievement as collected and total goal counts
+ */
+export function achievementProgress(achievement: Achievement): {
+  collected: number;
+  total: number;
+} {
+  const goals = achievement.goals as Goal[];
+  return {
+    collected: goals.filter((goal) => goal.collected).length,
+    total: goals.length,
+  };
+}
@@ -0,0 +1,6 @@
+// Re-export all campaign modules for convenient importing
+export * from "./types";
+export * from "./schema";
+export * from "./load";
+export * from "./goals";
+export * from "./display";
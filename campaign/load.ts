@@ -0,0 +1,28 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { validateCampaign } from "./schema";
+import type { Campaign } from "./types";
+
+/**
+ * Loads and validates a campaign file
+ */
+export async function loadCampaign(path: string): Promise<Campaign> {
+  const content = await readFile(path, "utf8");
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse campaign ${path}: ${error}`);
+  }
+  return validateCampaign(data, path);
+}
+
+/**
+ * Writes a campaign back to disk, keeping the file formatted
+ */
+export async function saveCampaign(
+  path: string,
+  campaign: Campaign,
+): Promise<void> {
+  validateCampaign(campaign, path);
+  await writeFile(path, JSON.stringify(campaign, null, 2) + "\n");
+}
@@ -0,0 +1,181 @@
+import type { Achievement, Campaign } from "./types";
+
+const AIRPORT_CODE = /^([A-Z0-9]{3}|[A-Z]{4})$/;
+const AIRCRAFT_TYPE = /^[A-Z][A-Z0-9]{1,3}$/;
+const COUNTRY_SLUG = /^[a-z]+(-[a-z]+)*$/;
+const AIRLINE_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Error raised when a campaign file does not match the schema
+ */
+export class CampaignValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[],
+  ) {
+    super(
+      `Invalid campaign ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+    );
+    this.name = "CampaignValidationError";
+  }
+}
+
+type Issues = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkString(
+  issues: Issues,
+  path: string,
+  value: unknown,
+  pattern?: RegExp,
+): value is string {
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push(`${path}: expected a non-empty string`);
+    return false;
+  }
+  if (pattern && !pattern.test(value)) {
+    issues.push(`${path}: "${value}" does not match ${pattern}`);
+    return false;
+  }
+  return true;
+}
+
+function checkOptionalString(issues: Issues, path: string, value: unknown) {
+  if (value !== undefined) {
+    checkString(issues, path, value);
+  }
+}
+
+function checkBoolean(
+  issues: Issues,
+  path: string,
+  value: unknown,
+  optional = false,
+) {
+  if (optional && value === undefined) return;
+  if (typeof value !== "boolean") {
+    issues.push(`${path}: expected true or false`);
+  }
+}
+
+function validateAircraftGoal(issues: Issues, path: string, goal: unknown) {
+  if (!isObject(goal)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  checkString(issues, `${path}.type`, goal.type, AIRCRAFT_TYPE);
+  checkOptionalString(issues, `${path}.name`, goal.name);
+  checkBoolean(issues, `${path}.collected`, goal.collected);
+}
+
+function validateRouteGoal(issues: Issues, path: string, goal: unknown) {
+  if (!isObject(goal)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  checkString(issues, `${path}.source`, goal.source, AIRPORT_CODE);
+  checkString(issues, `${path}.destination`, goal.destination, AIRPORT_CODE);
+  checkOptionalString(issues, `${path}.name`, goal.name);
+  checkBoolean(issues, `${path}.bothDirections`, goal.bothDirections, true);
+  checkBoolean(issues, `${path}.collected`, goal.collected);
+}
+
+function validateCountryGoal(issues: Issues, path: string, goal: unknown) {
+  if (!isObject(goal)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  checkString(issues, `${path}.country`, goal.country, COUNTRY_SLUG);
+  checkOptionalString(issues, `${path}.name`, goal.name);
+  checkBoolean(issues, `${path}.collected`, goal.collected);
+}
+
+function validateAirlineGoal(issues: Issues, path: string, goal: unknown) {
+  if (!isObject(goal)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  checkString(issues, `${path}.airline`, goal.airline, AIRLINE_CODE);
+  checkOptionalString(issues, `${path}.name`, goal.name);
+  checkBoolean(issues, `${path}.collected`, goal.collected);
+}
+
+const goalValidators: Record<
+  Achievement["kind"],
+  (issues: Issues, path: string, goal: unknown) => void
+> = {
+  aircraft: validateAircraftGoal,
+  route: validateRouteGoal,
+  country: validateCountryGoal,
+  airline: validateAirlineGoal,
+};
+
+function validateAchievement(
+  issues: Issues,
+  path: string,
+  achievement: unknown,
+  seenIds: Set<string>,
+) {
+  if (!isObject(achievement)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  if (checkString(issues, `${path}.id`, achievement.id)) {
+    if (seenIds.has(achievement.id)) {
+      issues.push(`${path}.id: duplicate achievement id "${achievement.id}"`);
+    }
+    seenIds.add(achievement.id);
+  }
+  checkString(issues, `${path}.name`, achievement.name);
+
+  const kind = achievement.kind;
+  if (typeof kind !== "string" || !(kind in goalValidators)) {
+    issues.push(
+      `${path}.kind: expected one of ${Object.keys(goalValidators).join(", ")}`,
+    );
+    return;
+  }
+
+  if (!Array.isArray(achievement.goals)) {
+    issues.push(`${path}.goals: expected an array`);
+    return;
+  }
+  const validateGoal = goalValidators[kind as Achievement["kind"]];
+  achievement.goals.forEach((goal, index) =>
+    validateGoal(issues, `${path}.goals[${index}]`, goal),
+  );
+}
+
+/**
+ * Validates parsed campaign data against the campaign schema
+ */
+export function validateCampaign(data: unknown, source: string): Campaign {
+  const issues: Issues = [];
+
+  if (!isObject(data)) {
+    throw new CampaignValidationError(source, ["expected a JSON object"]);
+  }
+  checkString(issues, "name", data.name);
+
+  if (!Array.isArray(data.achievements)) {
+    issues.push("achievements: expected an array");
+  } else {
+    const seenIds = new Set<string>();
+    data.achievements.forEach((achievement, index) =>
+      validateAchievement(
+        issues,
+        `achievements[${index}]`,
+        achievement,
+        seenIds,
+      ),
+    );
+  }
+
+  if (issues.length > 0) {
+    throw new CampaignValidationError(source, issues);
+  }
+  return data as unknown as Campaign;
+}
@@ -0,0 +1,55 @@
+// Aircraft type goal, caught by spotting any aircraft of the ICAO type
+export interface AircraftGoal {
+  type: string;
+  name?: string;
+  collected: boolean;
+}
+
+// Route goal, caught by spotting a flight between both airports
+export interface RouteGoal {
+  source: string;
+  destination: string;
+  name?: string;
+  bothDirections?: boolean;
+  collected: boolean;
+}
+
+// Country goal, caught by spotting a flight touching the country
+export interface CountryGoal {
+  country: string;
+  name?: string;
+  collected: boolean;
+}
+
+// Airline goal, caught by spotting a flight operated by the airline
+export interface AirlineGoal {
+  airline: string; // ICAO designator
+  name?: string;
+  collected: boolean;
+}
+
+interface BaseAchievement<K extends string, G> {
+  id: string;
+  name: string;
+  kind: K;
+  goals: G[];
+}
+
+export type AircraftAchievement = BaseAchievement<"aircraft", AircraftGoal>;
+export type RouteAchievement = BaseAchievement<"route", RouteGoal>;
+export type CountryAchievement = BaseAchievement<"country", CountryGoal>;
+export type AirlineAchievement = BaseAchievement<"airline", AirlineGoal>;
+
+export type Achievement =
+  | AircraftAchievement
+  | RouteAchievement
+  | CountryAchievement
+  | AirlineAchievement;
+
+export type Goal = AircraftGoal | RouteGoal | CountryGoal | AirlineGoal;
+
+// A season of achievements as stored in a campaign file
+export interface Campaign {
+  name: string;
+  achievements: Achievement[];
+}
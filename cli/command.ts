@@ -0,0 +1,144 @@
+import chalk from "chalk";
+
+/**
+ * Specification of a single command line option
+ */
+export interface OptionSpec {
+  type: "string" | "boolean";
+  short?: string;
+  multiple?: boolean;
+  default?: string | boolean;
+  placeholder?: string;
+  description: string;
+}
+
+export type OptionValues = Record<
+  string,
+  string | boolean | (string | boolean)[] | undefined
+>;
+
+/**
+ * Parsed arguments handed to a command
+ */
+export interface CommandArgs {
+  values: OptionValues;
+  positionals: string[];
+}
+
+/**
+ * A skycards subcommand
+ */
+export interface Command {
+  name: string;
+  summary: string;
+  usage: string;
+  options: Record<string, OptionSpec>;
+  examples?: string[];
+  run(args: CommandArgs): Promise<void>;
+}
+
+/**
+ * Error raised for invalid user input, printed without a stack trace
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+/**
+ * Formats the help text of a command
+ */
+export function formatCommandHelp(
+  command: Command,
+  globalOptions: Record<string, OptionSpec>,
+): string {
+  const lines = [
+    chalk.bold(`skycards ${command.name}`) + ` - ${command.summary}`,
+    "",
+    `Usage: skycards ${command.name} ${command.usage}`,
+    "",
+    "Options:",
+    ...formatOptions({ ...command.options, ...globalOptions }),
+  ];
+
+  if (command.examples?.length) {
+    lines.push("", "Examples:");
+    lines.push(...command.examples.map((example) => `  ${example}`));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats an option table with aligned descriptions
+ */
+export function formatOptions(options: Record<string, OptionSpec>): string[] {
+  const entries = Object.entries(options).map(([name, spec]) => {
+    const short = spec.short ? `-${spec.short}, ` : "    ";
+    const value =
+      spec.type === "string" ? ` <${spec.placeholder ?? name}>` : "";
+    const defaultStr =
+      spec.default !== undefined && spec.default !== false
+        ? chalk.gray(` (default: ${spec.default})`)
+        : "";
+    return {
+      flag: `  ${short}--${name}${value}`,
+      description: spec.description + defaultStr,
+    };
+  });
+
+  const width = Math.max(...entries.map((entry) => entry.flag.length)) + 2;
+  return entries.map(
+    (entry) => `${entry.flag.padEnd(width)}${entry.description}`,
+  );
+}
+
+/**
+ * Reads a string option, optionally given multiple times and/or comma separated
+ */
+export function getList(values: OptionValues, name: string): string[] {
+  const raw = values[name];
+  const items = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  return items
+    .filter((item): item is string => typeof item === "string")
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Reads a single string option
+ */
+export function getString(
+  values: OptionValues,
+  name: string,
+): string | undefined {
+  const raw = values[name];
+  const value = Array.isArray(raw) ? raw[raw.length - 1] : raw;
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Reads a boolean flag
+ */
+export function getFlag(values: OptionValues, name: string): boolean {
+  return values[name] === true;
+}
+
+/**
+ * Reads a numeric option
+ */
+export function getNumber(
+  values: OptionValues,
+  name: string,
+): number | undefined {
+  const value = getString(values, name);
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    throw new CliError(`--${name} expects a number, got "${value}"`);
+  }
+  return number;
+}
@@ -0,0 +1,44 @@
+import chalk from "chalk";
+import { AIRCRAFT_TYPES, queryAircraftTypes } from "../../aircraft";
+import { writeOutput } from "../../output";
+import { type Command } from "../command";
+import {
+  aircraftTypeOptions,
+  formatOption,
+  getAircraftTypeQuery,
+  getOutputFormat,
+} from "../options";
+
+export const aircraftCommand: Command = {
+  name: "aircraft",
+  summary: "List the aircraft type catalog usable with --wake, --role etc.",
+  usage:
+    "[--wake <category>] [--military] [--role <role>] [--kind <kind>] [--manufacturer <name>] [--format <format>]",
+  options: {
+    ...aircraftTypeOptions,
+    ...formatOption,
+  },
+  examples: [
+    "skycards aircraft --wake heavy",
+    "skycards aircraft --role fighter",
+    "skycards aircraft --manufacturer antonov --format json | jq '.[].designator'",
+  ],
+  async run({ values }) {
+    const format = getOutputFormat(values);
+    const query = getAircraftTypeQuery(values);
+    const types = query ? queryAircraftTypes(query) : AIRCRAFT_TYPES;
+    writeOutput(format, types, (types) => {
+      types.forEach((type) => {
+        console.log(
+          `  ${chalk.cyan(type.designator.padEnd(6))}${type.manufacturer} ${type.model}` +
+            chalk.gray(
+              ` (${type.engines}x ${type.engineType}, wake ${type.wake}` +
+                (type.military ? `, ${type.military}` : "") +
+                ")",
+            ),
+        );
+      });
+      console.log(chalk.gray(`\n${types.length} aircraft types`));
+    });
+  },
+};
@@ -0,0 +1,81 @@
+import {
+  loadCollection,
+  saveLastScan,
+  sightingFromPlannedFlight,
+  sightingNovelty,
+} from "../../collection";
+import { operatorGoals } from "../../operations/operator-goals";
+import {
+  DEFAULT_OPERATOR_HOURS,
+  displayOperatorSummaries,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import { CliError, getList, getNumber, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  campaignOption,
+  formatOption,
+  getOutputFormat,
+  getTimeZone,
+  resolveAirlines,
+  timeZoneOption,
+} from "../options";
+import { parseAirportCodes } from "../validation";
+
+export const airlinesCommand: Command = {
+  name: "airlines",
+  summary: "Find airborne flights and next departures of airlines still needed",
+  usage:
+    "<AIRLINE...> [--campaign <file>] [--from <codes>] [--hours <n>] [--tz <zone>] [--format <format>]",
+  options: {
+    ...campaignOption,
+    from: {
+      type: "string",
+      multiple: true,
+      placeholder: "codes",
+      description: "Airports to list the airlines' next departures from",
+    },
+    hours: {
+      type: "string",
+      placeholder: "n",
+      default: String(DEFAULT_OPERATOR_HOURS),
+      description: "Hours ahead to look for departures",
+    },
+    ...timeZoneOption,
+    ...formatOption,
+  },
+  examples: [
+    "skycards airlines ANG 'Air Kiribati' --from BNE,NAN",
+    "skycards airlines --campaign season1/campaign.json --from HAM,FRA",
+  ],
+  async run({ values, positionals }) {
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const hours = getNumber(values, "hours");
+    if (hours !== undefined && hours <= 0) {
+      throw new CliError("--hours must be positive");
+    }
+    const airports = parseAirportCodes(getList(values, "from"));
+
+    const provider = createProvider(values);
+    const airlines = await resolveAirlines(provider, values, positionals);
+    const summaries = await operatorGoals(provider, airlines, airports, {
+      hours,
+    });
+    const collection = await loadCollection();
+    writeOutput(format, summaries, (summaries) =>
+      displayOperatorSummaries(
+        summaries,
+        (flight) =>
+          sightingNovelty(collection, sightingFromPlannedFlight(flight)),
+        timeZone,
+      ),
+    );
+    await saveLastScan(
+      "airlines",
+      summaries.flatMap((summary) =>
+        summary.airborne.map(sightingFromPlannedFlight),
+      ),
+    );
+  },
+};
@@ -0,0 +1,223 @@
+import {
+  loadCollection,
+  saveLastScan,
+  sightingFromAreaFlight,
+  sightingNovelty,
+} from "../../collection";
+import { appendObservations, observationFromAreaFlight } from "../../history";
+import {
+  liveTrafficInArea,
+  type LiveTrafficFilters,
+  type SearchArea,
+} from "../../operations/live-traffic";
+import { displayAreaFlights, flattenZones } from "../../operations/shared";
+import { writeOutput } from "../../output";
+import type { FlightDataProvider } from "../../providers";
+import {
+  CliError,
+  getFlag,
+  getList,
+  getNumber,
+  getString,
+  type Command,
+  type OptionValues,
+} from "../command";
+import { createProvider } from "../context";
+import {
+  formatOption,
+  getOutputFormat,
+  getRouteFilters,
+  getRouteSort,
+  routeOptions,
+} from "../options";
+import {
+  parseAircraftTypes,
+  parseAirlineCodes,
+  parseAirportCode,
+  parseCoordinateList,
+} from "../validation";
+
+const DEFAULT_RADIUS_KM = 100;
+
+/**
+ * Resolves --center/--radius, --bbox or --zone into the area to search
+ */
+async function resolveArea(
+  provider: FlightDataProvider,
+  values: OptionValues,
+): Promise<SearchArea> {
+  const center = getString(values, "center");
+  const bbox = getString(values, "bbox");
+  const zone = getString(values, "zone");
+  if ([center, bbox, zone].filter(Boolean).length !== 1) {
+    throw new CliError("Give exactly one of --center, --bbox or --zone");
+  }
+
+  if (bbox) {
+    const [north, west, south, east] = parseCoordinateList(bbox, 4) as [
+      number,
+      number,
+      number,
+      number,
+    ];
+    // A west edge east of the east edge is a box across the antimeridian
+    if (north <= south || west === east) {
+      throw new CliError(
+        "--bbox expects the north-west corner followed by the south-east corner",
+      );
+    }
+    return { bounds: { north, south, west, east } };
+  }
+
+  if (zone) {
+    const zones = flattenZones(await provider.getZones());
+    const bounds = zones[zone.toLowerCase()];
+    if (!bounds) {
+      throw new CliError(
+        `Unknown zone "${zone}". Known zones: ${Object.keys(zones).sort().join(", ")}`,
+      );
+    }
+    return { bounds };
+  }
+
+  const radiusKm = getNumber(values, "radius") ?? DEFAULT_RADIUS_KM;
+  if (radiusKm <= 0) {
+    throw new CliError("--radius must be positive");
+  }
+  if (center!.includes(",")) {
+    const [latitude, longitude] = parseCoordinateList(center!, 2) as [
+      number,
+      number,
+    ];
+    return { center: { latitude, longitude }, radiusKm };
+  }
+  const airport = await provider.getAirport(parseAirportCode(center!));
+  return {
+    center: { latitude: airport.latitude, longitude: airport.longitude },
+    radiusKm,
+  };
+}
+
+/**
+ * Reads the traffic filters
+ */
+function getFilters(values: OptionValues): LiveTrafficFilters {
+  if (getFlag(values, "on-ground") && getFlag(values, "airborne")) {
+    throw new CliError("--on-ground and --airborne exclude each other");
+  }
+  return {
+    aircraftTypes: parseAircraftTypes(getList(values, "type")),
+    airlines: parseAirlineCodes(getList(values, "airline")),
+    minAltitude: getNumber(values, "min-altitude"),
+    maxAltitude: getNumber(values, "max-altitude"),
+    onGround: getFlag(values, "on-ground")
+      ? true
+      : getFlag(values, "airborne")
+        ? false
+        : undefined,
+    registrationPrefixes: getList(values, "reg-prefix").map((prefix) =>
+      prefix.toUpperCase(),
+    ),
+  };
+}
+
+export const areaCommand: Command = {
+  name: "area",
+  summary: "List all live traffic around a point, in a box or a zone",
+  usage:
+    "(--center <code|lat,lon> [--radius <km>] | --bbox <n,w,s,e> | --zone <name>) [filters] [--min-distance <km>] [--sort <key>] [--format <format>]",
+  options: {
+    center: {
+      type: "string",
+      placeholder: "code|lat,lon",
+      description: "Search around an airport or coordinates",
+    },
+    radius: {
+      type: "string",
+      placeholder: "km",
+      default: String(DEFAULT_RADIUS_KM),
+      description: "Radius around --center",
+    },
+    bbox: {
+      type: "string",
+      placeholder: "n,w,s,e",
+      description:
+        "Search a box given by its north-west and south-east corner, which may cross 180°",
+    },
+    zone: {
+      type: "string",
+      placeholder: "name",
+      description: "Search a named zone of the live feed (e.g. germany)",
+    },
+    type: {
+      type: "string",
+      multiple: true,
+      placeholder: "types",
+      description: "Only aircraft types, comma separated or repeated",
+    },
+    airline: {
+      type: "string",
+      multiple: true,
+      placeholder: "icao",
+      description: "Only airlines by ICAO code, comma separated or repeated",
+    },
+    "min-altitude": {
+      type: "string",
+      placeholder: "ft",
+      description: "Only flights at or above an altitude",
+    },
+    "max-altitude": {
+      type: "string",
+      placeholder: "ft",
+      description: "Only flights at or below an altitude",
+    },
+    "on-ground": {
+      type: "boolean",
+      description: "Only aircraft on the ground",
+    },
+    airborne: {
+      type: "boolean",
+      description: "Only airborne aircraft",
+    },
+    "reg-prefix": {
+      type: "string",
+      multiple: true,
+      placeholder: "prefix",
+      description: "Only registrations starting with a prefix (e.g. D-)",
+    },
+    ...routeOptions,
+    ...formatOption,
+  },
+  examples: [
+    "skycards area --center HAM --radius 150",
+    "skycards area --center 53.63,9.99 --radius 50 --airborne --max-altitude 10000",
+    "skycards area --bbox 55,5,47,15 --type A388,B748",
+    "skycards area --bbox -10,170,-25,-170",
+    "skycards area --zone germany --airline DLH --reg-prefix D-A",
+    "skycards area --center HAM --airborne --sort distance",
+  ],
+  async run({ values }) {
+    const filters = getFilters(values);
+    const format = getOutputFormat(values);
+    const routeFilters = getRouteFilters(values);
+    const sortBy = getRouteSort(values);
+
+    const provider = createProvider(values);
+    const flights = await liveTrafficInArea(
+      provider,
+      await resolveArea(provider, values),
+      filters,
+      { routeFilters, sortBy },
+    );
+    const collection = await loadCollection();
+    writeOutput(format, flights, (flights) =>
+      displayAreaFlights(flights, (flight) =>
+        sightingNovelty(collection, sightingFromAreaFlight(flight)),
+      ),
+    );
+    await saveLastScan("area", flights.map(sightingFromAreaFlight));
+    await appendObservations(
+      flights.map((flight) => observationFromAreaFlight(flight, "area")),
+    );
+  },
+};
@@ -0,0 +1,107 @@
+import {
+  loadCollection,
+  saveLastScan,
+  sightingFromBackwardFlight,
+  sightingNovelty,
+} from "../../collection";
+import { backwardLookup } from "../../operations/backward-lookup";
+import {
+  displayAirportsByDiversity,
+  displayBestTimeWindows,
+  displayDiversitySummary,
+  displayFlightsByOrigin,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import { CliError, getNumber, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  aircraftFilterOptions,
+  formatOption,
+  getOutputFormat,
+  getRouteFilters,
+  getRouteSort,
+  getScheduleWindow,
+  getTimeZone,
+  isOnlyToday,
+  onlyTodayOption,
+  quietHoursOptions,
+  resolveAircraftFilters,
+  resolveQuietHours,
+  resolveTargetAirports,
+  routeOptions,
+  scheduleOptions,
+  targetOptions,
+  timeZoneOption,
+} from "../options";
+
+export const backwardCommand: Command = {
+  name: "backward",
+  summary: "Rank origin airports feeding the target airports",
+  usage:
+    "(--to <codes> | --region <name> | --campaign <file>) [--only-today] [--window <hours>] [--tz <zone>] [--quiet-hours <HH:MM-HH:MM>] [--min-distance <km>] [--sort <key>] [--type <types>] [--airline <icao>] [--wake <category>] [--format <format>]",
+  options: {
+    ...targetOptions,
+    ...onlyTodayOption,
+    ...scheduleOptions,
+    window: {
+      type: "string",
+      placeholder: "hours",
+      description:
+        "Rank origins by the windows of this length serving the most targets",
+    },
+    ...timeZoneOption,
+    ...quietHoursOptions,
+    ...routeOptions,
+    ...aircraftFilterOptions,
+    ...formatOption,
+  },
+  examples: [
+    "skycards backward --region oceania",
+    "skycards backward --to SYD --format ndjson | jq .code",
+    "skycards backward --region oceania --window 4 --hours-forward 24",
+    "skycards backward --region oceania --min-distance 12000 --sort distance",
+    "skycards backward --to SPN --type B763,A21N",
+  ],
+  async run({ values }) {
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const windowHours = getNumber(values, "window");
+    if (windowHours !== undefined && windowHours <= 0) {
+      throw new CliError("--window must be positive");
+    }
+    const provider = createProvider(values);
+    const { flights, flightsByOrigin, airports, windows } =
+      await backwardLookup(
+        provider,
+        await resolveTargetAirports(provider, values),
+        {
+          onlyToday: isOnlyToday(values),
+          scheduleWindow: getScheduleWindow(values),
+          timeZone,
+          quietHours: await resolveQuietHours(values),
+          routeFilters: getRouteFilters(values),
+          sortBy: getRouteSort(values),
+          aircraftFilters: await resolveAircraftFilters(provider, values),
+          windowHours,
+        },
+      );
+    if (windowHours !== undefined) {
+      writeOutput(format, windows, (windows) =>
+        displayBestTimeWindows(windows, windowHours, timeZone),
+      );
+    } else {
+      const collection = await loadCollection();
+      writeOutput(format, airports, (airports) => {
+        displayFlightsByOrigin(
+          flightsByOrigin,
+          (flight) =>
+            sightingNovelty(collection, sightingFromBackwardFlight(flight)),
+          timeZone,
+        );
+        displayAirportsByDiversity(airports, flightsByOrigin, timeZone);
+        displayDiversitySummary(airports);
+      });
+    }
+    await saveLastScan("backward", flights.map(sightingFromBackwardFlight));
+  },
+};
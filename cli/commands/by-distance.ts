@@ -0,0 +1,80 @@
+import { airportsByDistance } from "../../operations/airports-by-distance";
+import {
+  displayAirportsByDistance,
+  displayAirportsDistanceSummary,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import chalk from "chalk";
+import { getString, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  formatOption,
+  getOutputFormat,
+  getRouteFilters,
+  getRouteSort,
+  getScheduleWindow,
+  getTimeZone,
+  isOnlyToday,
+  onlyTodayOption,
+  quietHoursOptions,
+  resolveQuietHours,
+  resolveTargetAirports,
+  routeOptions,
+  scheduleOptions,
+  targetOptions,
+  timeZoneOption,
+} from "../options";
+import { parseAirportCode } from "../validation";
+
+export const byDistanceCommand: Command = {
+  name: "by-distance",
+  summary:
+    "Rank origin airports feeding the targets by distance from an origin",
+  usage:
+    "(--to <codes> | --region <name> | --campaign <file>) [--origin <code>] [--only-today] [--tz <zone>] [--quiet-hours <HH:MM-HH:MM>] [--min-distance <km>] [--sort <key>] [--format <format>]",
+  options: {
+    ...targetOptions,
+    origin: {
+      type: "string",
+      short: "o",
+      default: "HAM",
+      placeholder: "code",
+      description: "Airport to measure distances from",
+    },
+    ...onlyTodayOption,
+    ...scheduleOptions,
+    ...timeZoneOption,
+    ...quietHoursOptions,
+    ...routeOptions,
+    ...formatOption,
+  },
+  examples: ["skycards by-distance --region oceania --origin HAM"],
+  async run({ values }) {
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const provider = createProvider(values);
+    const { flightsByOrigin, airports } = await airportsByDistance(
+      provider,
+      await resolveTargetAirports(provider, values),
+      parseAirportCode(getString(values, "origin") ?? "HAM"),
+      {
+        onlyToday: isOnlyToday(values),
+        scheduleWindow: getScheduleWindow(values),
+        timeZone,
+        quietHours: await resolveQuietHours(values),
+        routeFilters: getRouteFilters(values),
+        sortBy: getRouteSort(values),
+      },
+    );
+    writeOutput(format, airports, (airports) => {
+      if (airports.length === 0) {
+        console.log(
+          chalk.yellow("No source airports found with valid coordinates."),
+        );
+        return;
+      }
+      displayAirportsByDistance(airports, flightsByOrigin, timeZone);
+      displayAirportsDistanceSummary(airports);
+    });
+  },
+};
@@ -0,0 +1,58 @@
+import {
+  displayCampaignStatus,
+  saveCampaign,
+  setCollected,
+} from "../../campaign";
+import { CliError, type Command } from "../command";
+import { loadCampaignOption } from "../options";
+import chalk from "chalk";
+
+const actions = ["status", "collect", "uncollect"];
+
+export const campaignCommand: Command = {
+  name: "campaign",
+  summary: "Show campaign progress or mark goals as collected",
+  usage: "<status|collect|uncollect> <file> [GOAL...]",
+  options: {},
+  examples: [
+    "skycards campaign status season1/campaign.json",
+    "skycards campaign collect season1/campaign.json A345 PER-LHR",
+  ],
+  async run({ positionals }) {
+    const [action, path, ...goals] = positionals;
+    if (!action || !actions.includes(action)) {
+      throw new CliError(`Expected one of ${actions.join(", ")}`);
+    }
+    if (!path) {
+      throw new CliError("No campaign file given");
+    }
+    const campaign = (await loadCampaignOption({ campaign: path }))!;
+
+    if (action === "status") {
+      displayCampaignStatus(campaign);
+      return;
+    }
+
+    if (goals.length === 0) {
+      throw new CliError("No goals given, e.g. an aircraft type or SRC-DST");
+    }
+    const collected = action === "collect";
+    for (const goal of goals) {
+      const changed = setCollected(campaign, goal, collected);
+      if (changed === 0) {
+        console.log(
+          chalk.yellow(
+            `No ${collected ? "open" : "collected"} goal matches "${goal}"`,
+          ),
+        );
+      } else {
+        console.log(
+          chalk.green(
+            `Marked ${goal} as ${collected ? "collected" : "open"} (${changed} goal${changed === 1 ? "" : "s"})`,
+          ),
+        );
+      }
+    }
+    await saveCampaign(path, campaign);
+  },
+};
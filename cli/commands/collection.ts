@@ -0,0 +1,115 @@
+import chalk from "chalk";
+import {
+  COLLECTION_KINDS,
+  findSightings,
+  loadCollection,
+  loadLastScan,
+  recordItem,
+  recordSighting,
+  saveCollection,
+  type CollectionKind,
+} from "../../collection";
+import { CliError, getFlag, type Command } from "../command";
+
+const actions = ["list", "catch", "add"];
+
+function parseKind(input: string | undefined): CollectionKind {
+  const kind = COLLECTION_KINDS.find(
+    (k) => k.toLowerCase() === input?.toLowerCase(),
+  );
+  if (!kind) {
+    throw new CliError(
+      `Unknown collection kind "${input}". Known kinds: ${COLLECTION_KINDS.join(", ")}`,
+    );
+  }
+  return kind;
+}
+
+export const collectionCommand: Command = {
+  name: "collection",
+  summary: "List the collection or mark scanned flights as caught",
+  usage: "<list [KIND] | catch <FLIGHT|REG...> | add <KIND> <KEY...>>",
+  options: {
+    all: {
+      type: "boolean",
+      description: "Catch every flight of the last scan",
+    },
+  },
+  examples: [
+    "skycards collection catch EK433 A6-EUA",
+    "skycards collection add aircraftType A345",
+    "skycards collection list route",
+  ],
+  async run({ values, positionals }) {
+    const [action, ...args] = positionals;
+    if (!action || !actions.includes(action)) {
+      throw new CliError(`Expected one of ${actions.join(", ")}`);
+    }
+    const collection = await loadCollection();
+
+    if (action === "list") {
+      const kinds = args.length > 0 ? args.map(parseKind) : COLLECTION_KINDS;
+      for (const kind of kinds) {
+        const entries = Object.entries(collection.items[kind]).sort(
+          ([a], [b]) => a.localeCompare(b),
+        );
+        console.log(chalk.bold.cyan(`\n${kind} (${entries.length})`));
+        entries.forEach(([key, record]) => {
+          console.log(
+            `  ${chalk.yellow(key)} ${chalk.gray(`first ${record.firstCaught}, last ${record.lastCaught}, ${record.count}x`)}`,
+          );
+        });
+      }
+      return;
+    }
+
+    if (action === "add") {
+      const [kindInput, ...keys] = args;
+      const kind = parseKind(kindInput);
+      if (keys.length === 0) {
+        throw new CliError("No items given");
+      }
+      keys.forEach((key) => {
+        const isNew = recordItem(collection, kind, key);
+        console.log(
+          isNew
+            ? chalk.green(`Caught new ${kind} ${key.toUpperCase()}`)
+            : chalk.gray(`Caught ${kind} ${key.toUpperCase()} again`),
+        );
+      });
+      await saveCollection(collection);
+      return;
+    }
+
+    const lastScan = await loadLastScan();
+    if (!lastScan) {
+      throw new CliError("No scan result found, run a scan first");
+    }
+    const sightings = getFlag(values, "all")
+      ? lastScan.sightings
+      : args.flatMap((query) => {
+          const found = findSightings(lastScan.sightings, query);
+          if (found.length === 0) {
+            throw new CliError(
+              `"${query}" is not part of the last ${lastScan.command} scan from ${lastScan.scannedAt}`,
+            );
+          }
+          return found;
+        });
+    if (sightings.length === 0) {
+      throw new CliError("No flights given, pass flight numbers or --all");
+    }
+
+    for (const sighting of sightings) {
+      const newItems = recordSighting(collection, sighting);
+      const newStr =
+        newItems.length > 0
+          ? chalk.green(
+              `new: ${newItems.map((i) => `${i.kind} ${i.key}`).join(", ")}`,
+            )
+          : chalk.gray("nothing new");
+      console.log(`${chalk.cyan(sighting.flight)} ${newStr}`);
+    }
+    await saveCollection(collection);
+  },
+};
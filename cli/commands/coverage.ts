@@ -0,0 +1,155 @@
+import chalk from "chalk";
+import { openCountries } from "../../campaign";
+import {
+  isCollected,
+  loadCollection,
+  saveLastScan,
+  sightingFromCoverageFlight,
+  sightingNovelty,
+} from "../../collection";
+import { countryCoverage } from "../../operations/country-coverage";
+import {
+  COVERAGE_FLIGHTS_PER_COUNTRY,
+  countrySlug,
+  displayCountryCoverage,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import {
+  RegionError,
+  regionCountries,
+  resolveCountryAirports,
+} from "../../regions";
+import {
+  CliError,
+  getFlag,
+  getList,
+  getNumber,
+  type Command,
+} from "../command";
+import { createProvider } from "../context";
+import {
+  campaignOption,
+  formatOption,
+  getOutputFormat,
+  getScheduleWindow,
+  getTimeZone,
+  loadCampaignOption,
+  loadCustomRegions,
+  scheduleOptions,
+  timeZoneOption,
+} from "../options";
+
+export const coverageCommand: Command = {
+  name: "coverage",
+  summary:
+    "Find the soonest flights touching countries missing from the collection",
+  usage:
+    "[COUNTRY...] [--region <name>] [--campaign <file>] [--all] [--limit <n>] [--format <format>]",
+  options: {
+    region: {
+      type: "string",
+      short: "r",
+      multiple: true,
+      placeholder: "name",
+      description: "Cover the countries of a region (e.g. micronesia)",
+    },
+    ...campaignOption,
+    all: {
+      type: "boolean",
+      description: "Include countries that are already collected",
+    },
+    limit: {
+      type: "string",
+      placeholder: "n",
+      default: String(COVERAGE_FLIGHTS_PER_COUNTRY),
+      description: "Flights listed per country",
+    },
+    ...scheduleOptions,
+    ...timeZoneOption,
+    ...formatOption,
+  },
+  examples: [
+    "skycards coverage nauru tuvalu kiribati",
+    "skycards coverage --region oceania --limit 1",
+    "skycards coverage --campaign season1/campaign.json --hours-forward 24",
+  ],
+  async run({ values, positionals }) {
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const limit = getNumber(values, "limit");
+    if (limit !== undefined && (limit < 1 || !Number.isInteger(limit))) {
+      throw new CliError("--limit must be a positive whole number");
+    }
+
+    const campaign = await loadCampaignOption(values);
+    const custom = await loadCustomRegions();
+    let requested: string[];
+    try {
+      requested = [
+        ...positionals,
+        ...getList(values, "region").flatMap((name) =>
+          regionCountries(name, custom),
+        ),
+        ...(campaign ? openCountries(campaign) : []),
+      ].map(countrySlug);
+    } catch (error) {
+      if (error instanceof RegionError) {
+        throw new CliError(error.message);
+      }
+      throw error;
+    }
+    if (requested.length === 0) {
+      throw new CliError(
+        "No countries given, use COUNTRY, --region or --campaign",
+      );
+    }
+
+    const collection = await loadCollection();
+    const countries = [...new Set(requested)].filter(
+      (country) =>
+        getFlag(values, "all") || !isCollected(collection, "country", country),
+    );
+    const skipped = new Set(requested).size - countries.length;
+    if (skipped > 0) {
+      console.error(
+        chalk.gray(
+          `Skipping ${skipped} collected countries, use --all to include them`,
+        ),
+      );
+    }
+
+    // Countries without known airports are still listed, without flights
+    const provider = createProvider(values);
+    const airportsByCountry: Record<string, string[]> = {};
+    for (const country of countries) {
+      try {
+        airportsByCountry[country] = await resolveCountryAirports(
+          provider,
+          [country],
+          { refresh: getFlag(values, "refresh") },
+        );
+      } catch (error) {
+        if (!(error instanceof RegionError)) throw error;
+        console.error(chalk.yellow(`⚠️  ${error.message}`));
+        airportsByCountry[country] = [];
+      }
+    }
+
+    const coverage = await countryCoverage(provider, airportsByCountry, {
+      scheduleWindow: getScheduleWindow(values),
+      limit,
+    });
+    writeOutput(format, coverage, (coverage) =>
+      displayCountryCoverage(
+        coverage,
+        (flight) =>
+          sightingNovelty(collection, sightingFromCoverageFlight(flight)),
+        timeZone,
+      ),
+    );
+    await saveLastScan(
+      "coverage",
+      coverage.flatMap((c) => c.flights).map(sightingFromCoverageFlight),
+    );
+  },
+};
@@ -0,0 +1,101 @@
+import {
+  loadCollection,
+  saveLastScan,
+  sightingFromForwardFlight,
+  sightingNovelty,
+} from "../../collection";
+import { fowardLookup } from "../../operations/forward-lookup";
+import {
+  analyzeDeparturesByDiversity,
+  displayDepartureDiversitySummary,
+  displayDepartureSchedule,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import { CliError, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  aircraftFilterOptions,
+  formatOption,
+  getOutputFormat,
+  getRouteFilters,
+  getRouteSort,
+  getScheduleWindow,
+  getTimeZone,
+  isOnlyToday,
+  onlyTodayOption,
+  quietHoursOptions,
+  resolveAircraftFilters,
+  resolveQuietHours,
+  resolveTargetAirports,
+  routeOptions,
+  scheduleOptions,
+  targetOptions,
+  timeZoneOption,
+} from "../options";
+import { parseAirportCode } from "../validation";
+
+export const forwardCommand: Command = {
+  name: "forward",
+  summary: "List departures from an airport to target airports",
+  usage:
+    "<SOURCE> (--to <codes> | --region <name> | --campaign <file>) [--only-today] [--tz <zone>] [--quiet-hours <HH:MM-HH:MM>] [--min-distance <km>] [--sort <key>] [--type <types>] [--airline <icao>] [--wake <category>] [--format <format>]",
+  options: {
+    ...targetOptions,
+    ...onlyTodayOption,
+    ...scheduleOptions,
+    ...timeZoneOption,
+    ...quietHoursOptions,
+    ...routeOptions,
+    ...aircraftFilterOptions,
+    ...formatOption,
+  },
+  examples: [
+    "skycards forward SIN --region oceania",
+    "skycards forward SIN --to JFK,EWR --min-duration 12",
+    "skycards forward FRA --region oceania --wake heavy --airline DLH",
+  ],
+  async run({ values, positionals }) {
+    const [source, ...rest] = positionals;
+    if (!source || rest.length > 0) {
+      throw new CliError("Expected exactly one source airport");
+    }
+    const sourceAirport = parseAirportCode(source);
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const provider = createProvider(values);
+    const flights = await fowardLookup(
+      provider,
+      sourceAirport,
+      await resolveTargetAirports(provider, values),
+      {
+        onlyToday: isOnlyToday(values),
+        scheduleWindow: getScheduleWindow(values),
+        timeZone,
+        quietHours: await resolveQuietHours(values),
+        routeFilters: getRouteFilters(values),
+        sortBy: getRouteSort(values),
+        aircraftFilters: await resolveAircraftFilters(provider, values),
+      },
+    );
+    const collection = await loadCollection();
+    writeOutput(format, flights, (flights) => {
+      displayDepartureSchedule(
+        flights,
+        (flight) =>
+          sightingNovelty(
+            collection,
+            sightingFromForwardFlight(flight, sourceAirport),
+          ),
+        timeZone,
+      );
+      const diversity = analyzeDeparturesByDiversity(flights, sourceAirport);
+      if (diversity) {
+        displayDepartureDiversitySummary(diversity, flights, timeZone);
+      }
+    });
+    await saveLastScan(
+      "forward",
+      flights.map((flight) => sightingFromForwardFlight(flight, sourceAirport)),
+    );
+  },
+};
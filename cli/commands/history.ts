@@ -0,0 +1,60 @@
+import {
+  analyzeTypeHistories,
+  displayTypeHistories,
+  loadObservations,
+} from "../../history";
+import { resolveTimeZone } from "../../operations/shared";
+import { writeOutput } from "../../output";
+import { CliError, getNumber, type Command } from "../command";
+import {
+  formatOption,
+  getOutputFormat,
+  getTimeZone,
+  timeZoneOption,
+} from "../options";
+import { parseAircraftTypes } from "../validation";
+
+export const historyCommand: Command = {
+  name: "history",
+  summary: "Show when and where aircraft types have been seen by past scans",
+  usage: "[TYPE...] [--days <n>] [--tz <zone>] [--format <format>]",
+  options: {
+    days: {
+      type: "string",
+      placeholder: "n",
+      description: "Only sightings of the last n days",
+    },
+    ...timeZoneOption,
+    ...formatOption,
+  },
+  examples: [
+    "skycards history B743 SLCH",
+    "skycards history --days 30 --tz utc",
+    "skycards history A388 --format json | jq '.[].hours'",
+  ],
+  async run({ values, positionals }) {
+    const aircraftTypes = parseAircraftTypes(positionals);
+    const format = getOutputFormat(values);
+    // Sightings have no airport zone, "airport" falls back to the user's
+    const timeZone = resolveTimeZone(getTimeZone(values));
+    const days = getNumber(values, "days");
+    if (days !== undefined && days <= 0) {
+      throw new CliError("--days must be positive");
+    }
+
+    const observations = await loadObservations(
+      days !== undefined
+        ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+        : undefined,
+    );
+    const histories = analyzeTypeHistories(
+      aircraftTypes.length > 0
+        ? observations.filter((observation) =>
+            aircraftTypes.includes(observation.aircraftType),
+          )
+        : observations,
+      timeZone,
+    );
+    writeOutput(format, histories, displayTypeHistories);
+  },
+};
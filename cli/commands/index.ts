@@ -0,0 +1,40 @@
+import type { Command } from "../command";
+import { aircraftCommand } from "./aircraft";
+import { airlinesCommand } from "./airlines";
+import { areaCommand } from "./area";
+import { backwardCommand } from "./backward";
+import { byDistanceCommand } from "./by-distance";
+import { campaignCommand } from "./campaign";
+import { collectionCommand } from "./collection";
+import { coverageCommand } from "./coverage";
+import { forwardCommand } from "./forward";
+import { historyCommand } from "./history";
+import { pairsCommand } from "./pairs";
+import { planCommand } from "./plan";
+import { reachCommand } from "./reach";
+import { regionsCommand } from "./regions";
+import { snapshotCommand } from "./snapshot";
+import { trackCommand } from "./track";
+import { typesCommand } from "./types";
+import { watchCommand } from "./watch";
+
+export const commands: Command[] = [
+  typesCommand,
+  watchCommand,
+  trackCommand,
+  areaCommand,
+  snapshotCommand,
+  historyCommand,
+  forwardCommand,
+  backwardCommand,
+  byDistanceCommand,
+  pairsCommand,
+  planCommand,
+  reachCommand,
+  airlinesCommand,
+  coverageCommand,
+  regionsCommand,
+  aircraftCommand,
+  campaignCommand,
+  collectionCommand,
+];
@@ -0,0 +1,70 @@
+import { openRoutes } from "../../campaign";
+import {
+  displayBidirectionalResults,
+  flightsBetweenPairsSimple,
+} from "../../operations/flights-between-pairs";
+import { writeOutput } from "../../output";
+import { CliError, getFlag, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  campaignOption,
+  formatOption,
+  getOutputFormat,
+  getRouteFilters,
+  getRouteSort,
+  getTimeZone,
+  loadCampaignOption,
+  routeOptions,
+  timeZoneOption,
+} from "../options";
+import { parseAirportPair } from "../validation";
+
+export const pairsCommand: Command = {
+  name: "pairs",
+  summary: "Search flights between airport pairs",
+  usage:
+    "<SRC-DST...> [--campaign <file>] [--one-way] [--min-distance <km>] [--sort <key>] [--tz <zone>] [--format <format>]",
+  options: {
+    "one-way": {
+      type: "boolean",
+      description: "Only search from source to destination",
+    },
+    ...campaignOption,
+    ...routeOptions,
+    ...timeZoneOption,
+    ...formatOption,
+  },
+  examples: [
+    "skycards pairs SIN-JFK PER-LHR",
+    "skycards pairs --campaign season1/campaign.json",
+    "skycards pairs SIN-JFK --sort delay --min-delay 30",
+  ],
+  async run({ values, positionals }) {
+    const campaign = await loadCampaignOption(values);
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const searchBothDirections = !getFlag(values, "one-way");
+    const pairs = [
+      ...positionals.map((input) => ({
+        ...parseAirportPair(input),
+        searchBothDirections,
+      })),
+      ...(campaign ? openRoutes(campaign) : []),
+    ];
+    if (pairs.length === 0) {
+      throw new CliError(
+        campaign
+          ? `All route goals of ${campaign.name} are collected`
+          : "No airport pairs given",
+      );
+    }
+    const flights = await flightsBetweenPairsSimple(
+      createProvider(values),
+      pairs,
+      { routeFilters: getRouteFilters(values), sortBy: getRouteSort(values) },
+    );
+    writeOutput(format, flights, (flights) =>
+      displayBidirectionalResults(flights, pairs, timeZone),
+    );
+  },
+};
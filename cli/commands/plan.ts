@@ -0,0 +1,101 @@
+import { openRoutes } from "../../campaign";
+import {
+  loadCollection,
+  saveLastScan,
+  sightingFromPlannedFlight,
+  sightingNovelty,
+} from "../../collection";
+import { planRoutes } from "../../operations/route-planner";
+import {
+  DEFAULT_PLANNER_DAYS,
+  displayRoutePlans,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import { CliError, getFlag, getNumber, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  campaignOption,
+  formatOption,
+  getOutputFormat,
+  getRouteFilters,
+  getRouteSort,
+  getTimeZone,
+  loadCampaignOption,
+  routeOptions,
+  timeZoneOption,
+} from "../options";
+import { parseAirportPair } from "../validation";
+
+export const planCommand: Command = {
+  name: "plan",
+  summary: "Plan which route goals to catch next",
+  usage:
+    "<SRC-DST...> [--campaign <file>] [--one-way] [--days <n>] [--min-distance <km>] [--sort <key>] [--tz <zone>] [--format <format>]",
+  options: {
+    "one-way": {
+      type: "boolean",
+      description: "Only plan from source to destination",
+    },
+    days: {
+      type: "string",
+      placeholder: "n",
+      default: String(DEFAULT_PLANNER_DAYS),
+      description: "Days ahead to look for departures",
+    },
+    ...campaignOption,
+    ...routeOptions,
+    ...timeZoneOption,
+    ...formatOption,
+  },
+  examples: [
+    "skycards plan PER-LHR SIN-JFK",
+    "skycards plan --campaign season1/campaign.json --days 3",
+    "skycards plan --campaign season1/campaign.json --min-distance 10000",
+  ],
+  async run({ values, positionals }) {
+    const campaign = await loadCampaignOption(values);
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const days = getNumber(values, "days") ?? DEFAULT_PLANNER_DAYS;
+    if (days <= 0) {
+      throw new CliError("--days must be positive");
+    }
+    const searchBothDirections = !getFlag(values, "one-way");
+    const pairs = [
+      ...positionals.map((input) => ({
+        ...parseAirportPair(input),
+        searchBothDirections,
+      })),
+      ...(campaign ? openRoutes(campaign) : []),
+    ];
+    if (pairs.length === 0) {
+      throw new CliError(
+        campaign
+          ? `All route goals of ${campaign.name} are collected`
+          : "No airport pairs given",
+      );
+    }
+
+    const plans = await planRoutes(createProvider(values), pairs, {
+      days,
+      routeFilters: getRouteFilters(values),
+      sortBy: getRouteSort(values),
+    });
+    const collection = await loadCollection();
+    writeOutput(format, plans, (plans) =>
+      displayRoutePlans(
+        plans,
+        days,
+        (flight) =>
+          sightingNovelty(collection, sightingFromPlannedFlight(flight)),
+        timeZone,
+      ),
+    );
+    await saveLastScan(
+      "plan",
+      plans
+        .flatMap((plan) => plan.legs.flatMap((leg) => leg.airborne))
+        .map(sightingFromPlannedFlight),
+    );
+  },
+};
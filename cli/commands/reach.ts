@@ -0,0 +1,99 @@
+import { reachability } from "../../operations/reachability";
+import {
+  DEFAULT_MAX_STOPS,
+  DEFAULT_MIN_CONNECTION_MINUTES,
+  DEFAULT_REACH_HOURS,
+  MAX_HUBS_TO_EXPAND,
+  displayReachability,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import { CliError, getNumber, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  formatOption,
+  getOutputFormat,
+  getTimeZone,
+  resolveTargetAirports,
+  targetOptions,
+  timeZoneOption,
+} from "../options";
+import { parseAirportCode } from "../validation";
+
+export const reachCommand: Command = {
+  name: "reach",
+  summary: "Find one- and two-stop itineraries from home to target airports",
+  usage:
+    "<HOME> (--to <codes> | --region <name> | --campaign <file>) [--max-stops <n>] [--min-connection <minutes>] [--hours <n>] [--hubs <n>] [--tz <zone>] [--format <format>]",
+  options: {
+    ...targetOptions,
+    "max-stops": {
+      type: "string",
+      placeholder: "n",
+      default: String(DEFAULT_MAX_STOPS),
+      description: "Connecting airports allowed, 0 to 2",
+    },
+    "min-connection": {
+      type: "string",
+      placeholder: "minutes",
+      default: String(DEFAULT_MIN_CONNECTION_MINUTES),
+      description: "Minimum time between arriving at a stop and departing",
+    },
+    hours: {
+      type: "string",
+      placeholder: "n",
+      default: String(DEFAULT_REACH_HOURS),
+      description: "Hours ahead in which all flights must depart",
+    },
+    hubs: {
+      type: "string",
+      placeholder: "n",
+      default: String(MAX_HUBS_TO_EXPAND),
+      description: "Busiest first stops searched for onward connections",
+    },
+    ...timeZoneOption,
+    ...formatOption,
+  },
+  examples: [
+    "skycards reach HAM --to MAJ",
+    "skycards reach HAM --region micronesia --min-connection 90",
+  ],
+  async run({ values, positionals }) {
+    const [home, ...rest] = positionals;
+    if (!home || rest.length > 0) {
+      throw new CliError("Expected exactly one home airport");
+    }
+    const homeAirport = parseAirportCode(home);
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+    const maxStops = getNumber(values, "max-stops");
+    if (maxStops !== undefined && ![0, 1, 2].includes(maxStops)) {
+      throw new CliError("--max-stops must be 0, 1 or 2");
+    }
+    const minConnectionMinutes = getNumber(values, "min-connection");
+    const hours = getNumber(values, "hours");
+    const maxHubs = getNumber(values, "hubs");
+    if (
+      (minConnectionMinutes ?? 0) < 0 ||
+      (hours ?? 1) <= 0 ||
+      (maxHubs ?? 0) < 0
+    ) {
+      throw new CliError(
+        "--min-connection and --hubs must not be negative, --hours must be positive",
+      );
+    }
+
+    const provider = createProvider(values);
+    const targets = (await resolveTargetAirports(provider, values)).filter(
+      (target) => target !== homeAirport,
+    );
+    const { itineraries, hubs, unreachable } = await reachability(
+      provider,
+      homeAirport,
+      targets,
+      { maxStops, minConnectionMinutes, hours, maxHubs },
+    );
+    writeOutput(format, itineraries, (itineraries) =>
+      displayReachability(itineraries, hubs, unreachable, timeZone),
+    );
+  },
+};
@@ -0,0 +1,85 @@
+import chalk from "chalk";
+import { writeOutput } from "../../output";
+import { listRegions, RegionError, resolveRegion } from "../../regions";
+import { CliError, getFlag, type Command } from "../command";
+import { createProvider } from "../context";
+import { formatOption, getOutputFormat, loadCustomRegions } from "../options";
+
+interface RegionEntry {
+  name: string;
+  description?: string;
+  custom: boolean;
+  airports?: string[];
+}
+
+export const regionsCommand: Command = {
+  name: "regions",
+  summary: "List the regions usable with --region or resolve their airports",
+  usage: "[REGION...]",
+  options: {
+    ...formatOption,
+  },
+  examples: [
+    "skycards regions",
+    "skycards regions micronesia central-asia",
+    "skycards regions oceania --format json | jq '.[].airports'",
+  ],
+  async run({ values, positionals }) {
+    const format = getOutputFormat(values);
+    const custom = await loadCustomRegions();
+    const regions = listRegions(custom);
+    const isCustom = (name: string) =>
+      Object.keys(custom).some((c) => c.toLowerCase() === name);
+
+    if (positionals.length === 0) {
+      const entries: RegionEntry[] = Object.entries(regions).map(
+        ([name, region]) => ({
+          name,
+          description: region.description,
+          custom: isCustom(name),
+        }),
+      );
+      writeOutput(format, entries, (entries) => {
+        const width = Math.max(...entries.map((e) => e.name.length)) + 2;
+        entries.forEach((entry) => {
+          console.log(
+            `  ${chalk.cyan(entry.name.padEnd(width))}${entry.description ?? ""}` +
+              (entry.custom ? chalk.gray(" (custom)") : ""),
+          );
+        });
+      });
+      return;
+    }
+
+    const provider = createProvider(values);
+    const entries: RegionEntry[] = [];
+    for (const input of positionals) {
+      const name = input.toLowerCase();
+      try {
+        entries.push({
+          name,
+          description: regions[name]?.description,
+          custom: isCustom(name),
+          airports: await resolveRegion(provider, name, {
+            custom,
+            refresh: getFlag(values, "refresh"),
+          }),
+        });
+      } catch (error) {
+        if (error instanceof RegionError) {
+          throw new CliError(error.message);
+        }
+        throw error;
+      }
+    }
+    writeOutput(format, entries, (entries) => {
+      entries.forEach((entry) => {
+        console.log(
+          chalk.bold.cyan(`\n${entry.name}`) +
+            chalk.gray(` (${entry.airports?.length} airports)`),
+        );
+        console.log(`  ${entry.airports?.join(" ")}`);
+      });
+    });
+  },
+};
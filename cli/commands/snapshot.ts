@@ -0,0 +1,91 @@
+import { appendObservations, observationFromRareAircraft } from "../../history";
+import { liveSnapshot } from "../../operations/live-snapshot";
+import { RARE_AIRCRAFT_TO_DISPLAY } from "../../operations/shared";
+import {
+  displaySnapshot,
+  displayTypeRarities,
+  isCompleteSnapshot,
+  loadSnapshots,
+  rarestAircraft,
+  saveSnapshot,
+  typeRarities,
+  unseenTypeRarity,
+} from "../../snapshots";
+import { writeOutput } from "../../output";
+import { CliError, getNumber, type Command } from "../command";
+import { createProvider } from "../context";
+import { formatOption, getOutputFormat } from "../options";
+import { parseAircraftTypes } from "../validation";
+
+const actions = ["take", "rarity"];
+
+export const snapshotCommand: Command = {
+  name: "snapshot",
+  summary: "Snapshot the whole live feed and rate aircraft types by rarity",
+  usage: "<take|rarity> [TYPE...] [--top <n>] [--format <format>]",
+  options: {
+    top: {
+      type: "string",
+      placeholder: "n",
+      default: String(RARE_AIRCRAFT_TO_DISPLAY),
+      description: "Rarest aircraft in the air listed after taking a snapshot",
+    },
+    ...formatOption,
+  },
+  examples: [
+    "skycards snapshot take",
+    "skycards snapshot rarity",
+    "skycards snapshot rarity A225 A3ST BLCF",
+  ],
+  async run({ values, positionals }) {
+    const [action, ...types] = positionals;
+    if (!action || !actions.includes(action)) {
+      throw new CliError(`Expected one of ${actions.join(", ")}`);
+    }
+    const format = getOutputFormat(values);
+
+    if (action === "rarity") {
+      const snapshots = await loadSnapshots();
+      if (snapshots.length === 0) {
+        throw new CliError(
+          "No snapshots stored yet, take one with 'skycards snapshot take'",
+        );
+      }
+      const wanted = parseAircraftTypes(types);
+      const all = typeRarities(snapshots);
+      // Requested types no snapshot has seen are the rarest of all
+      const rarities =
+        wanted.length === 0
+          ? all
+          : [
+              ...wanted
+                .filter((type) => !all.some((r) => r.aircraftType === type))
+                .map((type) => unseenTypeRarity(type, snapshots.length)),
+              ...all.filter((rarity) => wanted.includes(rarity.aircraftType)),
+            ];
+      writeOutput(format, rarities, displayTypeRarities);
+      return;
+    }
+
+    if (types.length > 0) {
+      throw new CliError("Aircraft types are only accepted by 'rarity'");
+    }
+    const top = getNumber(values, "top") ?? RARE_AIRCRAFT_TO_DISPLAY;
+    if (top < 0) {
+      throw new CliError("--top must not be negative");
+    }
+    const { snapshot, flights } = await liveSnapshot(createProvider(values));
+    if (isCompleteSnapshot(snapshot)) {
+      await saveSnapshot(snapshot);
+    }
+    const rare = rarestAircraft(
+      flights,
+      typeRarities(await loadSnapshots()),
+      top,
+    );
+    writeOutput(format, rare, (rare) => displaySnapshot(snapshot, rare));
+    await appendObservations(
+      rare.map((aircraft) => observationFromRareAircraft(aircraft, "snapshot")),
+    );
+  },
+};
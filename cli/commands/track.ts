@@ -0,0 +1,71 @@
+import { saveLastScan, sightingFromPlannedFlight } from "../../collection";
+import { trackAircraft } from "../../operations/track-aircraft";
+import {
+  AIRFRAME_HISTORY_LIMIT,
+  displayAirframes,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import { CliError, getList, getNumber, type Command } from "../command";
+import { createProvider } from "../context";
+import {
+  formatOption,
+  getOutputFormat,
+  getTimeZone,
+  timeZoneOption,
+} from "../options";
+import { parseAirframes } from "../validation";
+
+export const trackCommand: Command = {
+  name: "track",
+  summary: "Follow airframes by registration or ICAO hex code",
+  usage:
+    "<REGISTRATION...> [--hex <codes>] [--history <n>] [--tz <zone>] [--format <format>]",
+  options: {
+    hex: {
+      type: "string",
+      multiple: true,
+      placeholder: "codes",
+      description: "ICAO 24-bit addresses (e.g. 4D2023)",
+    },
+    history: {
+      type: "string",
+      placeholder: "n",
+      default: String(AIRFRAME_HISTORY_LIMIT),
+      description: "Recent flights listed per airframe",
+    },
+    ...timeZoneOption,
+    ...formatOption,
+  },
+  examples: [
+    "skycards track 9H-EAA",
+    "skycards track --hex 4D2023 --history 3",
+    "skycards watch --reg 9H-EAA --near HAM",
+  ],
+  async run({ values, positionals }) {
+    const airframes = parseAirframes(positionals, getList(values, "hex"));
+    if (airframes.length === 0) {
+      throw new CliError("No registrations or hex codes given");
+    }
+    const historyLimit = getNumber(values, "history");
+    if (historyLimit !== undefined && historyLimit < 0) {
+      throw new CliError("--history must not be negative");
+    }
+    const format = getOutputFormat(values);
+    const timeZone = getTimeZone(values);
+
+    const statuses = await trackAircraft(createProvider(values), airframes, {
+      historyLimit,
+    });
+    writeOutput(format, statuses, (statuses) =>
+      displayAirframes(statuses, timeZone),
+    );
+    await saveLastScan(
+      "track",
+      statuses.flatMap((status) =>
+        status.currentFlight && status.position && !status.position.onGround
+          ? [sightingFromPlannedFlight(status.currentFlight)]
+          : [],
+      ),
+    );
+  },
+};
@@ -0,0 +1,82 @@
+import {
+  loadCollection,
+  saveLastScan,
+  sightingFromAircraftFlight,
+  sightingNovelty,
+} from "../../collection";
+import {
+  appendObservations,
+  observationFromAircraftFlight,
+} from "../../history";
+import { flightsByTypes } from "../../operations/flights-by-type";
+import {
+  displayAircraftFlights,
+  displayMissingAircraftTypes,
+} from "../../operations/shared";
+import { writeOutput } from "../../output";
+import type { Command } from "../command";
+import { createProvider } from "../context";
+import {
+  aircraftTypeOptions,
+  campaignOption,
+  formatOption,
+  getOutputFormat,
+  getRouteFilters,
+  getRouteSort,
+  loadNearAirports,
+  nearOption,
+  resolveAircraftTypes,
+  routeOptions,
+} from "../options";
+
+export const typesCommand: Command = {
+  name: "types",
+  summary: "Find live flights of aircraft types, sorted by distance",
+  usage:
+    "<TYPE...> [--campaign <file>] [--wake <category>] [--military] [--role <role>] [--kind <kind>] [--manufacturer <name>] [--near <codes>] [--min-distance <km>] [--sort <key>] [--format <format>]",
+  options: {
+    ...nearOption,
+    ...campaignOption,
+    ...aircraftTypeOptions,
+    ...routeOptions,
+    ...formatOption,
+  },
+  examples: [
+    "skycards types A345 B743 SLCH",
+    "skycards types H53S --near HAM,FRA",
+    "skycards types --campaign season1/campaign.json",
+    "skycards types --role fighter --near HAM",
+    "skycards types --manufacturer antonov --wake heavy",
+    "skycards types A388 --format csv > a388.csv",
+    "skycards types B744 --min-distance 8000 --sort distance",
+  ],
+  async run({ values, positionals }) {
+    const aircraftTypes = await resolveAircraftTypes(values, positionals);
+    const format = getOutputFormat(values);
+    const routeFilters = getRouteFilters(values);
+    const sortBy = getRouteSort(values);
+
+    const provider = createProvider(values);
+    const airports = await loadNearAirports(provider, values);
+    const flights = await flightsByTypes(provider, airports, aircraftTypes, {
+      routeFilters,
+      sortBy,
+    });
+    const collection = await loadCollection();
+    writeOutput(format, flights, (flights) => {
+      displayAircraftFlights(flights, (flight) =>
+        sightingNovelty(collection, sightingFromAircraftFlight(flight)),
+      );
+      displayMissingAircraftTypes(
+        aircraftTypes,
+        new Set(flights.map((flight) => flight.code)),
+      );
+    });
+    await saveLastScan("types", flights.map(sightingFromAircraftFlight));
+    await appendObservations(
+      flights.flatMap(
+        (flight) => observationFromAircraftFlight(flight, "types") ?? [],
+      ),
+    );
+  },
+};
@@ -0,0 +1,157 @@
+import {
+  DEFAULT_WATCH_INTERVAL_MS,
+  DEFAULT_WATCH_RADIUS_KM,
+  createBellSink,
+  createCommandSink,
+  createLogFileSink,
+  createWebhookSink,
+  watchAircraftTypes,
+  type AlertSink,
+} from "../../watch";
+import chalk from "chalk";
+import {
+  CliError,
+  getFlag,
+  getList,
+  getNumber,
+  getString,
+  type Command,
+  type OptionValues,
+} from "../command";
+import { createProvider } from "../context";
+import {
+  aircraftTypeOptions,
+  airframeOptions,
+  campaignOption,
+  getAircraftTypeQuery,
+  loadNearAirports,
+  nearOption,
+  resolveAircraftTypes,
+} from "../options";
+import { parseAirframes } from "../validation";
+
+/**
+ * Creates the alert sinks selected with --bell, --notify, --webhook and --log
+ */
+function createSinks(values: OptionValues): AlertSink[] {
+  const sinks: AlertSink[] = [];
+  if (getFlag(values, "bell")) {
+    sinks.push(createBellSink());
+  }
+  const command = getString(values, "notify");
+  if (command) {
+    sinks.push(createCommandSink(command));
+  }
+  const url = getString(values, "webhook");
+  if (url) {
+    if (!URL.canParse(url)) {
+      throw new CliError(`--webhook expects a URL, got "${url}"`);
+    }
+    sinks.push(createWebhookSink(url));
+  }
+  const logFile = getString(values, "log");
+  if (logFile) {
+    sinks.push(createLogFileSink(logFile));
+  }
+  return sinks;
+}
+
+export const watchCommand: Command = {
+  name: "watch",
+  summary:
+    "Keep polling aircraft types or airframes and alert when one shows up",
+  usage:
+    "<TYPE...> [--reg <registrations>] [--hex <codes>] [--campaign <file>] [--wake <category>] [--military] [--role <role>] [--near <codes>] [--radius <km>] [--interval <seconds>] [--bell] [--notify <command>] [--webhook <url>] [--log <file>]",
+  options: {
+    ...nearOption,
+    ...campaignOption,
+    ...aircraftTypeOptions,
+    ...airframeOptions,
+    radius: {
+      type: "string",
+      placeholder: "km",
+      default: String(DEFAULT_WATCH_RADIUS_KM),
+      description: "Alert when a flight is this close to a --near airport",
+    },
+    interval: {
+      type: "string",
+      placeholder: "seconds",
+      default: String(DEFAULT_WATCH_INTERVAL_MS / 1000),
+      description: "Time between polls",
+    },
+    bell: {
+      type: "boolean",
+      description: "Ring the terminal bell on alerts",
+    },
+    notify: {
+      type: "string",
+      placeholder: "command",
+      description:
+        "Run a shell command on alerts, with $SKYCARDS_ALERT_TITLE and $SKYCARDS_ALERT_MESSAGE set",
+    },
+    webhook: {
+      type: "string",
+      placeholder: "url",
+      description: "POST alerts as JSON to a URL",
+    },
+    log: {
+      type: "string",
+      placeholder: "file",
+      description: "Append alerts as JSON lines to a file",
+    },
+  },
+  examples: [
+    "skycards watch H53S --near HAM --radius 300 --bell",
+    `skycards watch --campaign season1/campaign.json --notify 'notify-send "$SKYCARDS_ALERT_TITLE" "$SKYCARDS_ALERT_MESSAGE"'`,
+    "skycards watch A388 --webhook http://localhost:8080/alerts --log alerts.ndjson",
+    "skycards watch --reg 9H-EAA --near HAM --bell",
+  ],
+  async run({ values, positionals }) {
+    const airframes = parseAirframes(
+      getList(values, "reg"),
+      getList(values, "hex"),
+    );
+    // Airframes alone are enough to watch
+    const aircraftTypes =
+      airframes.length > 0 &&
+      positionals.length === 0 &&
+      !getString(values, "campaign") &&
+      !getAircraftTypeQuery(values)
+        ? []
+        : await resolveAircraftTypes(values, positionals);
+    const radiusKm = getNumber(values, "radius") ?? DEFAULT_WATCH_RADIUS_KM;
+    const intervalSeconds =
+      getNumber(values, "interval") ?? DEFAULT_WATCH_INTERVAL_MS / 1000;
+    if (radiusKm < 0 || intervalSeconds <= 0) {
+      throw new CliError(
+        "--radius must not be negative and --interval must be positive",
+      );
+    }
+    const sinks = createSinks(values);
+
+    const provider = createProvider(values);
+    const airports = await loadNearAirports(provider, values);
+
+    // Stop after the current poll on Ctrl+C so the run summary is printed
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    process.once("SIGINT", stop);
+
+    console.error(
+      chalk.bold.green(
+        `👀 Watching ${[...aircraftTypes, ...airframes.map((a) => a.code)].join(", ")} every ${intervalSeconds}s, alerting within ${radiusKm}km of ${airports.map((a) => a.iata).join(", ")}. Press Ctrl+C to stop.`,
+      ),
+    );
+    try {
+      await watchAircraftTypes(provider, airports, aircraftTypes, {
+        airframes,
+        intervalMs: intervalSeconds * 1000,
+        radiusKm,
+        sinks,
+        signal: controller.signal,
+      });
+    } finally {
+      process.removeListener("SIGINT", stop);
+    }
+  },
+};
@@ -0,0 +1,89 @@
+import {
+  createCacheStats,
+  createCachingProvider,
+  createFr24Provider,
+  createRecordingProvider,
+  createReplayProvider,
+  createScheduledProvider,
+  createSchedulerStats,
+  displayCacheStats,
+  displaySchedulerStats,
+  type FlightDataProvider,
+} from "../providers";
+import { dataPath } from "../store";
+import {
+  CliError,
+  getFlag,
+  getString,
+  type OptionSpec,
+  type OptionValues,
+} from "./command";
+
+/**
+ * Options accepted by every command to select the flight data backend
+ */
+export const providerOptions: Record<string, OptionSpec> = {
+  replay: {
+    type: "string",
+    placeholder: "dir",
+    description: "Serve API responses recorded in a directory (offline)",
+  },
+  record: {
+    type: "string",
+    placeholder: "dir",
+    description: "Record all API responses to a directory",
+  },
+  refresh: {
+    type: "boolean",
+    description: "Ignore cached API responses and fetch fresh ones",
+  },
+};
+
+// Summaries printed once a command has finished
+const runSummaries: (() => void)[] = [];
+
+/**
+ * Prints the summaries collected while running a command
+ */
+export function printRunSummaries(): void {
+  runSummaries.forEach((summary) => summary());
+}
+
+/**
+ * Creates the flight data provider used by a command
+ */
+export function createProvider(values: OptionValues): FlightDataProvider {
+  const replayDir = getString(values, "replay");
+  const recordDir = getString(values, "record");
+
+  if (replayDir && recordDir) {
+    throw new CliError("--replay and --record cannot be combined");
+  }
+  if (replayDir) {
+    return createReplayProvider(replayDir);
+  }
+
+  const cacheStats = createCacheStats();
+  const schedulerStats = createSchedulerStats();
+  runSummaries.push(() => displayCacheStats(cacheStats));
+  runSummaries.push(() => displaySchedulerStats(schedulerStats));
+
+  // Cache hits never reach the scheduler and do not use up the request budget.
+  // Record what the API returns before it is cached, so recordings are complete
+  let provider = createScheduledProvider(
+    createFr24Provider(),
+    {},
+    schedulerStats,
+  );
+  if (recordDir) {
+    provider = createRecordingProvider(provider, recordDir);
+  }
+  return createCachingProvider(
+    provider,
+    {
+      dir: dataPath("cache"),
+      refresh: getFlag(values, "refresh") || !!recordDir,
+    },
+    cacheStats,
+  );
+}
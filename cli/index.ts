@@ -0,0 +1,121 @@
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import chalk from "chalk";
+import {
+  CliError,
+  formatCommandHelp,
+  formatOptions,
+  type Command,
+  type OptionSpec,
+} from "./command";
+import { FixtureNotFoundError } from "../providers";
+import { commands } from "./commands";
+import { printRunSummaries, providerOptions } from "./context";
+
+const helpOption: Record<string, OptionSpec> = {
+  help: { type: "boolean", short: "h", description: "Show help" },
+};
+
+/**
+ * Formats the top level help listing all subcommands
+ */
+function formatHelp(): string {
+  const width = Math.max(...commands.map((c) => c.name.length)) + 2;
+  return [
+    chalk.bold("skycards") +
+      " - scan live flight data for Skycards achievements",
+    "",
+    "Usage: skycards <command> [options]",
+    "",
+    "Commands:",
+    ...commands.map((c) => `  ${c.name.padEnd(width)}${c.summary}`),
+    "",
+    "Options:",
+    ...formatOptions({ ...providerOptions, ...helpOption }),
+    "",
+    "Run 'skycards <command> --help' for the options of a command.",
+  ].join("\n");
+}
+
+/**
+ * Converts option specs to the node:util parseArgs format
+ */
+function toParseArgsOptions(
+  options: Record<string, OptionSpec>,
+): NonNullable<ParseArgsConfig["options"]> {
+  return Object.fromEntries(
+    Object.entries(options).map(([name, spec]) => [
+      name,
+      {
+        type: spec.type,
+        multiple: spec.multiple ?? false,
+        ...(spec.short !== undefined && { short: spec.short }),
+        ...(spec.default !== undefined && {
+          default: spec.multiple ? [spec.default] : spec.default,
+        }),
+      },
+    ]),
+  ) as NonNullable<ParseArgsConfig["options"]>;
+}
+
+async function runCommand(command: Command, argv: string[]): Promise<void> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: toParseArgsOptions({
+        ...command.options,
+        ...providerOptions,
+        ...helpOption,
+      }),
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (parsed.values.help) {
+    console.log(
+      formatCommandHelp(command, { ...providerOptions, ...helpOption }),
+    );
+    return;
+  }
+
+  await command.run({ values: parsed.values, positionals: parsed.positionals });
+}
+
+/**
+ * Entry point of the skycards CLI
+ */
+export async function run(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (!name || name === "--help" || name === "-h" || name === "help") {
+    console.log(formatHelp());
+    return 0;
+  }
+
+  const command = commands.find((c) => c.name === name);
+  if (!command) {
+    console.error(chalk.red(`Unknown command "${name}"\n`));
+    console.error(formatHelp());
+    return 1;
+  }
+
+  try {
+    await runCommand(command, rest);
+    printRunSummaries();
+    return 0;
+  } catch (error) {
+    if (error instanceof CliError) {
+      console.error(chalk.red(error.message));
+      console.error(chalk.gray(`Run 'skycards ${name} --help' for usage.`));
+      return 1;
+    }
+    if (error instanceof FixtureNotFoundError) {
+      console.error(chalk.red(error.message));
+      return 1;
+    }
+    throw error;
+  }
+}
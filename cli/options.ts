@@ -0,0 +1,647 @@
+import {
+  CliError,
+  getFlag,
+  getList,
+  getNumber,
+  getString,
+  type OptionSpec,
+  type OptionValues,
+} from "./command";
+import type { Airport } from "flightradarapi";
+import {
+  CampaignValidationError,
+  loadCampaign,
+  openAircraftTypes,
+  openAirlines,
+  openCountries,
+  type Campaign,
+} from "../campaign";
+import { configPath, loadConfig, parseQuietHours } from "../config";
+import {
+  DEFAULT_SCHEDULE_HOURS_BACK,
+  ROUTE_SORT_KEYS,
+  isValidTimeZone,
+  matchAirlines,
+  type AircraftFilters,
+  type OperatorAirline,
+  type QuietHours,
+  type RouteFilters,
+  type RouteSortKey,
+  type ScheduleWindow,
+  type TimeZoneSetting,
+} from "../operations/shared";
+import { OUTPUT_FORMATS, type OutputFormat } from "../output";
+import type { FlightDataProvider } from "../providers";
+import {
+  RegionError,
+  resolveCountryAirports,
+  resolveRegion,
+  type RegionDefinition,
+} from "../regions";
+import {
+  AIRCRAFT_KINDS,
+  MILITARY_ROLES,
+  WAKE_CATEGORY_NAMES,
+  queryAircraftTypes,
+  type AircraftTypeQuery,
+} from "../aircraft";
+import { parseAircraftTypes, parseAirportCodes } from "./validation";
+
+/**
+ * Options shared by commands that target a set of airports
+ */
+export const targetOptions: Record<string, OptionSpec> = {
+  to: {
+    type: "string",
+    short: "t",
+    multiple: true,
+    placeholder: "codes",
+    description: "Target airports, comma separated or repeated",
+  },
+  region: {
+    type: "string",
+    short: "r",
+    multiple: true,
+    placeholder: "name",
+    description:
+      "Target the airports of a region (e.g. oceania), see 'skycards regions'",
+  },
+  campaign: {
+    type: "string",
+    short: "c",
+    placeholder: "file",
+    description: "Target the airports of open country goals in a campaign",
+  },
+};
+
+export const campaignOption: Record<string, OptionSpec> = {
+  campaign: {
+    type: "string",
+    short: "c",
+    placeholder: "file",
+    description: "Scan the open goals of a campaign file",
+  },
+};
+
+export const onlyTodayOption: Record<string, OptionSpec> = {
+  "only-today": {
+    type: "boolean",
+    description: "Only include flights scheduled for today",
+  },
+};
+
+/**
+ * Loads the campaign given with --campaign, if any
+ */
+export async function loadCampaignOption(
+  values: OptionValues,
+): Promise<Campaign | undefined> {
+  const path = getString(values, "campaign");
+  if (!path) return undefined;
+  try {
+    return await loadCampaign(path);
+  } catch (error) {
+    if (error instanceof CampaignValidationError) {
+      throw new CliError(error.message);
+    }
+    throw new CliError(`Could not load campaign ${path}: ${error}`);
+  }
+}
+
+/**
+ * Loads the custom regions of the user config
+ */
+export async function loadCustomRegions(): Promise<
+  Record<string, RegionDefinition>
+> {
+  try {
+    return (await loadConfig()).regions ?? {};
+  } catch (error) {
+    throw new CliError(`Could not load ${configPath()}: ${error}`);
+  }
+}
+
+/**
+ * Resolves --to, --region and --campaign into a validated list of airport codes
+ */
+export async function resolveTargetAirports(
+  provider: FlightDataProvider,
+  values: OptionValues,
+): Promise<string[]> {
+  const campaign = await loadCampaignOption(values);
+  const refresh = getFlag(values, "refresh");
+  const regionAirports: string[] = [];
+  try {
+    const custom = await loadCustomRegions();
+    for (const name of getList(values, "region")) {
+      regionAirports.push(
+        ...(await resolveRegion(provider, name, { custom, refresh })),
+      );
+    }
+    if (campaign) {
+      regionAirports.push(
+        ...(await resolveCountryAirports(provider, openCountries(campaign), {
+          refresh,
+        })),
+      );
+    }
+  } catch (error) {
+    if (error instanceof RegionError) {
+      throw new CliError(error.message);
+    }
+    throw error;
+  }
+
+  const airports = parseAirportCodes([
+    ...getList(values, "to"),
+    ...regionAirports,
+  ]);
+  if (airports.length === 0) {
+    throw new CliError(
+      "No target airports given, use --to, --region or --campaign",
+    );
+  }
+  return airports;
+}
+
+export const aircraftTypeOptions: Record<string, OptionSpec> = {
+  wake: {
+    type: "string",
+    placeholder: "category",
+    description: `Add the catalog types of a wake category: ${Object.keys(WAKE_CATEGORY_NAMES).join(", ")}`,
+  },
+  military: {
+    type: "boolean",
+    description: "Add the military catalog types",
+  },
+  role: {
+    type: "string",
+    placeholder: "role",
+    description: `Add the military catalog types of a role: ${MILITARY_ROLES.join(", ")}`,
+  },
+  kind: {
+    type: "string",
+    placeholder: "kind",
+    description: `Add the catalog types of a kind: ${AIRCRAFT_KINDS.join(", ")}`,
+  },
+  manufacturer: {
+    type: "string",
+    placeholder: "name",
+    description: "Add the catalog types of a manufacturer (e.g. antonov)",
+  },
+};
+
+/**
+ * Reads the aircraft type catalog criteria from --wake, --military, --role,
+ * --kind and --manufacturer, undefined when none is given
+ */
+export function getAircraftTypeQuery(
+  values: OptionValues,
+): AircraftTypeQuery | undefined {
+  const query: AircraftTypeQuery = {};
+  const wake = getString(values, "wake")?.toLowerCase();
+  if (wake !== undefined) {
+    query.wake = Object.hasOwn(WAKE_CATEGORY_NAMES, wake)
+      ? WAKE_CATEGORY_NAMES[wake]
+      : Object.values(WAKE_CATEGORY_NAMES).find(
+          (category) => category.toLowerCase() === wake,
+        );
+    if (!query.wake) {
+      throw new CliError(
+        `Unknown wake category "${wake}". Known categories: ${Object.keys(WAKE_CATEGORY_NAMES).join(", ")}`,
+      );
+    }
+  }
+  const role = getString(values, "role")?.toLowerCase();
+  if (role !== undefined) {
+    query.role = MILITARY_ROLES.find((r) => r === role);
+    if (!query.role) {
+      throw new CliError(
+        `Unknown role "${role}". Known roles: ${MILITARY_ROLES.join(", ")}`,
+      );
+    }
+  }
+  const kind = getString(values, "kind")?.toLowerCase();
+  if (kind !== undefined) {
+    query.kind = AIRCRAFT_KINDS.find((k) => k === kind);
+    if (!query.kind) {
+      throw new CliError(
+        `Unknown kind "${kind}". Known kinds: ${AIRCRAFT_KINDS.join(", ")}`,
+      );
+    }
+  }
+  if (getFlag(values, "military")) {
+    query.military = true;
+  }
+  query.manufacturer = getString(values, "manufacturer");
+  return Object.values(query).some((value) => value !== undefined)
+    ? query
+    : undefined;
+}
+
+/**
+ * Designators of the catalog types matching the criteria, none when no
+ * criterion is given
+ */
+function catalogAircraftTypes(values: OptionValues): string[] {
+  const query = getAircraftTypeQuery(values);
+  if (!query) {
+    return [];
+  }
+  const types = queryAircraftTypes(query);
+  if (types.length === 0) {
+    throw new CliError("No catalog aircraft types match the given criteria");
+  }
+  return types.map((type) => type.designator);
+}
+
+/**
+ * Resolves positional aircraft types, the catalog types matching
+ * --wake/--military/--role/--kind/--manufacturer and the open aircraft goals
+ * of --campaign into a validated list of types
+ */
+export async function resolveAircraftTypes(
+  values: OptionValues,
+  positionals: string[],
+): Promise<string[]> {
+  const campaign = await loadCampaignOption(values);
+  const aircraftTypes = parseAircraftTypes([
+    ...positionals,
+    ...catalogAircraftTypes(values),
+    ...(campaign ? openAircraftTypes(campaign) : []),
+  ]);
+  if (aircraftTypes.length === 0) {
+    throw new CliError(
+      campaign
+        ? `All aircraft goals of ${campaign.name} are collected`
+        : "No aircraft types given",
+    );
+  }
+  return aircraftTypes;
+}
+
+/**
+ * Resolves positional airline codes or names and the open airline goals of
+ * --campaign to airlines of the flightradar24 airline list
+ */
+export async function resolveAirlines(
+  provider: FlightDataProvider,
+  values: OptionValues,
+  positionals: string[],
+): Promise<OperatorAirline[]> {
+  const campaign = await loadCampaignOption(values);
+  const inputs = [...positionals, ...(campaign ? openAirlines(campaign) : [])];
+  if (inputs.length === 0) {
+    throw new CliError(
+      campaign
+        ? `All airline goals of ${campaign.name} are collected`
+        : "No airlines given",
+    );
+  }
+
+  const airlines = await provider.getAirlines();
+  const resolved = new Map<string, OperatorAirline>();
+  for (const input of inputs) {
+    const matches = matchAirlines(airlines, input).filter(
+      (airline): airline is OperatorAirline => airline.icao !== undefined,
+    );
+    if (matches.length === 0) {
+      throw new CliError(`Unknown airline "${input}"`);
+    }
+    if (matches.length > 1) {
+      throw new CliError(
+        `Airline "${input}" is ambiguous: ${matches.map((airline) => `${airline.name} (${airline.icao})`).join(", ")}`,
+      );
+    }
+    resolved.set(matches[0]!.icao, matches[0]!);
+  }
+  return [...resolved.values()];
+}
+
+export const aircraftFilterOptions: Record<string, OptionSpec> = {
+  type: {
+    type: "string",
+    multiple: true,
+    placeholder: "types",
+    description:
+      "Only flights the schedules assign these aircraft types, comma separated or repeated",
+  },
+  airline: {
+    type: "string",
+    multiple: true,
+    placeholder: "airlines",
+    description:
+      "Only flights of airlines by ICAO or IATA code or by name, comma separated or repeated",
+  },
+  ...aircraftTypeOptions,
+};
+
+/**
+ * Resolves the airlines of --airline by code or name to the ICAO and IATA
+ * designators flights are matched on. Codes shared by several airlines
+ * match all of them, names have to be unambiguous.
+ */
+async function resolveAirlineFilter(
+  provider: FlightDataProvider,
+  inputs: string[],
+): Promise<string[]> {
+  if (inputs.length === 0) return [];
+
+  const airlines = await provider.getAirlines();
+  const codes = inputs.flatMap((input) => {
+    const code = input.trim().toUpperCase();
+    const matches = matchAirlines(airlines, input);
+    if (matches.length === 0) {
+      throw new CliError(`Unknown airline "${input}"`);
+    }
+    if (
+      matches.length > 1 &&
+      !matches.every(
+        (airline) => airline.icao === code || airline.iata === code,
+      )
+    ) {
+      throw new CliError(
+        `Airline "${input}" is ambiguous: ${matches.map((airline) => `${airline.name} (${airline.icao ?? airline.iata})`).join(", ")}`,
+      );
+    }
+    return matches.flatMap((airline) =>
+      [airline.icao, airline.iata].filter(
+        (designator): designator is string => designator !== undefined,
+      ),
+    );
+  });
+  return [...new Set(codes)];
+}
+
+/**
+ * Resolves the aircraft types of --type and of the catalog criteria, and the
+ * airlines of --airline
+ */
+export async function resolveAircraftFilters(
+  provider: FlightDataProvider,
+  values: OptionValues,
+): Promise<AircraftFilters> {
+  return {
+    aircraftTypes: parseAircraftTypes([
+      ...getList(values, "type"),
+      ...catalogAircraftTypes(values),
+    ]),
+    airlines: await resolveAirlineFilter(provider, getList(values, "airline")),
+  };
+}
+
+export const airframeOptions: Record<string, OptionSpec> = {
+  reg: {
+    type: "string",
+    multiple: true,
+    placeholder: "registrations",
+    description: "Aircraft registrations, comma separated or repeated",
+  },
+  hex: {
+    type: "string",
+    multiple: true,
+    placeholder: "codes",
+    description: "ICAO 24-bit addresses (e.g. 4D2023)",
+  },
+};
+
+export const nearOption: Record<string, OptionSpec> = {
+  near: {
+    type: "string",
+    short: "n",
+    multiple: true,
+    default: "HAM",
+    placeholder: "codes",
+    description: "Airports to measure distances from",
+  },
+};
+
+/**
+ * Loads the airports given with --near
+ */
+export async function loadNearAirports(
+  provider: FlightDataProvider,
+  values: OptionValues,
+): Promise<Airport[]> {
+  const airports: Airport[] = [];
+  for (const code of parseAirportCodes(getList(values, "near"))) {
+    airports.push(await provider.getAirport(code));
+  }
+  return airports;
+}
+
+export const scheduleOptions: Record<string, OptionSpec> = {
+  "hours-back": {
+    type: "string",
+    placeholder: "hours",
+    default: String(DEFAULT_SCHEDULE_HOURS_BACK),
+    description: "Hours of past flights to include from airport schedules",
+  },
+  "hours-forward": {
+    type: "string",
+    placeholder: "hours",
+    description: "Hours of upcoming flights to include (default: all)",
+  },
+};
+
+/**
+ * Reads the schedule window from --hours-back and --hours-forward
+ */
+export function getScheduleWindow(values: OptionValues): ScheduleWindow {
+  const hoursBack = getNumber(values, "hours-back");
+  const hoursForward = getNumber(values, "hours-forward");
+  if ((hoursBack ?? 0) < 0 || (hoursForward ?? 0) < 0) {
+    throw new CliError("--hours-back and --hours-forward must not be negative");
+  }
+  return { hoursBack, hoursForward };
+}
+
+export function isOnlyToday(values: OptionValues): boolean {
+  return getFlag(values, "only-today");
+}
+
+export const timeZoneOption: Record<string, OptionSpec> = {
+  tz: {
+    type: "string",
+    placeholder: "zone",
+    default: "local",
+    description:
+      "Zone for today and times: airport, utc, local or an IANA name (e.g. Pacific/Majuro)",
+  },
+};
+
+/**
+ * Reads the time zone setting from --tz
+ */
+export function getTimeZone(values: OptionValues): TimeZoneSetting {
+  const zone = getString(values, "tz") ?? "local";
+  const setting = zone.toLowerCase();
+  if (setting === "airport" || setting === "utc" || setting === "local") {
+    return setting;
+  }
+  if (!isValidTimeZone(zone)) {
+    throw new CliError(
+      `Unknown time zone "${zone}": expected airport, utc, local or an IANA zone name`,
+    );
+  }
+  return zone;
+}
+
+export const formatOption: Record<string, OptionSpec> = {
+  format: {
+    type: "string",
+    short: "f",
+    default: "table",
+    placeholder: "format",
+    description: `Output format: ${OUTPUT_FORMATS.join(", ")}`,
+  },
+};
+
+/**
+ * Reads the output format from --format
+ */
+export function getOutputFormat(values: OptionValues): OutputFormat {
+  const format = getString(values, "format") ?? "table";
+  const known = OUTPUT_FORMATS.find((f) => f === format.toLowerCase());
+  if (!known) {
+    throw new CliError(
+      `Unknown format "${format}". Known formats: ${OUTPUT_FORMATS.join(", ")}`,
+    );
+  }
+  return known;
+}
+
+export const quietHoursOptions: Record<string, OptionSpec> = {
+  "quiet-hours": {
+    type: "string",
+    placeholder: "HH:MM-HH:MM",
+    description: "Mark flights in these hours, 'off' ignores the config",
+  },
+  "hide-quiet": {
+    type: "boolean",
+    description: "Hide flights in the quiet hours instead of marking them",
+  },
+};
+
+/**
+ * Resolves the quiet hours from the user config and --quiet-hours/--hide-quiet
+ */
+export async function resolveQuietHours(
+  values: OptionValues,
+): Promise<QuietHours | undefined> {
+  const range = getString(values, "quiet-hours");
+  if (range === "off") return undefined;
+
+  let config;
+  try {
+    config = (await loadConfig()).quietHours;
+  } catch (error) {
+    throw new CliError(`Could not load ${configPath()}: ${error}`);
+  }
+
+  let start = config?.start;
+  let end = config?.end;
+  if (range !== undefined) {
+    [start, end] = range.split("-");
+    if (!start || !end) {
+      throw new CliError(
+        `Invalid quiet hours "${range}": expected HH:MM-HH:MM, e.g. 23:00-06:00`,
+      );
+    }
+  }
+  if (!start || !end) {
+    if (getFlag(values, "hide-quiet")) {
+      throw new CliError(
+        `--hide-quiet needs --quiet-hours or quiet hours in ${configPath()}`,
+      );
+    }
+    return undefined;
+  }
+
+  try {
+    return parseQuietHours({
+      ...config,
+      start,
+      end,
+      ...(getFlag(values, "hide-quiet") && { mode: "hide" }),
+    });
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export const routeOptions: Record<string, OptionSpec> = {
+  "min-distance": {
+    type: "string",
+    placeholder: "km",
+    description:
+      "Only flights on routes of at least this great-circle distance",
+  },
+  "max-distance": {
+    type: "string",
+    placeholder: "km",
+    description: "Only flights on routes of at most this distance",
+  },
+  "min-duration": {
+    type: "string",
+    placeholder: "hours",
+    description: "Only flights scheduled to take at least this long",
+  },
+  "max-duration": {
+    type: "string",
+    placeholder: "hours",
+    description: "Only flights scheduled to take at most this long",
+  },
+  "min-delay": {
+    type: "string",
+    placeholder: "minutes",
+    description: "Only flights departing at least this late",
+  },
+  sort: {
+    type: "string",
+    placeholder: "key",
+    default: "time",
+    description: `Sort flights by: ${ROUTE_SORT_KEYS.join(", ")}`,
+  },
+};
+
+/**
+ * Reads the route thresholds from --min/max-distance, --min/max-duration
+ * and --min-delay
+ */
+export function getRouteFilters(values: OptionValues): RouteFilters {
+  const hoursToMinutes = (hours: number | undefined) =>
+    hours === undefined ? undefined : Math.round(hours * 60);
+  const filters: RouteFilters = {
+    minDistance: getNumber(values, "min-distance"),
+    maxDistance: getNumber(values, "max-distance"),
+    minDuration: hoursToMinutes(getNumber(values, "min-duration")),
+    maxDuration: hoursToMinutes(getNumber(values, "max-duration")),
+    minDelay: getNumber(values, "min-delay"),
+  };
+  if (
+    [
+      filters.minDistance,
+      filters.maxDistance,
+      filters.minDuration,
+      filters.maxDuration,
+    ].some((value) => value !== undefined && value < 0)
+  ) {
+    throw new CliError("Route distances and durations must not be negative");
+  }
+  return filters;
+}
+
+/**
+ * Reads the sort key from --sort
+ */
+export function getRouteSort(values: OptionValues): RouteSortKey {
+  const sort = getString(values, "sort") ?? "time";
+  const known = ROUTE_SORT_KEYS.find((key) => key === sort.toLowerCase());
+  if (!known) {
+    throw new CliError(
+      `Unknown sort "${sort}". Known keys: ${ROUTE_SORT_KEYS.join(", ")}`,
+    );
+  }
+  return known;
+}
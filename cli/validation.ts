@@ -0,0 +1,134 @@
+import type { AirframeId } from "../operations/shared";
+import { CliError } from "./command";
+
+const IATA_AIRPORT = /^[A-Z0-9]{3}$/;
+const ICAO_AIRPORT = /^[A-Z]{4}$/;
+const ICAO_AIRCRAFT_TYPE = /^[A-Z][A-Z0-9]{1,3}$/;
+const ICAO_AIRLINE = /^[A-Z]{3}$/;
+const REGISTRATION = /^(?=.*[A-Z])[A-Z0-9]+(-[A-Z0-9]+)*$/;
+const ICAO_HEX = /^[0-9A-F]{6}$/;
+
+/**
+ * Normalizes and validates an airport code (3 letter IATA or 4 letter ICAO)
+ */
+export function parseAirportCode(input: string): string {
+  const code = input.trim().toUpperCase();
+  if (!IATA_AIRPORT.test(code) && !ICAO_AIRPORT.test(code)) {
+    throw new CliError(
+      `Invalid airport code "${input}": expected a 3 letter IATA or 4 letter ICAO code`,
+    );
+  }
+  return code;
+}
+
+/**
+ * Normalizes and validates a list of airport codes
+ */
+export function parseAirportCodes(inputs: string[]): string[] {
+  return [...new Set(inputs.map(parseAirportCode))];
+}
+
+/**
+ * Normalizes and validates an ICAO aircraft type designator (e.g. "A345")
+ */
+export function parseAircraftType(input: string): string {
+  const type = input.trim().toUpperCase();
+  if (!ICAO_AIRCRAFT_TYPE.test(type)) {
+    throw new CliError(
+      `Invalid aircraft type "${input}": expected a 2-4 character ICAO type designator`,
+    );
+  }
+  return type;
+}
+
+/**
+ * Normalizes and validates a list of aircraft type designators
+ */
+export function parseAircraftTypes(inputs: string[]): string[] {
+  return [...new Set(inputs.map(parseAircraftType))];
+}
+
+/**
+ * Normalizes and validates a list of ICAO airline designators (e.g. "DLH")
+ */
+export function parseAirlineCodes(inputs: string[]): string[] {
+  const codes = inputs.map((input) => {
+    const code = input.trim().toUpperCase();
+    if (!ICAO_AIRLINE.test(code)) {
+      throw new CliError(
+        `Invalid airline "${input}": expected a 3 letter ICAO airline designator`,
+      );
+    }
+    return code;
+  });
+  return [...new Set(codes)];
+}
+
+/**
+ * Normalizes and validates aircraft registrations (e.g. "9H-EAA") and ICAO
+ * 24-bit addresses (e.g. "4D2023") into airframes to follow
+ */
+export function parseAirframes(
+  registrations: string[],
+  hexCodes: string[],
+): AirframeId[] {
+  const airframes = new Map<string, AirframeId>();
+  for (const input of registrations) {
+    const code = input.trim().toUpperCase();
+    if (code.length > 10 || !REGISTRATION.test(code)) {
+      throw new CliError(
+        `Invalid registration "${input}": expected letters, digits and hyphens, e.g. 9H-EAA`,
+      );
+    }
+    airframes.set(`registration:${code}`, { by: "registration", code });
+  }
+  for (const input of hexCodes) {
+    const code = input.trim().toUpperCase();
+    if (!ICAO_HEX.test(code)) {
+      throw new CliError(
+        `Invalid hex code "${input}": expected a 6 digit ICAO 24-bit address`,
+      );
+    }
+    airframes.set(`hex:${code}`, { by: "hex", code });
+  }
+  return [...airframes.values()];
+}
+
+/**
+ * Parses a list of comma separated latitudes and longitudes
+ */
+export function parseCoordinateList(input: string, count: number): number[] {
+  const values = input.split(",").map((value) => Number(value.trim()));
+  const valid =
+    values.length === count &&
+    values.every(
+      (value, index) =>
+        Number.isFinite(value) &&
+        Math.abs(value) <= (index % 2 === 0 ? 90 : 180),
+    );
+  if (!valid) {
+    throw new CliError(
+      `Invalid coordinates "${input}": expected ${count / 2} latitude,longitude pair${count === 2 ? "" : "s"}`,
+    );
+  }
+  return values;
+}
+
+/**
+ * Parses an airport pair in the form "SRC-DST"
+ */
+export function parseAirportPair(input: string): {
+  source: string;
+  destination: string;
+} {
+  const [source, destination, ...rest] = input.split("-");
+  if (!source || !destination || rest.length > 0) {
+    throw new CliError(
+      `Invalid airport pair "${input}": expected the form SRC-DST, e.g. SIN-JFK`,
+    );
+  }
+  return {
+    source: parseAirportCode(source),
+    destination: parseAirportCode(destination),
+  };
+}
@@ -0,0 +1,4 @@
+// Re-export all collection modules for convenient importing
+export * from "./types";
+export * from "./ledger";
+export * from "./sightings";
@@ -0,0 +1,142 @@
+import { dataPath, readJsonFile, writeJsonFile } from "../store";
+import type {
+  Collection,
+  CollectionKind,
+  CollectionRecord,
+  Sighting,
+} from "./types";
+
+export const COLLECTION_KINDS: CollectionKind[] = [
+  "aircraftType",
+  "registration",
+  "airline",
+  "airport",
+  "route",
+  "country",
+];
+
+function emptyCollection(): Collection {
+  return {
+    version: 1,
+    items: {
+      aircraftType: {},
+      registration: {},
+      airline: {},
+      airport: {},
+      route: {},
+      country: {},
+    },
+  };
+}
+
+function collectionPath(): string {
+  return dataPath("collection.json");
+}
+
+/**
+ * Loads the collection ledger, starting with an empty one on first use
+ */
+export async function loadCollection(): Promise<Collection> {
+  const stored = await readJsonFile<Partial<Collection>>(
+    collectionPath(),
+    emptyCollection(),
+  );
+  const collection = emptyCollection();
+  for (const kind of COLLECTION_KINDS) {
+    collection.items[kind] = { ...stored.items?.[kind] };
+  }
+  return collection;
+}
+
+/**
+ * Persists the collection ledger
+ */
+export async function saveCollection(collection: Collection): Promise<void> {
+  await writeJsonFile(collectionPath(), collection);
+}
+
+/**
+ * Formats a route key, e.g. "HAM-JFK"
+ */
+export function routeKey(origin: string, destination: string): string {
+  return `${origin}-${destination}`;
+}
+
+/**
+ * Checks whether an item has been caught before
+ */
+export function isCollected(
+  collection: Collection,
+  kind: CollectionKind,
+  key: string | undefined,
+): boolean {
+  return !!key && key.toUpperCase() in collection.items[kind];
+}
+
+/**
+ * Records a caught item, returning true if it is new to the collection
+ */
+export function recordItem(
+  collection: Collection,
+  kind: CollectionKind,
+  key: string,
+  caughtAt = new Date(),
+): boolean {
+  const normalized = key.toUpperCase();
+  const timestamp = caughtAt.toISOString();
+  const existing: CollectionRecord | undefined =
+    collection.items[kind][normalized];
+
+  if (existing) {
+    existing.lastCaught = timestamp;
+    existing.count++;
+    return false;
+  }
+
+  collection.items[kind][normalized] = {
+    firstCaught: timestamp,
+    lastCaught: timestamp,
+    count: 1,
+  };
+  return true;
+}
+
+/**
+ * Records everything that can be collected from a sighting, returning the
+ * items that were new to the collection
+ */
+export function recordSighting(
+  collection: Collection,
+  sighting: Sighting,
+  caughtAt = new Date(),
+): { kind: CollectionKind; key: string }[] {
+  const items: { kind: CollectionKind; key: string }[] = [];
+  if (sighting.aircraftType) {
+    items.push({ kind: "aircraftType", key: sighting.aircraftType });
+  }
+  if (sighting.registration) {
+    items.push({ kind: "registration", key: sighting.registration });
+  }
+  if (sighting.airline) {
+    items.push({ kind: "airline", key: sighting.airline });
+  }
+  if (sighting.origin) {
+    items.push({ kind: "airport", key: sighting.origin });
+  }
+  if (sighting.destination) {
+    items.push({ kind: "airport", key: sighting.destination });
+  }
+  sighting.countries?.forEach((country) => {
+    items.push({ kind: "country", key: country });
+  });
+  if (sighting.origin && sighting.destination) {
+    items.push({
+      kind: "route",
+      key: routeKey(sighting.origin, sighting.destination),
+    });
+  }
+
+  return items.filter((item) =>
+    recordItem(collection, item.kind, item.key, caughtAt),
+  );
+}
@@ -0,0 +1,205 @@
+import { countrySlug } from "../operations/shared/countries";
+import type {
+  AircraftFlightEntry,
+  AreaFlightEntry,
+  BackwardFlightEntry,
+  CoverageFlightEntry,
+  ForwardFlightEntry,
+  PlannedFlight,
+} from "../operations/shared/types";
+import { dataPath, readJsonFile, writeJsonFile } from "../store";
+import { isCollected, routeKey } from "./ledger";
+import type { Collection, Novelty, Sighting } from "./types";
+
+// Sightings of the most recent scan, used to mark items as caught
+interface LastScan {
+  command: string;
+  scannedAt: string;
+  sightings: Sighting[];
+}
+
+function lastScanPath(): string {
+  return dataPath("last-scan.json");
+}
+
+/**
+ * Sighting of a live aircraft from a flights-by-type scan
+ */
+export function sightingFromAircraftFlight(
+  flight: AircraftFlightEntry,
+): Sighting {
+  return {
+    flight: flight.flightNumber ?? flight.registration,
+    aircraftType: flight.code,
+    registration: flight.registration,
+    airline: flight.airline,
+    origin: flight.onGround ? undefined : flight.origin,
+    destination: flight.onGround ? undefined : flight.destination,
+  };
+}
+
+/**
+ * Sighting of a live aircraft from an area search
+ */
+export function sightingFromAreaFlight(flight: AreaFlightEntry): Sighting {
+  return {
+    flight: flight.flightNumber ?? flight.registration ?? flight.code,
+    aircraftType: flight.code,
+    registration: flight.registration,
+    airline: flight.airline,
+    origin: flight.onGround ? undefined : flight.origin,
+    destination: flight.onGround ? undefined : flight.destination,
+  };
+}
+
+/**
+ * Sighting of an arrival from a backward lookup
+ */
+export function sightingFromBackwardFlight(
+  flight: BackwardFlightEntry,
+): Sighting {
+  return {
+    flight: flight.code,
+    aircraftType: flight.aircraftType,
+    registration: flight.registration,
+    airline: flight.airlineIcao,
+    origin: flight.origin.code,
+    destination: flight.target,
+    countries: flight.origin.country
+      ? [countrySlug(flight.origin.country)]
+      : undefined,
+  };
+}
+
+/**
+ * Sighting of a departure from a forward lookup
+ */
+export function sightingFromForwardFlight(
+  flight: ForwardFlightEntry,
+  sourceAirport: string,
+): Sighting {
+  return {
+    flight: flight.code,
+    aircraftType: flight.aircraftType,
+    registration: flight.registration,
+    airline: flight.airlineIcao,
+    origin: sourceAirport,
+    destination: flight.destination.code,
+    countries: flight.destination.country?.name
+      ? [countrySlug(flight.destination.country.name)]
+      : undefined,
+  };
+}
+
+/**
+ * Sighting of a flight touching a country from a coverage search
+ */
+export function sightingFromCoverageFlight(
+  flight: CoverageFlightEntry,
+): Sighting {
+  return {
+    flight: flight.code,
+    aircraftType: flight.aircraftType,
+    registration: flight.registration,
+    origin: flight.origin,
+    destination: flight.destination,
+    countries: [flight.country],
+  };
+}
+
+/**
+ * Sighting of a flight of a route plan
+ */
+export function sightingFromPlannedFlight(flight: PlannedFlight): Sighting {
+  return {
+    flight: flight.code,
+    aircraftType: flight.aircraftType,
+    registration: flight.registration,
+    origin: flight.origin,
+    destination: flight.destination,
+  };
+}
+
+/**
+ * Determines what a sighting would add to the collection
+ */
+export function sightingNovelty(
+  collection: Collection,
+  sighting: Sighting,
+): Novelty {
+  if (
+    sighting.aircraftType &&
+    !isCollected(collection, "aircraftType", sighting.aircraftType)
+  ) {
+    return "new-type";
+  }
+  if (
+    sighting.registration &&
+    !isCollected(collection, "registration", sighting.registration)
+  ) {
+    return "new-registration";
+  }
+  if (
+    sighting.countries?.some(
+      (country) => !isCollected(collection, "country", country),
+    )
+  ) {
+    return "new-country";
+  }
+  if (
+    [sighting.origin, sighting.destination].some(
+      (airport) => airport && !isCollected(collection, "airport", airport),
+    )
+  ) {
+    return "new-airport";
+  }
+  if (
+    sighting.origin &&
+    sighting.destination &&
+    !isCollected(
+      collection,
+      "route",
+      routeKey(sighting.origin, sighting.destination),
+    )
+  ) {
+    return "new-route";
+  }
+  return "duplicate";
+}
+
+/**
+ * Stores the sightings of a scan so they can be marked as caught later
+ */
+export async function saveLastScan(
+  command: string,
+  sightings: Sighting[],
+): Promise<void> {
+  const scan: LastScan = {
+    command,
+    scannedAt: new Date().toISOString(),
+    sightings,
+  };
+  await writeJsonFile(lastScanPath(), scan);
+}
+
+/**
+ * Loads the sightings of the most recent scan
+ */
+export async function loadLastScan(): Promise<LastScan | null> {
+  return readJsonFile<LastScan | null>(lastScanPath(), null);
+}
+
+/**
+ * Finds sightings by flight number or registration
+ */
+export function findSightings(
+  sightings: Sighting[],
+  query: string,
+): Sighting[] {
+  const normalized = query.trim().toUpperCase();
+  return sightings.filter(
+    (sighting) =>
+      sighting.flight?.toUpperCase() === normalized ||
+      sighting.registration?.toUpperCase() === normalized,
+  );
+}
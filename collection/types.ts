@@ -0,0 +1,37 @@
+// Kinds of items that can be collected
+export type CollectionKind =
+  "aircraftType" | "registration" | "airline" | "airport" | "route" | "country";
+
+// A collected item with the time it was first and last caught
+export interface CollectionRecord {
+  firstCaught: string;
+  lastCaught: string;
+  count: number;
+}
+
+// Persistent ledger of everything caught so far
+export interface Collection {
+  version: 1;
+  items: Record<CollectionKind, Record<string, CollectionRecord>>;
+}
+
+// A flight as seen in a scan, with everything that could be collected from it
+export interface Sighting {
+  flight: string;
+  aircraftType?: string;
+  registration?: string;
+  airline?: string;
+  origin?: string;
+  destination?: string;
+  // flightradar24 slugs of the countries the flight touches
+  countries?: string[];
+}
+
+// Whether a scanned row adds something to the collection
+export type Novelty =
+  | "new-type"
+  | "new-registration"
+  | "new-country"
+  | "new-route"
+  | "new-airport"
+  | "duplicate";
@@ -0,0 +1,51 @@
+import { isValidTimeZone, type QuietHours } from "../operations/shared";
+import { dataPath, readJsonFile } from "../store";
+import type { QuietHoursConfig, UserConfig } from "./types";
+
+const CLOCK_TIME = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function configPath(): string {
+  return dataPath("config.json");
+}
+
+/**
+ * Loads the user config, empty if none has been written
+ */
+export async function loadConfig(): Promise<UserConfig> {
+  return readJsonFile<UserConfig>(configPath(), {});
+}
+
+/**
+ * Parses a HH:MM time of day into minutes after midnight
+ */
+export function parseClockTime(input: string): number {
+  const match = CLOCK_TIME.exec(input.trim());
+  if (!match) {
+    throw new Error(`Invalid time "${input}": expected HH:MM, e.g. 23:00`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Validates the quiet hours of the config or the command line
+ */
+export function parseQuietHours(config: QuietHoursConfig): QuietHours {
+  const { timeZone = "local", mode = "mark" } = config;
+  if (
+    !["airport", "utc", "local"].includes(timeZone) &&
+    !isValidTimeZone(timeZone)
+  ) {
+    throw new Error(`Invalid quiet hours time zone "${timeZone}"`);
+  }
+  if (mode !== "mark" && mode !== "hide") {
+    throw new Error(
+      `Invalid quiet hours mode "${mode}": expected mark or hide`,
+    );
+  }
+  return {
+    start: parseClockTime(config.start),
+    end: parseClockTime(config.end),
+    timeZone,
+    mode,
+  };
+}
@@ -0,0 +1,3 @@
+// Re-export all config modules for convenient importing
+export * from "./types";
+export * from "./config";
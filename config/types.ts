@@ -0,0 +1,17 @@
+import type { TimeZoneSetting } from "../operations/shared/types";
+import type { RegionDefinition } from "../regions/types";
+
+// Quiet hours as written in the config file, e.g. 23:00 to 06:00
+export interface QuietHoursConfig {
+  start: string;
+  end: string;
+  timeZone?: TimeZoneSetting;
+  mode?: "mark" | "hide";
+}
+
+// Per-user settings stored as config.json in the data directory
+export interface UserConfig {
+  quietHours?: QuietHoursConfig;
+  // Custom regions by name, targeted with --region like the presets
+  regions?: Record<string, RegionDefinition>;
+}
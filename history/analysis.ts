@@ -0,0 +1,125 @@
+import { aircraftTypeName } from "../aircraft";
+import { getZonedParts } from "../operations/shared";
+import type { Observation, TypeHistory } from "./types";
+
+/**
+ * Identifies the aircraft of an observation, by registration where known
+ */
+function aircraftKey(observation: Observation): string {
+  return (
+    observation.registration ??
+    observation.flight ??
+    `${observation.latitude.toFixed(1)},${observation.longitude.toFixed(1)}`
+  );
+}
+
+/**
+ * Counts distinct keys per value, most first
+ */
+function countDistinct(
+  entries: { value: string; key: string }[],
+): [string, number][] {
+  const keys = new Map<string, Set<string>>();
+  for (const { value, key } of entries) {
+    keys.set(value, (keys.get(value) ?? new Set()).add(key));
+  }
+  return [...keys.entries()]
+    .map(([value, set]): [string, number] => [value, set.size])
+    .sort((a, b) => b[1] - a[1]);
+}
+
+function indexOfMax(values: number[]): number {
+  return values.indexOf(Math.max(...values));
+}
+
+/**
+ * Analyzes the observations of one aircraft type
+ */
+function analyzeType(
+  aircraftType: string,
+  observations: Observation[],
+  timeZone: string,
+): TypeHistory {
+  const hours = Array<number>(24).fill(0);
+  const weekdays = Array<number>(7).fill(0);
+  // Several scans in the same hour are one sighting
+  const sightings = new Map<string, Observation>();
+  for (const observation of observations) {
+    const hour = observation.seenAt.slice(0, 13);
+    sightings.set(`${aircraftKey(observation)}|${hour}`, observation);
+  }
+  for (const observation of sightings.values()) {
+    const parts = getZonedParts(
+      new Date(observation.seenAt).getTime(),
+      timeZone,
+    );
+    hours[parts.hour]!++;
+    weekdays[parts.weekday]!++;
+  }
+
+  // Routes and bases count the days an aircraft was seen on or at them
+  const dayOf = (observation: Observation) =>
+    `${aircraftKey(observation)}|${observation.seenAt.slice(0, 10)}`;
+  const routes = countDistinct(
+    observations.flatMap((observation) =>
+      observation.origin && observation.destination
+        ? [
+            {
+              value: `${observation.origin}-${observation.destination}`,
+              key: dayOf(observation),
+            },
+          ]
+        : [],
+    ),
+  );
+  const bases = countDistinct(
+    observations.flatMap((observation) =>
+      [observation.airport, observation.origin, observation.destination]
+        .filter((airport) => airport !== undefined)
+        .filter((airport, index, all) => all.indexOf(airport) === index)
+        .map((airport) => ({ value: airport, key: dayOf(observation) })),
+    ),
+  );
+
+  const seenAt = observations.map((observation) => observation.seenAt).sort();
+  return {
+    aircraftType,
+    model: aircraftTypeName(aircraftType),
+    sightings: sightings.size,
+    aircraft: new Set(
+      observations.flatMap((observation) =>
+        observation.registration ? [observation.registration] : [],
+      ),
+    ).size,
+    firstSeen: seenAt[0]!,
+    lastSeen: seenAt.at(-1)!,
+    hours,
+    weekdays,
+    bestHour: indexOfMax(hours),
+    bestWeekday: indexOfMax(weekdays),
+    routes: routes.map(([route, days]) => {
+      const [origin = "?", destination = "?"] = route.split("-");
+      return { origin, destination, days };
+    }),
+    bases: bases.map(([airport, days]) => ({ airport, days })),
+  };
+}
+
+/**
+ * Analyzes when and where each aircraft type of the history has been seen,
+ * in the hours and weekdays of a zone, most sighted type first
+ */
+export function analyzeTypeHistories(
+  observations: Observation[],
+  timeZone: string,
+): TypeHistory[] {
+  const byType = Map.groupBy(
+    observations,
+    (observation) => observation.aircraftType,
+  );
+  return [...byType.entries()]
+    .map(([aircraftType, entries]) =>
+      analyzeType(aircraftType, entries, timeZone),
+    )
+    .sort((a, b) => b.sightings - a.sightings);
+}
@@ -0,0 +1,71 @@
+import chalk from "chalk";
+import { formatTime } from "../operations/shared";
+import type { TypeHistory } from "./types";
+
+// Routes and bases listed per type
+const PLACES_TO_DISPLAY = 5;
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const BARS = "▁▂▃▄▅▆▇█";
+
+/**
+ * Draws counts as a bar per count, empty ones as a dot
+ */
+function sparkline(counts: number[]): string {
+  const max = Math.max(...counts);
+  return counts
+    .map((count) =>
+      count === 0
+        ? chalk.gray("·")
+        : BARS[Math.ceil((count / max) * BARS.length) - 1],
+    )
+    .join("");
+}
+
+/**
+ * Display when and where each aircraft type has been seen, with the best
+ * time to scan for it
+ */
+export function displayTypeHistories(histories: TypeHistory[]): void {
+  if (histories.length === 0) {
+    console.log(chalk.yellow("No sightings recorded yet"));
+    return;
+  }
+
+  histories.forEach((history, index) => {
+    const nameStr = history.model ? ` ${chalk.cyan(history.model)}` : "";
+    console.log(
+      `${index > 0 ? "\n" : ""}${chalk.cyan.bold(history.aircraftType)}${nameStr} ${chalk.gray(
+        `${history.sightings} sighting${history.sightings === 1 ? "" : "s"} of ${history.aircraft} aircraft, ${formatTime(new Date(history.firstSeen))} to ${formatTime(new Date(history.lastSeen))}`,
+      )}`,
+    );
+    console.log(
+      `   Hours     ${sparkline(history.hours)} ${chalk.green(`best ${String(history.bestHour).padStart(2, "0")}:00`)}`,
+    );
+    console.log(
+      `   Weekdays  ${sparkline(history.weekdays)} ${chalk.green(`best ${WEEKDAY_NAMES[history.bestWeekday]}`)} ${chalk.gray(`(${WEEKDAY_NAMES.join(" ")})`)}`,
+    );
+    if (history.routes.length > 0) {
+      console.log(
+        `   Routes    ${history.routes
+          .slice(0, PLACES_TO_DISPLAY)
+          .map(
+            (route) =>
+              `${chalk.yellow(`${route.origin}-${route.destination}`)} ${chalk.gray(`×${route.days}`)}`,
+          )
+          .join(", ")}`,
+      );
+    }
+    if (history.bases.length > 0) {
+      console.log(
+        `   Bases     ${history.bases
+          .slice(0, PLACES_TO_DISPLAY)
+          .map(
+            (base) =>
+              `${chalk.yellow(base.airport)} ${chalk.gray(`×${base.days}`)}`,
+          )
+          .join(", ")}`,
+      );
+    }
+  });
+}
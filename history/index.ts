@@ -0,0 +1,6 @@
+// Re-export all history modules for convenient importing
+export * from "./types";
+export * from "./store";
+export * from "./observations";
+export * from "./analysis";
+export * from "./display";
@@ -0,0 +1,86 @@
+import { orUndefined } from "../operations/shared";
+import type {
+  AircraftFlightEntry,
+  AreaFlightEntry,
+} from "../operations/shared/types";
+import type { RareAircraft } from "../snapshots";
+import type { Observation } from "./types";
+
+// The closest of the home airports only counts as where a parked aircraft
+// is when it is this close
+const PARKED_AT_AIRPORT_KM = 10;
+
+/**
+ * Observation of a live aircraft from a flights-by-type scan
+ */
+export function observationFromAircraftFlight(
+  flight: AircraftFlightEntry,
+  command: string,
+  seenAt = new Date(),
+): Observation | undefined {
+  const [latitude, longitude] = flight.coordinates;
+  if (latitude === null || longitude === null) return undefined;
+  return {
+    seenAt: seenAt.toISOString(),
+    command,
+    aircraftType: flight.code,
+    registration: orUndefined(flight.registration),
+    flight: flight.flightNumber,
+    airline: flight.airline,
+    latitude,
+    longitude,
+    onGround: flight.onGround,
+    airport:
+      flight.onGround && flight.closestAirport.distance <= PARKED_AT_AIRPORT_KM
+        ? flight.closestAirport.code
+        : undefined,
+    origin: orUndefined(flight.origin),
+    destination: orUndefined(flight.destination),
+  };
+}
+
+/**
+ * Observation of a live aircraft from an area search
+ */
+export function observationFromAreaFlight(
+  flight: AreaFlightEntry,
+  command: string,
+  seenAt = new Date(),
+): Observation {
+  return {
+    seenAt: seenAt.toISOString(),
+    command,
+    aircraftType: flight.code,
+    registration: flight.registration,
+    flight: flight.flightNumber,
+    airline: flight.airline,
+    latitude: flight.coordinates[0],
+    longitude: flight.coordinates[1],
+    onGround: flight.onGround,
+    origin: flight.origin,
+    destination: flight.destination,
+  };
+}
+
+/**
+ * Observation of one of the rarest aircraft in the air after a snapshot
+ */
+export function observationFromRareAircraft(
+  aircraft: RareAircraft,
+  command: string,
+  seenAt = new Date(),
+): Observation {
+  return {
+    seenAt: seenAt.toISOString(),
+    command,
+    aircraftType: aircraft.aircraftType,
+    registration: aircraft.registration,
+    flight: aircraft.flightNumber,
+    airline: aircraft.airline,
+    latitude: aircraft.coordinates[0],
+    longitude: aircraft.coordinates[1],
+    onGround: false,
+    origin: aircraft.origin,
+    destination: aircraft.destination,
+  };
+}
@@ -0,0 +1,59 @@
+import { appendFile, mkdir, readdir, readFile } from "node:fs/promises";
+import { toNdjson } from "../output";
+import { dataPath } from "../store";
+import type { Observation } from "./types";
+
+function historyDir(): string {
+  return dataPath("history");
+}
+
+/**
+ * Appends observations to the history, one file of JSON lines per month
+ */
+export async function appendObservations(
+  observations: Observation[],
+): Promise<void> {
+  if (observations.length === 0) return;
+  const byMonth = Map.groupBy(observations, (observation) =>
+    observation.seenAt.slice(0, 7),
+  );
+  await mkdir(historyDir(), { recursive: true });
+  for (const [month, entries] of byMonth) {
+    await appendFile(dataPath("history", `${month}.ndjson`), toNdjson(entries));
+  }
+}
+
+/**
+ * Loads the observations of the history made since a time, oldest first.
+ * Lines that do not parse, e.g. of an interrupted write, are skipped.
+ */
+export async function loadObservations(since?: Date): Promise<Observation[]> {
+  let files: string[];
+  try {
+    files = await readdir(historyDir());
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return [];
+    }
+    throw new Error(`Failed to list ${historyDir()}: ${error}`);
+  }
+  const sinceMonth = since?.toISOString().slice(0, 7);
+  const observations: Observation[] = [];
+  for (const file of files.filter((f) => f.endsWith(".ndjson")).sort()) {
+    if (sinceMonth && file.slice(0, 7) < sinceMonth) continue;
+    const content = await readFile(dataPath("history", file), "utf8");
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        observations.push(JSON.parse(line) as Observation);
+      } catch {
+        // Skip the partial line
+      }
+    }
+  }
+  return since
+    ? observations.filter(
+        (observation) => new Date(observation.seenAt) >= since,
+      )
+    : observations;
+}
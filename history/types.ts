@@ -0,0 +1,40 @@
+// An aircraft seen by a scan, as kept in the history
+export interface Observation {
+  seenAt: string;
+  // Command whose scan saw the aircraft
+  command: string;
+  aircraftType: string;
+  registration?: string;
+  flight?: string;
+  airline?: string;
+  latitude: number;
+  longitude: number;
+  onGround: boolean;
+  // Airport the aircraft is parked at, when on the ground near a known one
+  airport?: string;
+  origin?: string;
+  destination?: string;
+}
+
+// Times and places an aircraft type has been seen at. Counts are sightings:
+// an aircraft seen in the same hour by several scans counts once.
+export interface TypeHistory {
+  aircraftType: string;
+  model?: string;
+  sightings: number;
+  // Distinct registrations seen
+  aircraft: number;
+  firstSeen: string;
+  lastSeen: string;
+  // Sightings per hour of the day, 0 to 23
+  hours: number[];
+  // Sightings per day of the week, 0 = Sunday
+  weekdays: number[];
+  // Most sighted hour and weekday, the best time to scan
+  bestHour: number;
+  bestWeekday: number;
+  // Routes flown, most days an aircraft flew them first
+  routes: { origin: string; destination: string; days: number }[];
+  // Airports the type is parked at or flies from and to, most days first
+  bases: { airport: string; days: number }[];
+}
@@ -1,25 +0,0 @@
-export const countries = [
-  "american-samoa",
-  "kiribati",
-  "marshall-islands",
-  "micronesia",
-  "nauru",
-  "northern-mariana-islands",
-  "solomon-islands",
-  "tuvalu",
-];
-
-export const majorAirports: Record<string, string[]> = {
-  "american-samoa": ["PPG"], // Pago Pago International
-  kiribati: ["TRW"], // Bonriki International
-  "marshall-islands": ["MAJ"], // Marshall Islands International
-  micronesia: ["PNI", "YAP", "TKK"], // Pohnpei, Yap, Chuuk
-  nauru: ["INU"], // Nauru International
-  "northern-mariana-islands": ["SPN"], // Saipan International
-  "papua-new-guinea": ["POM", "LAE"], // Port Moresby, Lae Nadzab
-  "solomon-islands": ["HIR"], // Honiara International
-  tuvalu: ["FUN"], // Funafuti International
-  vanuatu: ["VLI"], // Bauerfield International
-  "united-states-minor-outlying-islands": ["MDY", "AWK"], // Henderson Field (Midway Atoll), Wake
-  "wallis-and-futuna": ["WLS"], // Hihifo Airport
-};
@@ -1,33 +1,66 @@
-import type { FlightRadar24API } from "flightradarapi";
+import type { FlightDataProvider } from "../providers";
 import chalk from "chalk";
 import {
   fetchAllArrivals,
+  applyQuietHours,
+  applyRouteFilters,
+  sortByRouteMetric,
   filterFlightsForToday,
   groupFlightsByOrigin,
   fetchAirportWithCoordinates,
   analyzeAirportsByDistance,
-  displayAirportsByDistance,
-  displayAirportsDistanceSummary,
+  type AirportDistance,
+  type BackwardFlightEntry,
+  type QuietHours,
+  type RouteFilters,
+  type RouteSortKey,
+  type ScheduleWindow,
+  type TimeZoneSetting,
 } from "./shared";
 
+export interface AirportsByDistanceOptions {
+  onlyToday?: boolean;
+  scheduleWindow?: ScheduleWindow;
+  // Zone "today" is evaluated in
+  timeZone?: TimeZoneSetting;
+  // Flights to mark or hide, and to avoid as next flight
+  quietHours?: QuietHours;
+  // Thresholds on route distance, duration and delay
+  routeFilters?: RouteFilters;
+  sortBy?: RouteSortKey;
+}
+
+export interface AirportsByDistanceResult {
+  flightsByOrigin: Record<string, BackwardFlightEntry[]>;
+  // Source airports sorted by distance from the origin airport
+  airports: AirportDistance[];
+}
+
 /**
  * Airports by distance: Analyzes arrivals at specified airports and lists
  * source airports sorted by their distance from an origin airport
  */
 export async function airportsByDistance(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   targetAirports: string[],
   originAirportCode: string,
-  onlyToday = true,
-): Promise<void> {
-  console.log(
+  {
+    onlyToday = true,
+    scheduleWindow,
+    timeZone,
+    quietHours,
+    routeFilters,
+    sortBy = "time",
+  }: AirportsByDistanceOptions = {},
+): Promise<AirportsByDistanceResult> {
+  console.error(
     chalk.bold.green(`🔍 Analyzing arrivals at: ${targetAirports.join(", ")}`),
   );
-  console.log(chalk.gray(`📍 Origin airport: ${originAirportCode}\n`));
+  console.error(chalk.gray(`📍 Origin airport: ${originAirportCode}\n`));
 
   // Get origin airport details for distance calculation
   const originAirport = await fetchAirportWithCoordinates(
-    api,
+    provider,
     originAirportCode,
   );
   if (!originAirport) {
@@ -36,36 +69,35 @@ export async function airportsByDistance(
         `Failed to get coordinates for origin airport: ${originAirportCode}`,
       ),
     );
-    return;
+    return { flightsByOrigin: {}, airports: [] };
   }
 
   // Fetch all arrival flights for the specified target airports
-  let allFlights = await fetchAllArrivals(api, targetAirports);
+  let allFlights = await fetchAllArrivals(
+    provider,
+    targetAirports,
+    scheduleWindow,
+  );
 
   // Filter to today's flights if requested
   if (onlyToday) {
-    allFlights = filterFlightsForToday(allFlights);
+    allFlights = filterFlightsForToday(allFlights, timeZone);
   }
 
-  console.log(chalk.gray(`📊 Total arrivals found: ${allFlights.length}\n`));
+  allFlights = applyQuietHours(allFlights, quietHours);
+  allFlights = sortByRouteMetric(
+    applyRouteFilters(allFlights, routeFilters),
+    sortBy,
+    (flight) => flight.time,
+  );
+
+  console.error(chalk.gray(`📊 Total arrivals found: ${allFlights.length}\n`));
 
   // Group flights by their origin airport
   const flightsByOrigin = groupFlightsByOrigin(allFlights);
 
-  // Analyze airports by distance
-  const airportDistances = analyzeAirportsByDistance(
+  return {
     flightsByOrigin,
-    originAirport,
-  );
-
-  if (airportDistances.length === 0) {
-    console.log(
-      chalk.yellow("No source airports found with valid coordinates."),
-    );
-    return;
-  }
-
-  // Display results
-  displayAirportsByDistance(airportDistances, flightsByOrigin);
-  displayAirportsDistanceSummary(airportDistances);
+    airports: analyzeAirportsByDistance(flightsByOrigin, originAirport),
+  };
 }
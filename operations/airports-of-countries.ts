@@ -1,8 +1,77 @@
-import type { FlightRadar24API } from "flightradarapi";
+import chalk from "chalk";
+import type { FlightDataProvider } from "../providers";
+import { SCHEDULE_PAGE_SIZE } from "./shared";
 
+const IATA_CODE = /^[A-Z]{3}$/;
+
+export interface AirportFilters {
+  // Keep airports with at least this many scheduled arrivals and departures
+  minFlights?: number;
+  // Keep only the busiest airports
+  maxAirports?: number;
+}
+
+/**
+ * Scheduled arrivals and departures listed for an airport. Fetches the
+ * first schedule page, which later schedule lookups reuse from the cache.
+ */
+async function scheduledTraffic(
+  provider: FlightDataProvider,
+  code: string,
+): Promise<number> {
+  const result = await provider.getAirportDetails(code, SCHEDULE_PAGE_SIZE, 1);
+  const schedule = result.airport.pluginData.schedule;
+  return schedule.arrivals.item.total + schedule.departures.item.total;
+}
+
+/**
+ * Codes of the airports of countries (flightradar24 country slugs, e.g.
+ * "marshall-islands"). Only airports with an IATA code are kept; with
+ * filters the airports are ranked by their scheduled traffic.
+ */
 export async function airportsOfCountries(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   countries: string[],
-) {
-  return (await api.getAirports(countries)).map((a) => a.iata);
+  filters: AirportFilters = {},
+): Promise<string[]> {
+  const airports = await Promise.all(
+    countries.map((country) => provider.getAirports([country])),
+  );
+  airports.forEach((found, i) => {
+    if (found.length === 0) {
+      console.error(
+        chalk.yellow(`⚠️  No airports found for country "${countries[i]}"`),
+      );
+    }
+  });
+  const codes = [
+    ...new Set(
+      airports
+        .flat()
+        .map((a) => a.iata?.toUpperCase())
+        .filter((code): code is string => !!code && IATA_CODE.test(code)),
+    ),
+  ];
+  if (
+    codes.length === 0 ||
+    (filters.minFlights === undefined && filters.maxAirports === undefined)
+  ) {
+    return codes;
+  }
+
+  console.error(
+    chalk.gray(`📊 Checking scheduled traffic of ${codes.length} airports...`),
+  );
+  // Airports without schedule details count as having no traffic
+  const traffic = await Promise.all(
+    codes.map(async (code) => ({
+      code,
+      flights: await scheduledTraffic(provider, code).catch(() => 0),
+    })),
+  );
+  return traffic
+    .filter(({ flights }) => flights >= (filters.minFlights ?? 0))
+    .sort((a, b) => b.flights - a.flights)
+    .slice(0, filters.maxAirports)
+    .map(({ code }) => code);
 }
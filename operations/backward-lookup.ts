@@ -1,41 +1,97 @@
-import type { FlightRadar24API } from "flightradarapi";
+import type { FlightDataProvider } from "../providers";
 import {
+  DEFAULT_WINDOW_HOURS,
+  type AirportAnalysis,
+  type AirportDiversity,
+  type BackwardFlightEntry,
+  type QuietHours,
+  type AircraftFilters,
+  type RouteFilters,
+  type RouteSortKey,
+  type ScheduleWindow,
+  type TimeZoneSetting,
   fetchAllArrivals,
+  applyQuietHours,
+  applyAircraftFilters,
+  applyRouteFilters,
+  sortByRouteMetric,
   filterFlightsForToday,
   groupFlightsByOrigin,
   analyzeAirportsByDiversity,
-  displayFlightsByOrigin,
-  displayAirportsByDiversity,
-  displayDiversitySummary,
+  analyzeAirportsByTimeWindows,
 } from "./shared";
 
+export interface BackwardLookupOptions {
+  onlyToday?: boolean;
+  scheduleWindow?: ScheduleWindow;
+  // Zone "today" is evaluated in
+  timeZone?: TimeZoneSetting;
+  // Flights to mark or hide, and to avoid as next flight
+  quietHours?: QuietHours;
+  // Thresholds on route distance, duration and delay
+  routeFilters?: RouteFilters;
+  sortBy?: RouteSortKey;
+  // Aircraft types and airlines to keep
+  aircraftFilters?: AircraftFilters;
+  // Length of the windows of the time window analysis
+  windowHours?: number;
+}
+
+export interface BackwardLookupResult {
+  flights: BackwardFlightEntry[];
+  flightsByOrigin: Record<string, BackwardFlightEntry[]>;
+  // Origin airports sorted by destination diversity and next flight time
+  airports: AirportDiversity[];
+  // Origin airports sorted by their best upcoming time window
+  windows: AirportAnalysis[];
+}
+
 /**
- * Backward lookup: Analyzes arrivals at specified airports and displays
- * origin airports sorted by their destination diversity and next flight time
+ * Backward lookup: Analyzes arrivals at specified airports and ranks origin
+ * airports by their destination diversity and next flight time, and by the
+ * time windows in which they serve the most target airports
  */
 export async function backwardLookup(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   currentAirports: string[],
-  onlyToday = true,
-): Promise<void> {
+  {
+    onlyToday = true,
+    scheduleWindow,
+    timeZone,
+    quietHours,
+    routeFilters,
+    sortBy = "time",
+    aircraftFilters,
+    windowHours = DEFAULT_WINDOW_HOURS,
+  }: BackwardLookupOptions = {},
+): Promise<BackwardLookupResult> {
   // Fetch all arrival flights for the specified airports
-  let allFlights = await fetchAllArrivals(api, currentAirports);
+  let allFlights = await fetchAllArrivals(
+    provider,
+    currentAirports,
+    scheduleWindow,
+  );
 
   // Filter to today's flights if requested
   if (onlyToday) {
-    allFlights = filterFlightsForToday(allFlights);
+    allFlights = filterFlightsForToday(allFlights, timeZone);
   }
 
+  allFlights = applyAircraftFilters(allFlights, aircraftFilters);
+  allFlights = applyQuietHours(allFlights, quietHours);
+  allFlights = sortByRouteMetric(
+    applyRouteFilters(allFlights, routeFilters),
+    sortBy,
+    (flight) => flight.time,
+  );
+
   // Group flights by their origin airport
   const flightsByOrigin = groupFlightsByOrigin(allFlights);
 
-  // Display flights grouped by origin
-  displayFlightsByOrigin(flightsByOrigin);
-
-  // Analyze airports by destination diversity
-  const airportResults = analyzeAirportsByDiversity(flightsByOrigin);
-
-  // Display the diversity analysis
-  displayAirportsByDiversity(airportResults, flightsByOrigin);
-  displayDiversitySummary(airportResults);
+  return {
+    flights: allFlights,
+    flightsByOrigin,
+    airports: analyzeAirportsByDiversity(flightsByOrigin),
+    windows: analyzeAirportsByTimeWindows(flightsByOrigin, windowHours),
+  };
 }
@@ -0,0 +1,227 @@
+import chalk from "chalk";
+import type { Flight } from "flightradarapi";
+import type { FlightDataProvider } from "../providers";
+import {
+  COVERAGE_FLIGHTS_PER_COUNTRY,
+  ISLAND_AIRSPACE_KM,
+  OVERFLIGHT_AIRPORTS_PER_COUNTRY,
+  OVERFLIGHT_RADIUS_KM,
+  boundsAroundPoint,
+  countryAt,
+  countrySlug,
+  distanceKm,
+  fetchAirportWithCoordinates,
+  fetchArrivals,
+  fetchDepartures,
+  fetchFlightsInBounds,
+  orUndefined,
+  type Coordinates,
+  type CountryCoverage,
+  type CoverageFlightEntry,
+  type ScheduleWindow,
+} from "./shared";
+
+export interface CountryCoverageOptions {
+  scheduleWindow?: ScheduleWindow;
+  // Flights kept per country
+  limit?: number;
+}
+
+/**
+ * Departures and arrivals of a country's airports that have not landed yet
+ */
+async function scheduledFlights(
+  provider: FlightDataProvider,
+  country: string,
+  airports: string[],
+  scheduleWindow: ScheduleWindow | undefined,
+  now: number,
+): Promise<CoverageFlightEntry[]> {
+  const results = await Promise.all(
+    airports.map(async (airport) => {
+      try {
+        const [arrivals, departures] = await Promise.all([
+          fetchArrivals(provider, airport, scheduleWindow),
+          fetchDepartures(provider, airport, scheduleWindow),
+        ]);
+        return [
+          ...arrivals.map((flight): CoverageFlightEntry => ({
+            live: flight.live,
+            status: flight.status,
+            code: flight.code,
+            time: flight.time,
+            timeZone: flight.timeZone,
+            country,
+            touch: "arriving",
+            origin: flight.origin.code,
+            destination: airport,
+            otherCity: flight.origin.name,
+            catchableAt: 0,
+          })),
+          ...departures.map((flight): CoverageFlightEntry => ({
+            live: flight.live,
+            status: flight.status,
+            code: flight.code,
+            time: flight.time,
+            timeZone: flight.timeZone,
+            country,
+            touch: "departing",
+            origin: airport,
+            destination: flight.destination.code,
+            otherCity: flight.destination.name,
+            catchableAt: 0,
+          })),
+        ];
+      } catch (error) {
+        console.error(
+          chalk.red(`Failed to fetch the schedule of ${airport}: ${error}`),
+        );
+        return [];
+      }
+    }),
+  );
+
+  // Airborne flights can be caught right away, the others once they depart
+  return results
+    .flat()
+    .filter((flight) => flight.status !== "arrived")
+    .map((flight) => ({
+      ...flight,
+      catchableAt:
+        flight.status === "departed" ? now : Math.max(flight.time, now),
+    }));
+}
+
+/**
+ * Whether a live aircraft is over a country, falling back to the airspace
+ * around its airports where reverse geocoding has no data
+ */
+function isOverCountry(
+  position: Coordinates,
+  country: string,
+  airports: Coordinates[],
+): boolean {
+  const found = countryAt(position);
+  if (found) return found === country;
+  return airports.some(
+    (airport) => distanceKm(position, airport) <= ISLAND_AIRSPACE_KM,
+  );
+}
+
+/**
+ * Live aircraft over a country, searched around its busiest airports
+ */
+async function liveFlights(
+  provider: FlightDataProvider,
+  country: string,
+  airports: string[],
+  now: number,
+): Promise<CoverageFlightEntry[]> {
+  const positions: Coordinates[] = [];
+  for (const code of airports.slice(0, OVERFLIGHT_AIRPORTS_PER_COUNTRY)) {
+    const airport = await fetchAirportWithCoordinates(provider, code);
+    if (airport?.latitude != null && airport.longitude != null) {
+      positions.push({
+        latitude: airport.latitude,
+        longitude: airport.longitude,
+      });
+    }
+  }
+
+  const flights = new Map<string, Flight>();
+  for (const position of positions) {
+    for (const flight of await fetchFlightsInBounds(
+      provider,
+      boundsAroundPoint(position, OVERFLIGHT_RADIUS_KM),
+    )) {
+      flights.set(flight.id, flight);
+    }
+  }
+
+  return [...flights.values()]
+    .filter(
+      (flight) =>
+        !flight.onGround &&
+        isOverCountry(
+          { latitude: flight.latitude, longitude: flight.longitude },
+          country,
+          positions,
+        ),
+    )
+    .map((flight): CoverageFlightEntry => {
+      const origin = orUndefined(flight.originAirportIata);
+      const destination = orUndefined(flight.destinationAirportIata);
+      return {
+        live: true,
+        status: "departed",
+        code:
+          orUndefined(flight.number) ??
+          orUndefined(flight.callsign) ??
+          flight.registration,
+        time: now,
+        country,
+        touch:
+          origin && airports.includes(origin)
+            ? "departing"
+            : destination && airports.includes(destination)
+              ? "arriving"
+              : "overflying",
+        origin,
+        destination,
+        catchableAt: now,
+        aircraftType: orUndefined(flight.aircraftCode),
+        registration: orUndefined(flight.registration),
+      };
+    });
+}
+
+/**
+ * Country coverage: Finds the flights that would touch each country soonest,
+ * departing from, arriving at or flying over it. Countries are ranked by
+ * the time until their first flight can be caught.
+ */
+export async function countryCoverage(
+  provider: FlightDataProvider,
+  airportsByCountry: Record<string, string[]>,
+  options: CountryCoverageOptions = {},
+): Promise<CountryCoverage[]> {
+  const { scheduleWindow, limit = COVERAGE_FLIGHTS_PER_COUNTRY } = options;
+  const now = Date.now();
+  const coverage: CountryCoverage[] = [];
+
+  for (const [name, airports] of Object.entries(airportsByCountry)) {
+    const country = countrySlug(name);
+    console.error(chalk.gray(`🌍 Searching flights touching ${country}...`));
+    const [scheduled, live] = await Promise.all([
+      scheduledFlights(provider, country, airports, scheduleWindow, now),
+      liveFlights(provider, country, airports, now).catch((error) => {
+        console.error(
+          chalk.red(`Failed to fetch live flights over ${country}: ${error}`),
+        );
+        return [];
+      }),
+    ]);
+
+    // Live positions win over the schedule entry of the same flight
+    const flights = new Map<string, CoverageFlightEntry>();
+    for (const flight of [...scheduled, ...live]) {
+      flights.set(
+        `${flight.code}-${flight.origin}-${flight.destination}`,
+        flight,
+      );
+    }
+    const sorted = [...flights.values()]
+      .sort((a, b) => a.catchableAt - b.catchableAt)
+      .slice(0, limit);
+    coverage.push({
+      country,
+      airports,
+      flights: sorted,
+      nextCatchableAt: sorted[0]?.catchableAt,
+    });
+  }
+
+  return coverage.sort(
+    (a, b) => (a.nextCatchableAt ?? Infinity) - (b.nextCatchableAt ?? Infinity),
+  );
+}
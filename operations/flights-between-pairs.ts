@@ -1,6 +1,22 @@
-import { Flight, type FlightRadar24API } from "flightradarapi";
 import chalk from "chalk";
-import { formatTime } from "./shared";
+import type {
+  FlightDataProvider,
+  SearchResult,
+  SearchResultFlight,
+} from "../providers";
+import {
+  airportPosition,
+  applyRouteFilters,
+  computeRouteMetrics,
+  formatFlightTime,
+  formatRouteMetrics,
+  getStatusColor,
+  sortByRouteMetric,
+  type RouteFilters,
+  type RouteMetrics,
+  type RouteSortKey,
+  type TimeZoneSetting,
+} from "./shared";
 
 /**
  * Simple airport pair interface
@@ -22,7 +38,7 @@ export interface BidirectionalAirportPair {
 /**
  * Simplified flight entry from search API
  */
-export interface SearchFlightEntry {
+export interface SearchFlightEntry extends RouteMetrics {
   id: string;
   code: string;
   operator: string;
@@ -39,49 +55,27 @@ export interface SearchFlightEntry {
     longitude: number;
   };
   arrivalTime?: number;
+  // IANA time zone of the destination airport
+  arrivalTimeZone?: string;
   status?: "arrived" | "departed" | "scheduled";
 }
 
-/**
- * Search API response types
- */
-interface SearchResultFlight {
-  id: string;
-  label: string;
-  detail: {
-    lat?: number;
-    lon?: number;
-    schd_from?: string;
-    schd_to?: string;
-    ac_type?: string;
-    route?: string;
-    logo?: string;
-    reg?: string;
-    callsign?: string;
-    flight?: string;
-    operator?: string;
-    operator_id?: number;
-  };
-  type: string;
-  match: string;
-}
-
-interface SearchResult {
-  airport?: any[];
-  operator?: any[];
-  live?: SearchResultFlight[];
-  schedule?: SearchResultFlight[];
-  aircraft?: any[];
+export interface FlightsBetweenPairsOptions {
+  // Thresholds on route distance, duration and delay
+  routeFilters?: RouteFilters;
+  sortBy?: RouteSortKey;
 }
 
 /**
  * Search flights in both directions for each airport pair
  */
 export async function flightsBetweenPairsSimple(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   airportPairs: BidirectionalAirportPair[],
-): Promise<void> {
-  console.log(
+  options: FlightsBetweenPairsOptions = {},
+): Promise<SearchFlightEntry[]> {
+  const { routeFilters, sortBy = "time" } = options;
+  console.error(
     chalk.bold.green(
       `✈️  Searching flights between ${airportPairs.length} airport pair${airportPairs.length === 1 ? "" : "s"}`,
     ),
@@ -106,206 +100,261 @@ export async function flightsBetweenPairsSimple(
     }
   });
 
-  console.log(chalk.gray("\n🔍 Routes to search:"));
+  console.error(chalk.gray("\n🔍 Routes to search:"));
   allPairsToSearch.forEach((pair, index) => {
-    console.log(
+    console.error(
       chalk.gray(
         `  ${index + 1}. ${chalk.yellow(pair.source)} → ${chalk.yellow(pair.destination)}`,
       ),
     );
   });
-  console.log("");
-
-  const allFlights: SearchFlightEntry[] = [];
-
-  // Search each route
-  for (const pair of allPairsToSearch) {
-    try {
-      const query = `${pair.source}-${pair.destination}`;
-
-      const searchResult: SearchResult = await api.search(query);
-      // Extract live flights
-      const liveFlights: SearchFlightEntry[] = (searchResult.live || [])
-        .filter(
-          (flight) =>
-            flight.detail.schd_from === pair.source &&
-            flight.detail.schd_to === pair.destination,
+  console.error("");
+
+  // Search all routes at once, requests are throttled by the provider
+  const results = await Promise.all(
+    allPairsToSearch.map(async (pair): Promise<SearchFlightEntry[]> => {
+      try {
+        const query = `${pair.source}-${pair.destination}`;
+
+        const searchResult: SearchResult = await provider.search(query);
+        // Extract live flights
+        const liveFlights: SearchFlightEntry[] = (searchResult.live || [])
+          .filter(
+            (flight) =>
+              flight.detail.schd_from === pair.source &&
+              flight.detail.schd_to === pair.destination,
+          )
+          .map((flight: SearchResultFlight) => ({
+            id: flight.id,
+            code:
+              flight.detail.flight || flight.label.split(" / ")[0] || flight.id,
+            operator: flight.detail.operator || "Unknown",
+            operatorName: flight.detail.operator || "Unknown",
+            logo: flight.detail.logo,
+            route:
+              flight.detail.route || `${pair.source} → ${pair.destination}`,
+            type: "live" as const,
+            aircraft: flight.detail.ac_type,
+            registration: flight.detail.reg,
+            sourceAirport: pair.source,
+            destinationAirport: pair.destination,
+            coordinates:
+              flight.detail.lat && flight.detail.lon
+                ? {
+                    latitude: flight.detail.lat,
+                    longitude: flight.detail.lon,
+                  }
+                : undefined,
+          }));
+
+        // Extract scheduled flights
+        const scheduledFlights: SearchFlightEntry[] = (
+          searchResult.schedule || []
         )
-        .map((flight: SearchResultFlight) => ({
-          id: flight.id,
-          code:
-            flight.detail.flight || flight.label.split(" / ")[0] || flight.id,
-          operator: flight.detail.operator || "Unknown",
-          operatorName: flight.detail.operator || "Unknown",
-          logo: flight.detail.logo,
-          route: flight.detail.route || `${pair.source} → ${pair.destination}`,
-          type: "live" as const,
-          aircraft: flight.detail.ac_type,
-          registration: flight.detail.reg,
-          sourceAirport: pair.source,
-          destinationAirport: pair.destination,
-          coordinates:
-            flight.detail.lat && flight.detail.lon
-              ? {
-                  latitude: flight.detail.lat,
-                  longitude: flight.detail.lon,
-                }
-              : undefined,
-        }));
-
-      // Extract scheduled flights
-      const scheduledFlights: SearchFlightEntry[] = (
-        searchResult.schedule || []
-      )
-        .filter(
-          (flight) =>
-            flight.detail.schd_from === pair.source &&
-            flight.detail.schd_to === pair.destination,
-        )
-        .map((flight: SearchResultFlight) => ({
-          id: flight.id,
-          code:
-            flight.detail.flight || flight.label.split(" / ")[0] || flight.id,
-          operator: flight.detail.operator || "Unknown",
-          operatorName: flight.detail.operator || "Unknown",
-          logo: flight.detail.logo,
-          route: `${pair.source} → ${pair.destination}`,
-          type: "schedule" as const,
-          sourceAirport: pair.source,
-          destinationAirport: pair.destination,
-        }));
-
-      const routeFlights = [...liveFlights, ...scheduledFlights];
-      allFlights.push(...routeFlights);
-    } catch (error) {
-      console.error(
-        chalk.red(
-          `Failed to search route ${pair.source}-${pair.destination}: ${error}`,
-        ),
-      );
-    }
-  }
+          .filter(
+            (flight) =>
+              flight.detail.schd_from === pair.source &&
+              flight.detail.schd_to === pair.destination,
+          )
+          .map((flight: SearchResultFlight) => ({
+            id: flight.id,
+            code:
+              flight.detail.flight || flight.label.split(" / ")[0] || flight.id,
+            operator: flight.detail.operator || "Unknown",
+            operatorName: flight.detail.operator || "Unknown",
+            logo: flight.detail.logo,
+            route: `${pair.source} → ${pair.destination}`,
+            type: "schedule" as const,
+            sourceAirport: pair.source,
+            destinationAirport: pair.destination,
+          }));
+
+        return [...liveFlights, ...scheduledFlights];
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Failed to search route ${pair.source}-${pair.destination}: ${error}`,
+          ),
+        );
+        return [];
+      }
+    }),
+  );
+  const allFlights = results.flat();
 
-  console.log(chalk.gray(`\n📊 Total flights found: ${allFlights.length}\n`));
+  console.error(chalk.gray(`\n📊 Total flights found: ${allFlights.length}\n`));
 
-  if (allFlights.length === 0) {
-    console.log(
-      chalk.yellow("No flights found for any of the specified routes"),
-    );
-    return;
+  if (allFlights.length > 0) {
+    // Fetch detailed time information for flights
+    await enrichFlightsWithTimeData(provider, allFlights);
   }
 
-  // Fetch detailed time information for flights
-  await enrichFlightsWithTimeData(api, allFlights);
-
-  // Group and display by original airport pairs
-  displayBidirectionalResults(allFlights, airportPairs);
+  return sortByRouteMetric(
+    applyRouteFilters(allFlights, routeFilters),
+    sortBy,
+    (flight) => flight.arrivalTime,
+  );
 }
 
 /**
- * Enriches flights with detailed time information
+ * Enriches flights with detailed time information. Details are fetched
+ * concurrently under the provider's rate limit; flights whose details
+ * cannot be fetched are reported and keep their search data.
  */
 async function enrichFlightsWithTimeData(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   flights: SearchFlightEntry[],
 ): Promise<void> {
-  console.log(chalk.gray("🕐 Fetching detailed time information..."));
+  console.error(chalk.gray("🕐 Fetching detailed time information..."));
+
+  const results = await Promise.allSettled(
+    flights.map(async (flight) => {
+      const details = await provider.getFlightDetails(flight.id);
+      if (!details?.time) return;
+
+      flight.arrivalTime =
+        details.time.real?.arrival ??
+        details.time.estimated?.arrival ??
+        details.time.scheduled?.arrival;
+      flight.arrivalTimeZone = details.airport?.destination?.timezone?.name;
+      Object.assign(
+        flight,
+        computeRouteMetrics(
+          details.time,
+          airportPosition(details.airport?.origin),
+          airportPosition(details.airport?.destination),
+        ),
+      );
+      flight.status =
+        details.time.real?.departure != null
+          ? details.time.real.arrival != null
+            ? "arrived"
+            : "departed"
+          : "scheduled";
+    }),
+  );
+
+  const failed = results.flatMap((result, i) =>
+    result.status === "rejected" ? [{ flight: flights[i]!, result }] : [],
+  );
+  failed.forEach(({ flight, result }) => {
+    console.error(
+      chalk.red(
+        `Failed to fetch details of ${flight.code} (${flight.sourceAirport}-${flight.destinationAirport}): ${result.reason}`,
+      ),
+    );
+  });
+  if (failed.length > 0) {
+    console.error(
+      chalk.yellow(
+        `⚠️  Details missing for ${failed.length} of ${flights.length} flights`,
+      ),
+    );
+  }
+}
 
-  for (let i = 0; i < flights.length; i++) {
-    const flight = flights[i]!;
-    try {
-      const details = (await api.getFlightDetails(
-        flight as unknown as Flight,
-      )) as { time: any };
+type FlightSection = "airborne" | "arrived" | "scheduled";
 
-      if (details?.time) {
-        flight.arrivalTime =
-          details.time?.real?.arrival ??
-          details.time?.estimated?.arrival ??
-          details.time?.scheduled?.arrival;
+const sectionTitles: Record<FlightSection, string> = {
+  airborne: "✈️  Airborne",
+  arrived: "🛬 Arrived",
+  scheduled: "🕐 Scheduled",
+};
 
-        // Determine status based on time data
-        flight.status =
-          details.time?.real?.departure != null
-            ? details.time.real.arrival != null
-              ? "arrived"
-              : "departed"
-            : "scheduled";
-      }
-    } catch (error) {
-      // Continue with next flight even if this one fails
-    }
-  }
+/**
+ * Section of a flight by its computed status. Live search results without
+ * details are airborne, scheduled ones without details stay scheduled.
+ */
+function flightSection(flight: SearchFlightEntry): FlightSection {
+  const status =
+    flight.status ?? (flight.type === "live" ? "departed" : "scheduled");
+  return status === "departed" ? "airborne" : status;
+}
+
+function displaySearchFlight(
+  flight: SearchFlightEntry,
+  timeZone?: TimeZoneSetting,
+): void {
+  const aircraftInfo = flight.aircraft
+    ? ` • ${chalk.gray(flight.aircraft)}`
+    : "";
+  const registration = flight.registration
+    ? ` • ${chalk.gray(flight.registration)}`
+    : "";
+  const arrivalStr = flight.arrivalTime
+    ? ` ${chalk.gray("Arrival:")} ${chalk.white(
+        formatFlightTime(
+          { time: flight.arrivalTime * 1000, timeZone: flight.arrivalTimeZone },
+          timeZone,
+        ),
+      )}`
+    : chalk.gray(" (no details)");
+  const metrics = formatRouteMetrics(flight);
+  console.log(
+    `      ${chalk.cyan(flight.code)} ${chalk.gray(flight.operator)}${aircraftInfo}${registration}${arrivalStr}${metrics ? ` ${chalk.gray(metrics)}` : ""}`,
+  );
 }
 
 /**
- * Display search results sorted by time with departure/arrival indication
+ * Display search results per pair and direction, split into airborne,
+ * arrived and scheduled flights in the order they were found
  */
-function displayBidirectionalResults(
+export function displayBidirectionalResults(
   flights: SearchFlightEntry[],
   airportPairs: BidirectionalAirportPair[],
+  timeZone?: TimeZoneSetting,
 ): void {
-  console.log(chalk.bold.cyan("✈️  FLIGHT SEARCH RESULTS"));
-
-  // Sort flights by departure time
-  const sortedFlights = flights
-    .filter((flight) => flight.arrivalTime) // Only include flights with time data
-    .sort((a, b) => {
-      return (a.arrivalTime ?? 0) - (b.arrivalTime ?? 0);
-    });
-
-  if (sortedFlights.length > 0) {
+  if (flights.length === 0) {
     console.log(
-      chalk.bold.blue(`\n📋 Already departed (${sortedFlights.length})`),
+      chalk.yellow("No flights found for any of the specified routes"),
     );
-
-    sortedFlights.forEach((flight) => {
-      const arrivalStr = formatTime(new Date((flight.arrivalTime ?? 0) * 1000));
-      console.log(
-        `  ${chalk.cyan(flight.code)} ${chalk.yellow(flight.sourceAirport)} → ${chalk.yellow(flight.destinationAirport)} ${chalk.gray("Arrival:")} ${chalk.white(arrivalStr)}`,
-      );
-    });
+    return;
   }
 
-  // Display flights without time data
-  const flightsWithoutTime = flights.filter((flight) => !flight.arrivalTime);
-  if (flightsWithoutTime.length > 0) {
+  console.log(chalk.bold.cyan("✈️  FLIGHT SEARCH RESULTS"));
+
+  const routesWithoutFlights: string[] = [];
+  airportPairs.forEach((pair) => {
     console.log(
-      chalk.yellow(
-        `\nScheduled (or missing data) (${flightsWithoutTime.length})`,
+      chalk.bold(
+        `\n${chalk.yellow(pair.source)} ⇄ ${chalk.yellow(pair.destination)}`,
       ),
     );
-    flightsWithoutTime.forEach((flight) => {
-      const aircraftInfo = flight.aircraft
-        ? ` • ${chalk.gray(flight.aircraft)}`
-        : "";
-      const registration = flight.registration
-        ? ` • ${chalk.gray(flight.registration)}`
-        : "";
+    const directions: AirportPair[] = [pair];
+    if (pair.searchBothDirections !== false) {
+      directions.push({ source: pair.destination, destination: pair.source });
+    }
 
-      console.log(
-        `  ${chalk.bold.gray("●")} ${chalk.cyan(flight.code)} ${chalk.yellow(flight.sourceAirport)} → ${chalk.yellow(flight.destinationAirport)} ${chalk.gray(flight.operator)}${aircraftInfo}${registration}`,
+    directions.forEach(({ source, destination }) => {
+      console.log(`  ${chalk.yellow(source)} → ${chalk.yellow(destination)}`);
+      const routeFlights = flights.filter(
+        (flight) =>
+          flight.sourceAirport === source &&
+          flight.destinationAirport === destination,
       );
-    });
-  }
-
-  // Display routes with no flights
-  const routesWithFlights = new Set(
-    flights.map((f) => `${f.sourceAirport}-${f.destinationAirport}`),
-  );
+      if (routeFlights.length === 0) {
+        console.log(chalk.gray("    No flights found"));
+        routesWithoutFlights.push(`${source}-${destination}`);
+        return;
+      }
 
-  const allSearchedRoutes: string[] = [];
-  airportPairs.forEach((pair) => {
-    allSearchedRoutes.push(`${pair.source}-${pair.destination}`);
-    if (pair.searchBothDirections !== false) {
-      allSearchedRoutes.push(`${pair.destination}-${pair.source}`);
-    }
+      (Object.keys(sectionTitles) as FlightSection[]).forEach((section) => {
+        const sectionFlights = routeFlights.filter(
+          (flight) => flightSection(flight) === section,
+        );
+        if (sectionFlights.length === 0) return;
+        console.log(
+          getStatusColor(section === "airborne" ? "departed" : section)(
+            `    ${sectionTitles[section]} (${sectionFlights.length})`,
+          ),
+        );
+        sectionFlights.forEach((flight) =>
+          displaySearchFlight(flight, timeZone),
+        );
+      });
+    });
   });
 
-  const routesWithoutFlights = allSearchedRoutes.filter(
-    (route) => !routesWithFlights.has(route),
-  );
-
   if (routesWithoutFlights.length > 0) {
     console.log(
       chalk.yellow(
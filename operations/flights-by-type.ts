@@ -1,34 +1,70 @@
-import type { Airport, FlightRadar24API } from "flightradarapi";
-import pLimit from "p-limit";
+import type { Airport } from "flightradarapi";
+import type { FlightDataProvider } from "../providers";
 import {
+  type AircraftFlightEntry,
+  type AirframeId,
+  type RouteFilters,
+  type RouteSortKey,
+  applyRouteFilters,
+  fetchFlightsByAirframe,
   fetchFlightsByType,
-  displayAircraftFlights,
-  displayMissingAircraftTypes,
+  sortByRouteMetric,
+  usesRouteMetrics,
 } from "./shared";
 
-const limit = pLimit(5);
+export interface FlightsByTypeOptions {
+  // Thresholds on route distance, duration and delay
+  routeFilters?: RouteFilters;
+  // "time" keeps the closest flights first
+  sortBy?: RouteSortKey;
+}
 
 /**
- * Flights by types: Fetches and displays flights of specified aircraft types
- * sorted by distance from a given entity/location
+ * Flights by types: Fetches flights of specified aircraft types sorted by
+ * distance from the given airports
  */
 export async function flightsByTypes(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   airports: Airport[],
   aircraftTypes: string[],
-): Promise<void> {
-  // Fetch flights for all aircraft types concurrently with rate limiting
+  options: FlightsByTypeOptions = {},
+): Promise<AircraftFlightEntry[]> {
+  const { routeFilters, sortBy = "time" } = options;
+  const withRouteMetrics = usesRouteMetrics(routeFilters, sortBy);
+
+  // Fetch flights for all aircraft types concurrently, the provider's
+  // scheduler takes care of rate limiting
   const requests = aircraftTypes.map((aircraftType) =>
-    limit(() => fetchFlightsByType(api, airports, aircraftType)),
+    fetchFlightsByType(provider, airports, aircraftType, withRouteMetrics),
   );
 
   const allResults = await Promise.all(requests);
-  const results = allResults.flatMap((flights) => flights);
-
-  // Display all flights sorted by distance
-  displayAircraftFlights(results);
+  const flights = allResults
+    .flatMap((flights) => flights)
+    .sort((a, b) => a.closestAirport.distance - b.closestAirport.distance);
+  // Live flights are all current, there is no time to sort them by
+  return sortByRouteMetric(
+    applyRouteFilters(flights, routeFilters),
+    sortBy,
+    () => 0,
+  );
+}
 
-  // Check for missing aircraft types and display summary
-  const foundTypes = new Set(results.map((flight) => flight.code));
-  displayMissingAircraftTypes(aircraftTypes, foundTypes);
+/**
+ * Flights by airframes: Fetches the live flights of the given registrations
+ * and hex codes sorted by distance from the given airports
+ */
+export async function flightsByAirframes(
+  provider: FlightDataProvider,
+  airports: Airport[],
+  airframes: AirframeId[],
+): Promise<AircraftFlightEntry[]> {
+  const allResults = await Promise.all(
+    airframes.map((airframe) =>
+      fetchFlightsByAirframe(provider, airports, airframe),
+    ),
+  );
+  return allResults
+    .flatMap((flights) => flights)
+    .sort((a, b) => a.closestAirport.distance - b.closestAirport.distance);
 }
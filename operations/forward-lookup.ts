@@ -1,38 +1,76 @@
-import type { FlightRadar24API } from "flightradarapi";
+import type { FlightDataProvider } from "../providers";
 import {
+  type ForwardFlightEntry,
+  type QuietHours,
+  type AircraftFilters,
+  type RouteFilters,
+  type RouteSortKey,
+  type ScheduleWindow,
+  type TimeZoneSetting,
   fetchDepartures,
+  applyQuietHours,
+  applyAircraftFilters,
+  applyRouteFilters,
+  sortByRouteMetric,
   filterFlightsForToday,
   filterByDestinations,
-  displayDepartureSchedule,
-  analyzeDeparturesByDiversity,
-  displayDepartureDiversitySummary,
 } from "./shared";
 
+export interface ForwardLookupOptions {
+  onlyToday?: boolean;
+  scheduleWindow?: ScheduleWindow;
+  // Zone "today" is evaluated in
+  timeZone?: TimeZoneSetting;
+  // Flights to mark or hide, and to avoid as next flight
+  quietHours?: QuietHours;
+  // Thresholds on route distance, duration and delay
+  routeFilters?: RouteFilters;
+  sortBy?: RouteSortKey;
+  // Aircraft types and airlines to keep
+  aircraftFilters?: AircraftFilters;
+}
+
+/**
+ * Forward lookup: Lists departures from a source airport to any of the
+ * destination airports, sorted by time or a route metric
+ */
 export async function fowardLookup(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   sourceAirport: string,
   destinationAirports: string[],
-  onlyToday = true,
-): Promise<void> {
-  console.log(`flights from ${sourceAirport}`);
+  {
+    onlyToday = true,
+    scheduleWindow,
+    timeZone,
+    quietHours,
+    routeFilters,
+    sortBy = "time",
+    aircraftFilters,
+  }: ForwardLookupOptions = {},
+): Promise<ForwardFlightEntry[]> {
+  console.error(`flights from ${sourceAirport}`);
 
   // Fetch all departure flights from the source airport
-  let allFlights = await fetchDepartures(api, sourceAirport);
+  let allFlights = await fetchDepartures(
+    provider,
+    sourceAirport,
+    scheduleWindow,
+  );
 
   // Filter to only include flights to specified destination airports
   allFlights = filterByDestinations(allFlights, destinationAirports);
 
   // Filter to today's flights if requested
   if (onlyToday) {
-    allFlights = filterFlightsForToday(allFlights);
+    allFlights = filterFlightsForToday(allFlights, timeZone);
   }
 
-  // Display individual departure flights
-  displayDepartureSchedule(allFlights);
+  allFlights = applyAircraftFilters(allFlights, aircraftFilters);
+  allFlights = applyQuietHours(allFlights, quietHours);
 
-  // Analyze and display departure diversity
-  const diversityData = analyzeDeparturesByDiversity(allFlights, sourceAirport);
-  if (diversityData) {
-    displayDepartureDiversitySummary(diversityData, allFlights);
-  }
+  return sortByRouteMetric(
+    applyRouteFilters(allFlights, routeFilters),
+    sortBy,
+    (flight) => flight.time,
+  );
 }
@@ -0,0 +1,184 @@
+import chalk from "chalk";
+import type { FlightDataProvider } from "../providers";
+import type { FlightData } from "../types/flight-data";
+import {
+  DEFAULT_SCHEDULE_HOURS_BACK,
+  MAX_HISTORIC_SCHEDULE_PAGES,
+  SCHEDULE_PAGE_SIZE,
+  type ScheduleWindow,
+} from "./shared";
+
+type ScheduleDirection = "arrivals" | "departures";
+
+interface SchedulePage {
+  flights: FlightData[];
+  totalPages: number;
+}
+
+/**
+ * Scheduled time of a flight at the airport, in milliseconds
+ */
+function scheduleTime(
+  flight: FlightData,
+  direction: ScheduleDirection,
+): number | undefined {
+  const time =
+    direction === "arrivals"
+      ? flight.time?.scheduled.arrival
+      : flight.time?.scheduled.departure;
+  return time ? time * 1000 : undefined;
+}
+
+/**
+ * Identifies a flight across pages; scheduled flights may lack an id
+ */
+function flightKey(flight: FlightData): string {
+  return (
+    flight.identification.id ??
+    `${flight.identification.number.default}@${flight.time?.scheduled.departure}`
+  );
+}
+
+async function fetchPage(
+  provider: FlightDataProvider,
+  airportCode: string,
+  direction: ScheduleDirection,
+  page: number,
+): Promise<SchedulePage> {
+  const result = await provider.getAirportDetails(
+    airportCode,
+    SCHEDULE_PAGE_SIZE,
+    page,
+  );
+  const section = result.airport.pluginData.schedule[direction];
+  return {
+    flights: section.data.map((entry) => entry.flight),
+    totalPages: section.page.total,
+  };
+}
+
+/**
+ * Time span covered by the flights of a page, used to estimate how many
+ * pages a time window needs
+ */
+function pageSpan(
+  flights: FlightData[],
+  direction: ScheduleDirection,
+): { first: number; last: number } | null {
+  const times = flights
+    .map((flight) => scheduleTime(flight, direction))
+    .filter((time): time is number => time !== undefined);
+  if (times.length === 0) return null;
+  return { first: Math.min(...times), last: Math.max(...times) };
+}
+
+function estimatePages(
+  span: { first: number; last: number } | null,
+  remainingMs: number,
+): number {
+  if (!span || span.last <= span.first) return 1;
+  return Math.max(1, Math.ceil(remainingMs / (span.last - span.first)));
+}
+
+/**
+ * Fetches the schedule of an airport: the first page, then the remaining
+ * upcoming pages and the historic (negative) pages concurrently. Requests
+ * are throttled by the provider's scheduler. Flights are de-duplicated and
+ * limited to the requested time window. Historic pages that fail only cut
+ * the window short.
+ */
+export async function getSchedule(
+  provider: FlightDataProvider,
+  airportCode: string,
+  direction: ScheduleDirection,
+  scheduleWindow: ScheduleWindow = {},
+): Promise<FlightData[]> {
+  const now = Date.now();
+  const hoursBack = scheduleWindow.hoursBack ?? DEFAULT_SCHEDULE_HOURS_BACK;
+  const start = now - hoursBack * 60 * 60 * 1000;
+  const end =
+    scheduleWindow.hoursForward === undefined
+      ? Infinity
+      : now + scheduleWindow.hoursForward * 60 * 60 * 1000;
+
+  const firstPage = await fetchPage(provider, airportCode, direction, 1);
+  const pages: FlightData[][] = [firstPage.flights];
+  const firstSpan = pageSpan(firstPage.flights, direction);
+
+  // Upcoming pages, fetched in batches sized by the time a page covers
+  const fetchForward = async () => {
+    let nextPage = 2;
+    let lastTime = firstSpan?.last ?? now;
+    while (nextPage <= firstPage.totalPages && lastTime < end) {
+      const count = Math.min(
+        firstPage.totalPages - nextPage + 1,
+        end === Infinity ? Infinity : estimatePages(firstSpan, end - lastTime),
+      );
+      const batch = await Promise.all(
+        Array.from({ length: count }, (_, i) =>
+          fetchPage(provider, airportCode, direction, nextPage + i),
+        ),
+      );
+      nextPage += count;
+      batch.forEach((page) => pages.push(page.flights));
+      lastTime = Math.max(
+        lastTime,
+        ...batch.map((page) => pageSpan(page.flights, direction)?.last ?? 0),
+      );
+    }
+  };
+
+  // Historic pages, going back until the window start, an empty page or a
+  // page that fails to load
+  const fetchBackward = async () => {
+    let nextPage = -1;
+    let firstTime = firstSpan?.first ?? now;
+    while (firstTime > start && -nextPage <= MAX_HISTORIC_SCHEDULE_PAGES) {
+      const count = Math.min(
+        MAX_HISTORIC_SCHEDULE_PAGES + nextPage + 1,
+        estimatePages(firstSpan, firstTime - start),
+      );
+      const results = await Promise.allSettled(
+        Array.from({ length: count }, (_, i) =>
+          fetchPage(provider, airportCode, direction, nextPage - i),
+        ),
+      );
+      nextPage -= count;
+      // Pages beyond a failed one would leave a gap, so paging stops there
+      const batch: SchedulePage[] = [];
+      for (const result of results) {
+        if (result.status === "rejected") break;
+        batch.push(result.value);
+      }
+      batch.forEach((page) => pages.push(page.flights));
+      const failure = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected",
+      );
+      if (failure) {
+        console.warn(
+          chalk.yellow(
+            `⚠️  Stopped loading earlier ${direction} of ${airportCode}: ${failure.reason}`,
+          ),
+        );
+        break;
+      }
+      const spans = batch.map((page) => pageSpan(page.flights, direction));
+      if (spans.some((span) => span === null)) break;
+      firstTime = Math.min(firstTime, ...spans.map((span) => span!.first));
+    }
+  };
+
+  await Promise.all([
+    fetchForward(),
+    hoursBack > 0 ? fetchBackward() : Promise.resolve(),
+  ]);
+
+  const flights = new Map<string, FlightData>();
+  for (const flight of pages.flat()) {
+    const time = scheduleTime(flight, direction);
+    if (time !== undefined && (time < start || time > end)) continue;
+    flights.set(flightKey(flight), flight);
+  }
+  return [...flights.values()];
+}
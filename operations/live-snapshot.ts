@@ -0,0 +1,87 @@
+import chalk from "chalk";
+import type { Flight } from "flightradarapi";
+import { registrationCountry } from "../aircraft";
+import type { FlightDataProvider } from "../providers";
+import type { LiveSnapshot } from "../snapshots";
+import { formatBounds, leafZones, orUndefined } from "./shared";
+
+export interface LiveSnapshotResult {
+  snapshot: LiveSnapshot;
+  // Distinct aircraft of the feed
+  flights: Flight[];
+}
+
+/**
+ * Counts the flights per key, skipping flights without one
+ */
+function countBy(
+  flights: Flight[],
+  keyOf: (flight: Flight) => string | undefined,
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const flight of flights) {
+    const key = keyOf(flight);
+    if (key !== undefined) {
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Live snapshot: Pulls the whole live feed zone by zone and counts the
+ * aircraft per type, operator and country of registration. Zones overlap,
+ * so aircraft are counted once by their flight id.
+ */
+export async function liveSnapshot(
+  provider: FlightDataProvider,
+): Promise<LiveSnapshotResult> {
+  const takenAt = new Date().toISOString();
+  const zones = leafZones(await provider.getZones());
+  const names = Object.keys(zones);
+  console.error(
+    chalk.bold.green(`📸 Pulling the live feed of ${names.length} zones`),
+  );
+
+  const failedZones: string[] = [];
+  const results = await Promise.all(
+    names.map(async (name) => {
+      try {
+        console.error(chalk.gray(`Fetching live flights in ${name}...`));
+        return await provider.getFlights({
+          bounds: formatBounds(zones[name]!),
+        });
+      } catch (error) {
+        console.error(
+          chalk.red(`Failed to fetch live flights in ${name}: ${error}`),
+        );
+        failedZones.push(name);
+        return [];
+      }
+    }),
+  );
+
+  const flights = [
+    ...new Map(results.flat().map((flight) => [flight.id, flight])).values(),
+  ];
+  console.error(chalk.gray(`📊 Aircraft in the feed: ${flights.length}\n`));
+
+  return {
+    snapshot: {
+      takenAt,
+      zones: names.length,
+      failedZones: failedZones.sort(),
+      aircraft: flights.length,
+      airborne: flights.filter((flight) => flight.onGround === 0).length,
+      aircraftTypes: countBy(flights, (flight) =>
+        orUndefined(flight.aircraftCode),
+      ),
+      operators: countBy(flights, (flight) => orUndefined(flight.airlineIcao)),
+      countries: countBy(flights, (flight) => {
+        const registration = orUndefined(flight.registration);
+        return registration && registrationCountry(registration);
+      }),
+    },
+    flights,
+  };
+}
@@ -0,0 +1,155 @@
+import type { Flight } from "flightradarapi";
+import type { FlightDataProvider } from "../providers";
+import {
+  type AreaFlightEntry,
+  type Bounds,
+  type Coordinates,
+  type RouteFilters,
+  type RouteSortKey,
+  applyRouteFilters,
+  boundsAroundPoint,
+  boundsCenter,
+  distanceKm,
+  fetchAirportPositions,
+  fetchFlightsInBounds,
+  isWithinBounds,
+  liveRouteMetrics,
+  orUndefined,
+  sortByRouteMetric,
+  usesRouteMetrics,
+} from "./shared";
+
+// Area to search, either a circle around a point or a bounding box
+export type SearchArea =
+  { center: Coordinates; radiusKm: number } | { bounds: Bounds };
+
+export interface LiveTrafficFilters {
+  aircraftTypes?: string[];
+  // ICAO airline designators
+  airlines?: string[];
+  minAltitude?: number;
+  maxAltitude?: number;
+  onGround?: boolean;
+  registrationPrefixes?: string[];
+}
+
+export interface LiveTrafficOptions {
+  // Thresholds on route distance, duration and delay
+  routeFilters?: RouteFilters;
+  // "time" keeps the flights closest to the centre first
+  sortBy?: RouteSortKey;
+}
+
+/**
+ * Transforms a live feed flight to AreaFlightEntry format
+ */
+function transformToAreaFlightEntry(
+  flight: Flight,
+  center: Coordinates,
+): AreaFlightEntry {
+  const coordinates: Coordinates = {
+    latitude: flight.latitude,
+    longitude: flight.longitude,
+  };
+  return {
+    live: !flight.onGround,
+    status: "scheduled" as const, // Live flights don't have arrival/departure status
+    code: flight.aircraftCode,
+    time: Date.now(),
+    onGround: flight.onGround !== 0,
+    coordinates: [flight.latitude, flight.longitude],
+    distance: distanceKm(center, coordinates),
+    altitude: flight.altitude,
+    groundSpeed: flight.groundSpeed,
+    registration: orUndefined(flight.registration),
+    flightNumber: orUndefined(flight.number),
+    airline: orUndefined(flight.airlineIcao),
+    origin: orUndefined(flight.originAirportIata),
+    destination: orUndefined(flight.destinationAirportIata),
+  };
+}
+
+function matchesFilters(
+  flight: AreaFlightEntry,
+  filters: LiveTrafficFilters,
+): boolean {
+  const { aircraftTypes, airlines, registrationPrefixes } = filters;
+  return (
+    (!aircraftTypes?.length || aircraftTypes.includes(flight.code)) &&
+    (!airlines?.length ||
+      (!!flight.airline && airlines.includes(flight.airline))) &&
+    (filters.minAltitude === undefined ||
+      flight.altitude >= filters.minAltitude) &&
+    (filters.maxAltitude === undefined ||
+      flight.altitude <= filters.maxAltitude) &&
+    (filters.onGround === undefined || flight.onGround === filters.onGround) &&
+    (!registrationPrefixes?.length ||
+      registrationPrefixes.some((prefix) =>
+        flight.registration?.toUpperCase().startsWith(prefix),
+      ))
+  );
+}
+
+/**
+ * Live traffic: Fetches all live flights within an area, filtered and sorted
+ * by distance from the centre of the area. The feed caps the number of
+ * flights per request, so very large areas may be incomplete. Route distances
+ * take a lookup per airport, so they are only added when filtered or sorted by.
+ */
+export async function liveTrafficInArea(
+  provider: FlightDataProvider,
+  area: SearchArea,
+  filters: LiveTrafficFilters = {},
+  options: LiveTrafficOptions = {},
+): Promise<AreaFlightEntry[]> {
+  const { routeFilters, sortBy = "time" } = options;
+  const bounds =
+    "bounds" in area
+      ? area.bounds
+      : boundsAroundPoint(area.center, area.radiusKm);
+  const center = "center" in area ? area.center : boundsCenter(bounds);
+
+  // Let the feed narrow down single type or airline searches
+  const flights = await fetchFlightsInBounds(provider, bounds, {
+    aircraftType:
+      filters.aircraftTypes?.length === 1
+        ? filters.aircraftTypes[0]
+        : undefined,
+    airline: filters.airlines?.length === 1 ? filters.airlines[0] : undefined,
+  });
+
+  const matching = flights
+    .map((flight) => transformToAreaFlightEntry(flight, center))
+    .filter((flight) =>
+      "radiusKm" in area
+        ? flight.distance <= area.radiusKm
+        : isWithinBounds(
+            {
+              latitude: flight.coordinates[0],
+              longitude: flight.coordinates[1],
+            },
+            bounds,
+          ),
+    )
+    .filter((flight) => matchesFilters(flight, filters))
+    .sort((a, b) => a.distance - b.distance);
+  if (!usesRouteMetrics(routeFilters, sortBy)) {
+    return matching;
+  }
+
+  const positions = await fetchAirportPositions(
+    provider,
+    matching.flatMap((flight) => [flight.origin, flight.destination]),
+  );
+  return sortByRouteMetric(
+    applyRouteFilters(
+      matching.map((flight) => ({
+        ...flight,
+        ...liveRouteMetrics(positions, flight.origin, flight.destination),
+      })),
+      routeFilters,
+    ),
+    sortBy,
+    () => 0,
+  );
+}
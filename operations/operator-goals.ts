@@ -0,0 +1,174 @@
+import chalk from "chalk";
+import type { Flight } from "flightradarapi";
+import type { FlightDataProvider } from "../providers";
+import type { FlightData } from "../types/flight-data";
+import { getDepartures } from "./get-departures";
+import {
+  DEFAULT_OPERATOR_HOURS,
+  orUndefined,
+  transformToPlannedFlight,
+  type OperatorAirline,
+  type OperatorSummary,
+  type PlannedFlight,
+} from "./shared";
+
+export interface OperatorGoalsOptions {
+  // Hours ahead to look for departures
+  hours?: number;
+}
+
+/**
+ * Transforms a live feed flight to PlannedFlight format, the feed has no
+ * times
+ */
+function transformLiveFlight(flight: Flight, airline: string): PlannedFlight {
+  return {
+    code:
+      orUndefined(flight.number) ?? orUndefined(flight.callsign) ?? flight.id,
+    status: "departed",
+    origin: orUndefined(flight.originAirportIata) ?? "?",
+    destination: orUndefined(flight.destinationAirportIata) ?? "?",
+    airline,
+    aircraftType: orUndefined(flight.aircraftCode),
+    registration: orUndefined(flight.registration),
+  };
+}
+
+/**
+ * Counts the flights per key, most flights first
+ */
+function countBy<K extends string>(
+  flights: PlannedFlight[],
+  keyOf: (flight: PlannedFlight) => K | undefined,
+): [K, number][] {
+  const counts = new Map<K, number>();
+  for (const flight of flights) {
+    const key = keyOf(flight);
+    if (key !== undefined) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Summarizes one airline from its airborne flights and the departures of
+ * the chosen airports it operates or owns the aircraft of
+ */
+async function summarizeOperator(
+  provider: FlightDataProvider,
+  airline: OperatorAirline,
+  departuresByAirport: Map<string, FlightData[]>,
+): Promise<OperatorSummary> {
+  console.error(chalk.gray(`Fetching live flights of ${airline.icao}...`));
+  const live = await provider.getFlights({ airline: airline.icao });
+  const airborne = live
+    .filter((flight) => flight.onGround === 0)
+    .map((flight) => transformLiveFlight(flight, airline.name));
+
+  const departures = [...departuresByAirport.entries()]
+    .flatMap(([airport, flights]) =>
+      flights
+        .filter(
+          (flight) =>
+            flight.airline?.code.icao === airline.icao ||
+            flight.owner?.code.icao === airline.icao,
+        )
+        .map((flight) =>
+          transformToPlannedFlight(
+            flight,
+            airport,
+            flight.airport.destination?.code?.iata ?? "?",
+          ),
+        ),
+    )
+    .filter((flight) => flight.status === "scheduled")
+    .sort((a, b) => (a.departureTime ?? 0) - (b.departureTime ?? 0));
+
+  const flights = [...airborne, ...departures];
+  return {
+    airline: airline.icao,
+    name: airline.name,
+    iata: airline.iata,
+    fleetSize: airline.fleetSize,
+    airborne,
+    departures,
+    fleet: countBy(flights, (flight) => flight.aircraftType).map(
+      ([aircraftType, count]) => ({ aircraftType, flights: count }),
+    ),
+    routes: countBy(flights, (flight) =>
+      flight.origin !== "?" && flight.destination !== "?"
+        ? `${flight.origin}-${flight.destination}`
+        : undefined,
+    ).map(([route, count]) => {
+      const [origin = "?", destination = "?"] = route.split("-");
+      return { origin, destination, flights: count };
+    }),
+  };
+}
+
+/**
+ * Operator goals: Finds the airborne flights of the airlines still needed
+ * and their upcoming departures from the chosen airports, summarizing the
+ * fleet types and routes seen. Airlines in the air come first, then by
+ * their soonest departure.
+ */
+export async function operatorGoals(
+  provider: FlightDataProvider,
+  airlines: OperatorAirline[],
+  airports: string[],
+  options: OperatorGoalsOptions = {},
+): Promise<OperatorSummary[]> {
+  const { hours = DEFAULT_OPERATOR_HOURS } = options;
+
+  // Each airport's departures are fetched once and shared by all airlines
+  const departuresByAirport = new Map(
+    await Promise.all(
+      airports.map(async (airport): Promise<[string, FlightData[]]> => {
+        try {
+          console.error(chalk.gray(`Fetching departures for ${airport}...`));
+          const departures = await getDepartures(provider, airport, {
+            hoursBack: 0,
+            hoursForward: hours,
+          });
+          return [airport, departures];
+        } catch (error) {
+          console.error(
+            chalk.red(`Failed to fetch departures for ${airport}: ${error}`),
+          );
+          return [airport, []];
+        }
+      }),
+    ),
+  );
+
+  const summaries = await Promise.all(
+    airlines.map(async (airline): Promise<OperatorSummary> => {
+      try {
+        return await summarizeOperator(provider, airline, departuresByAirport);
+      } catch (error) {
+        console.error(
+          chalk.red(`Failed to search flights of ${airline.icao}: ${error}`),
+        );
+        return {
+          airline: airline.icao,
+          name: airline.name,
+          iata: airline.iata,
+          fleetSize: airline.fleetSize,
+          airborne: [],
+          departures: [],
+          fleet: [],
+          routes: [],
+        };
+      }
+    }),
+  );
+
+  const nextDeparture = (summary: OperatorSummary) =>
+    summary.departures[0]?.departureTime ?? Infinity;
+  return summaries.sort(
+    (a, b) =>
+      Number(b.airborne.length > 0) - Number(a.airborne.length > 0) ||
+      nextDeparture(a) - nextDeparture(b),
+  );
+}
@@ -0,0 +1,273 @@
+import chalk from "chalk";
+import type { FlightDataProvider } from "../providers";
+import { getArrivals } from "./get-arrivals";
+import { getDepartures } from "./get-departures";
+import {
+  DEFAULT_MAX_STOPS,
+  DEFAULT_MIN_CONNECTION_MINUTES,
+  DEFAULT_REACH_HOURS,
+  LONGEST_FLIGHT_HOURS,
+  MAX_HUBS_TO_EXPAND,
+  transformToPlannedFlight,
+  type Itinerary,
+  type PlannedFlight,
+  type ReachHub,
+} from "./shared";
+
+export interface ReachabilityOptions {
+  // Connecting airports allowed between home and a target, 0 to 2
+  maxStops?: number;
+  // Minimum minutes between arriving at a stop and departing from it
+  minConnectionMinutes?: number;
+  // Hours ahead in which every flight of an itinerary must depart
+  hours?: number;
+  // First stops whose departures are searched for two-stop itineraries
+  maxHubs?: number;
+}
+
+export interface ReachabilityResult {
+  // Fastest itinerary of each chain of airports, soonest arrival first
+  itineraries: Itinerary[];
+  // Connecting airports, feeding the most itineraries first
+  hubs: ReachHub[];
+  unreachable: string[];
+}
+
+type FlightChain = PlannedFlight[];
+
+/**
+ * Flights of a schedule that have not departed yet and have both times
+ */
+function catchable(flights: PlannedFlight[]): PlannedFlight[] {
+  return flights.filter(
+    (flight) =>
+      flight.status === "scheduled" &&
+      flight.departureTime !== undefined &&
+      flight.arrivalTime !== undefined,
+  );
+}
+
+/**
+ * Keeps the earliest arriving chain per sequence of airports, as it makes
+ * every connection the later chains make
+ */
+function fastestPerRoute(chains: FlightChain[]): FlightChain[] {
+  const fastest = new Map<string, FlightChain>();
+  for (const chain of chains) {
+    const key = chain.map((flight) => flight.destination).join("-");
+    const known = fastest.get(key);
+    const arrival = chain.at(-1)!.arrivalTime!;
+    const knownArrival = known?.at(-1)!.arrivalTime!;
+    if (
+      !known ||
+      arrival < knownArrival ||
+      (arrival === knownArrival &&
+        chain[0]!.departureTime! > known[0]!.departureTime!)
+    ) {
+      fastest.set(key, chain);
+    }
+  }
+  return [...fastest.values()];
+}
+
+function toItinerary(origin: string, chain: FlightChain): Itinerary {
+  return {
+    origin,
+    destination: chain.at(-1)!.destination,
+    stops: chain.slice(0, -1).map((flight) => flight.destination),
+    legs: chain,
+    departureTime: chain[0]!.departureTime!,
+    arrivalTime: chain.at(-1)!.arrivalTime!,
+    connections: chain
+      .slice(1)
+      .map((flight, i) =>
+        Math.round(
+          (flight.departureTime! - chain[i]!.arrivalTime!) / (60 * 1000),
+        ),
+      ),
+  };
+}
+
+/**
+ * Ranks the connecting airports by the itineraries passing through them
+ */
+function rankHubs(itineraries: Itinerary[]): ReachHub[] {
+  const hubs = new Map<string, ReachHub>();
+  for (const itinerary of itineraries) {
+    for (const code of itinerary.stops) {
+      const hub = hubs.get(code) ?? {
+        code,
+        itineraries: 0,
+        targets: [],
+        earliestArrival: Infinity,
+      };
+      hub.itineraries++;
+      if (!hub.targets.includes(itinerary.destination)) {
+        hub.targets.push(itinerary.destination);
+      }
+      hub.earliestArrival = Math.min(
+        hub.earliestArrival,
+        itinerary.arrivalTime,
+      );
+      hubs.set(code, hub);
+    }
+  }
+  return [...hubs.values()].sort(
+    (a, b) =>
+      b.targets.length - a.targets.length ||
+      b.itineraries - a.itineraries ||
+      a.earliestArrival - b.earliestArrival,
+  );
+}
+
+/**
+ * Reachability search: Finds direct, one- and two-stop itineraries from a
+ * home airport to the target airports over the upcoming schedules. The
+ * search is breadth-first: departures of home, then departures of the
+ * busiest first stops, and the final legs from the arrivals of the targets.
+ */
+export async function reachability(
+  provider: FlightDataProvider,
+  homeAirport: string,
+  targetAirports: string[],
+  options: ReachabilityOptions = {},
+): Promise<ReachabilityResult> {
+  const {
+    maxStops = DEFAULT_MAX_STOPS,
+    minConnectionMinutes = DEFAULT_MIN_CONNECTION_MINUTES,
+    hours = DEFAULT_REACH_HOURS,
+    maxHubs = MAX_HUBS_TO_EXPAND,
+  } = options;
+  const now = Date.now();
+  const targets = new Set(targetAirports);
+  const scheduleWindow = { hoursBack: 0, hoursForward: hours };
+
+  console.error(
+    chalk.bold.green(
+      `🧭 Searching itineraries from ${homeAirport} to ${targets.size} airports with up to ${maxStops} stops`,
+    ),
+  );
+
+  // Final legs into the targets, by their origin
+  const feeders = new Map<string, PlannedFlight[]>();
+  for (const target of targets) {
+    try {
+      console.error(chalk.gray(`Fetching arrivals for ${target}...`));
+      const arrivals = await getArrivals(provider, target, {
+        hoursBack: 0,
+        hoursForward: hours + LONGEST_FLIGHT_HOURS,
+      });
+      for (const flight of catchable(
+        arrivals.map((data) =>
+          transformToPlannedFlight(
+            data,
+            data.airport.origin?.code?.iata ?? "",
+            target,
+          ),
+        ),
+      )) {
+        if (flight.departureTime! > now + hours * 60 * 60 * 1000) continue;
+        feeders.set(flight.origin, [
+          ...(feeders.get(flight.origin) ?? []),
+          flight,
+        ]);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red(`Failed to fetch arrivals for ${target}: ${error}`),
+      );
+    }
+  }
+
+  const departuresOf = async (airport: string): Promise<PlannedFlight[]> => {
+    try {
+      console.error(chalk.gray(`Fetching departures for ${airport}...`));
+      const departures = await getDepartures(provider, airport, scheduleWindow);
+      return catchable(
+        departures.map((data) =>
+          transformToPlannedFlight(
+            data,
+            airport,
+            data.airport.destination?.code?.iata ?? "",
+          ),
+        ),
+      ).filter((flight) => flight.destination !== "");
+    } catch (error) {
+      console.error(
+        chalk.red(`Failed to fetch departures for ${airport}: ${error}`),
+      );
+      return [];
+    }
+  };
+
+  const complete: FlightChain[] = [];
+  let frontier: FlightChain[] = [[]];
+  // Flights reaching each stop of the frontier, before keeping the fastest
+  let arrivingFlights = new Map<string, number>([[homeAirport, 1]]);
+  for (let hop = 0; hop <= maxStops && frontier.length > 0; hop++) {
+    const lastHop = hop === maxStops;
+
+    // Onward departures are searched at home and the busiest first stops,
+    // elsewhere only the final legs into the targets are known
+    const busiest = [...arrivingFlights.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, hop === 0 ? 1 : lastHop ? 0 : maxHubs);
+    const expanded = new Map(
+      await Promise.all(
+        busiest.map(
+          async ([airport]) => [airport, await departuresOf(airport)] as const,
+        ),
+      ),
+    );
+
+    const next: FlightChain[] = [];
+    for (const chain of frontier) {
+      const last = chain.at(-1);
+      const readyAt = last
+        ? last.arrivalTime! + minConnectionMinutes * 60 * 1000
+        : now;
+      const visited = [
+        homeAirport,
+        ...chain.map((flight) => flight.destination),
+      ];
+      const at = last?.destination ?? homeAirport;
+      const candidates = expanded.get(at) ?? feeders.get(at) ?? [];
+      for (const flight of candidates) {
+        if (
+          flight.departureTime! < readyAt ||
+          visited.includes(flight.destination)
+        ) {
+          continue;
+        }
+        // Targets can be stops on the way to other targets
+        if (targets.has(flight.destination)) {
+          complete.push([...chain, flight]);
+        }
+        if (!lastHop) {
+          next.push([...chain, flight]);
+        }
+      }
+    }
+    arrivingFlights = new Map();
+    for (const chain of next) {
+      const stop = chain.at(-1)!.destination;
+      arrivingFlights.set(stop, (arrivingFlights.get(stop) ?? 0) + 1);
+    }
+    frontier = fastestPerRoute(next);
+  }
+
+  const itineraries = fastestPerRoute(complete)
+    .map((chain) => toItinerary(homeAirport, chain))
+    .sort((a, b) => a.arrivalTime - b.arrivalTime);
+  const reached = new Set(
+    itineraries.map((itinerary) => itinerary.destination),
+  );
+
+  console.error(chalk.gray(`📊 Itineraries found: ${itineraries.length}\n`));
+
+  return {
+    itineraries,
+    hubs: rankHubs(itineraries),
+    unreachable: [...targets].filter((target) => !reached.has(target)),
+  };
+}
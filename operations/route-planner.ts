@@ -0,0 +1,170 @@
+import chalk from "chalk";
+import type { FlightDataProvider } from "../providers";
+import type { BidirectionalAirportPair } from "./flights-between-pairs";
+import { getDepartures } from "./get-departures";
+import {
+  applyRouteFilters,
+  DEFAULT_PLANNER_DAYS,
+  fetchAirportWithCoordinates,
+  sortByRouteMetric,
+  transformToPlannedFlight,
+  type PlannedFlight,
+  type RouteFilters,
+  type RouteLeg,
+  type RoutePlan,
+  type RouteSortKey,
+} from "./shared";
+
+export interface RoutePlannerOptions {
+  // Days ahead to look for departures
+  days?: number;
+  // Thresholds on the distance and block time of the airport pairs
+  routeFilters?: RouteFilters;
+  // "time" ranks the pairs by when they can be caught
+  sortBy?: RouteSortKey;
+}
+
+/**
+ * Plans one direction of a route: the flights airborne right now, found
+ * with the search endpoint, and the upcoming departures of the origin
+ */
+async function planLeg(
+  provider: FlightDataProvider,
+  origin: string,
+  destination: string,
+  days: number,
+): Promise<RouteLeg> {
+  const [departures, searchResult] = await Promise.all([
+    getDepartures(provider, origin, { hoursBack: 0, hoursForward: days * 24 }),
+    provider.search(`${origin}-${destination}`),
+  ]);
+
+  const upcoming = departures
+    .filter((flight) => flight.airport.destination?.code?.iata === destination)
+    .map((flight) => transformToPlannedFlight(flight, origin, destination))
+    .filter((flight) => flight.status === "scheduled")
+    .sort((a, b) => (a.departureTime ?? 0) - (b.departureTime ?? 0));
+
+  // Search results lack times, so airborne flights are looked up one by one
+  const airborne = await Promise.all(
+    (searchResult.live ?? [])
+      .filter(
+        (flight) =>
+          flight.detail.schd_from === origin &&
+          flight.detail.schd_to === destination,
+      )
+      .map(async (flight): Promise<PlannedFlight> => {
+        try {
+          const details = await provider.getFlightDetails(flight.id);
+          return transformToPlannedFlight(details, origin, destination);
+        } catch {
+          return {
+            code:
+              flight.detail.flight || flight.label.split(" / ")[0] || flight.id,
+            status: "departed",
+            origin,
+            destination,
+            airline: flight.detail.operator,
+            aircraftType: flight.detail.ac_type,
+            registration: flight.detail.reg,
+          };
+        }
+      }),
+  );
+
+  return {
+    origin,
+    destination,
+    airborne: airborne.filter((flight) => flight.status === "departed"),
+    next: upcoming[0],
+    departures: upcoming.length,
+  };
+}
+
+/**
+ * Route planner: Plans both directions of each airport pair with the
+ * flights airborne now and the next departures, ranked by the time until a
+ * flight of the route can be caught. Pairs without service are last. Route
+ * filters and sorting use the distance and block time of a pair.
+ */
+export async function planRoutes(
+  provider: FlightDataProvider,
+  airportPairs: BidirectionalAirportPair[],
+  options: RoutePlannerOptions = {},
+): Promise<RoutePlan[]> {
+  const {
+    days = DEFAULT_PLANNER_DAYS,
+    routeFilters,
+    sortBy = "time",
+  } = options;
+  const now = Date.now();
+
+  const plans = await Promise.all(
+    airportPairs.map(async (pair): Promise<RoutePlan> => {
+      console.error(
+        chalk.gray(`🧭 Planning ${pair.source} ⇄ ${pair.destination}...`),
+      );
+      const directions: [string, string][] = [[pair.source, pair.destination]];
+      if (pair.searchBothDirections !== false) {
+        directions.push([pair.destination, pair.source]);
+      }
+
+      const [source, destination] = await Promise.all([
+        fetchAirportWithCoordinates(provider, pair.source),
+        fetchAirportWithCoordinates(provider, pair.destination),
+      ]);
+      const legs = await Promise.all(
+        directions.map(async ([origin, target]): Promise<RouteLeg> => {
+          try {
+            return await planLeg(provider, origin, target, days);
+          } catch (error) {
+            console.error(
+              chalk.red(`Failed to plan ${origin}-${target}: ${error}`),
+            );
+            return { origin, destination: target, airborne: [], departures: 0 };
+          }
+        }),
+      );
+
+      const catchableAt = legs.flatMap((leg) =>
+        leg.airborne.length > 0
+          ? [now]
+          : leg.next?.departureTime !== undefined
+            ? [Math.max(leg.next.departureTime, now)]
+            : [],
+      );
+      const flights = legs.flatMap((leg) => [
+        ...leg.airborne,
+        ...(leg.next ? [leg.next] : []),
+      ]);
+      return {
+        source: pair.source,
+        destination: pair.destination,
+        distance:
+          source && destination
+            ? source.getDistanceFrom(destination)
+            : undefined,
+        blockMinutes: flights.find((flight) => flight.blockMinutes)
+          ?.blockMinutes,
+        legs,
+        nextCatchableAt:
+          catchableAt.length > 0 ? Math.min(...catchableAt) : undefined,
+        noService: catchableAt.length === 0,
+      };
+    }),
+  );
+
+  const ranked = sortByRouteMetric(
+    applyRouteFilters(
+      plans.map((plan) => ({
+        plan,
+        routeDistance: plan.distance,
+        scheduledDuration: plan.blockMinutes,
+      })),
+      routeFilters,
+    ),
+    sortBy,
+    ({ plan }) => plan.nextCatchableAt,
+  );
+  return ranked.map(({ plan }) => plan);
+}
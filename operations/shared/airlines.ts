@@ -0,0 +1,39 @@
+import type { AirlineInfo } from "../../providers";
+
+const ICAO_AIRLINE = /^[A-Z]{3}$/;
+const IATA_AIRLINE = /^[A-Z0-9]{2}$/;
+
+/**
+ * Finds the airlines of the flightradar24 list an input names: by ICAO or
+ * IATA code, by exact name or, failing that, by part of the name
+ */
+export function matchAirlines(
+  airlines: AirlineInfo[],
+  input: string,
+): AirlineInfo[] {
+  const code = input.trim().toUpperCase();
+  const name = input.trim().toLowerCase();
+  const byCode = airlines.filter(
+    (airline) => airline.icao === code || airline.iata === code,
+  );
+  if (byCode.length > 0) {
+    return byCode;
+  }
+  const byName = airlines.filter(
+    (airline) => airline.name.toLowerCase() === name,
+  );
+  if (byName.length > 0) {
+    return byName;
+  }
+  const byPart = airlines.filter((airline) =>
+    airline.name.toLowerCase().includes(name),
+  );
+  if (byPart.length > 0) {
+    return byPart;
+  }
+  // Codes missing from the list are still usable in the feed and schedules
+  if (ICAO_AIRLINE.test(code)) {
+    return [{ name: code, icao: code }];
+  }
+  return IATA_AIRLINE.test(code) ? [{ name: code, iata: code }] : [];
+}
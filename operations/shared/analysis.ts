@@ -1,4 +1,6 @@
-import type { BackwardFlightEntry } from "./types";
+import { BEST_WINDOWS_PER_AIRPORT } from "./constants";
+import { findNextFlight } from "./quiet-hours";
+import type { AirportAnalysis, BackwardFlightEntry, TimeWindow } from "./types";
 /**
  * Analyze airports by diversity (number of distinct destinations) instead of time windows
  */
@@ -20,13 +22,8 @@ export function analyzeAirportsByDiversity(
       }
     });
 
-    // Find the next flight from now
-    const futureFlights = airportFlights
-      .filter((flight) => flight.time >= now)
-      .sort((a, b) => a.time - b.time);
-
-    const nextFlightTime =
-      futureFlights.length > 0 ? futureFlights[0]!.time : Infinity;
+    // Find the next flight from now, preferring flights outside quiet hours
+    const nextFlight = findNextFlight(airportFlights, now);
 
     const firstFlight = airportFlights[0];
     if (firstFlight) {
@@ -36,17 +33,22 @@ export function analyzeAirportsByDiversity(
         country: firstFlight.origin.country || "Unknown",
         distinctDestinations: destinations.size,
         totalFlights: airportFlights.length,
-        nextFlightTime,
+        nextFlightTime: nextFlight?.time ?? Infinity,
+        nextFlightQuiet: nextFlight?.quiet,
         destinations,
       });
     }
   }
 
-  // Sort by distinct destinations (descending), then by next flight time (ascending)
+  // Sort by distinct destinations (descending), then airports with a next
+  // flight outside quiet hours first, then by next flight time (ascending)
   return airportResults.sort((a, b) => {
     if (b.distinctDestinations !== a.distinctDestinations) {
       return b.distinctDestinations - a.distinctDestinations;
     }
+    if (!!a.nextFlightQuiet !== !!b.nextFlightQuiet) {
+      return a.nextFlightQuiet ? 1 : -1;
+    }
     return a.nextFlightTime - b.nextFlightTime;
   });
 }
@@ -62,6 +64,7 @@ export function analyzeDeparturesByDiversity(
   distinctDestinations: number;
   totalFlights: number;
   nextFlightTime: number;
+  nextFlightQuiet?: boolean;
   destinations: Set<string>;
 } | null {
   if (flights.length === 0) return null;
@@ -76,19 +79,113 @@ export function analyzeDeparturesByDiversity(
     }
   });
 
-  // Find the next flight from now
-  const futureFlights = flights
-    .filter((flight) => flight.time >= now)
-    .sort((a, b) => a.time - b.time);
-
-  const nextFlightTime =
-    futureFlights.length > 0 ? futureFlights[0]!.time : Infinity;
+  // Find the next flight from now, preferring flights outside quiet hours
+  const nextFlight = findNextFlight(flights, now);
 
   return {
     sourceCode: sourceAirport,
     distinctDestinations: destinations.size,
     totalFlights: flights.length,
-    nextFlightTime,
+    nextFlightTime: nextFlight?.time ?? Infinity,
+    nextFlightQuiet: nextFlight?.quiet,
     destinations,
   };
 }
+
+/**
+ * Finds the windows of the given length in which an airport serves the most
+ * distinct target airports. Every window starts at a flight, so a sliding
+ * window over the flights sorted by time covers all candidates.
+ */
+function findTimeWindows(
+  flights: BackwardFlightEntry[],
+  windowMs: number,
+): TimeWindow<BackwardFlightEntry>[] {
+  const sorted = [...flights].sort((a, b) => a.time - b.time);
+  const windows: TimeWindow<BackwardFlightEntry>[] = [];
+  const targetCounts = new Map<string, number>();
+  let end = 0;
+
+  sorted.forEach((first, start) => {
+    // Extend the window to all flights within windowMs of its first flight
+    while (end < sorted.length && sorted[end]!.time <= first.time + windowMs) {
+      const target = sorted[end]!.target;
+      targetCounts.set(target, (targetCounts.get(target) ?? 0) + 1);
+      end++;
+    }
+
+    const windowFlights = sorted.slice(start, end);
+    windows.push({
+      start: first.time,
+      end: windowFlights[windowFlights.length - 1]!.time,
+      destinations: new Set(targetCounts.keys()),
+      flights: windowFlights,
+    });
+
+    // Drop the first flight before moving the window on
+    const count = targetCounts.get(first.target)! - 1;
+    if (count === 0) targetCounts.delete(first.target);
+    else targetCounts.set(first.target, count);
+  });
+
+  return windows;
+}
+
+/**
+ * Analyze airports by time windows: for each origin airport, finds the best
+ * non-overlapping windows of windowHours in which departures serve the most
+ * distinct target airports, only considering flights from now on that are
+ * outside the quiet hours
+ */
+export function analyzeAirportsByTimeWindows(
+  flightsByOrigin: Record<string, BackwardFlightEntry[]>,
+  windowHours: number,
+  now = Date.now(),
+): AirportAnalysis[] {
+  const windowMs = windowHours * 60 * 60 * 1000;
+  const results: AirportAnalysis[] = [];
+
+  for (const [originCode, airportFlights] of Object.entries(flightsByOrigin)) {
+    if (!originCode || originCode === "UNKNOWN") continue;
+
+    const upcomingFlights = airportFlights.filter(
+      (flight) => flight.time >= now && !flight.quiet,
+    );
+    if (upcomingFlights.length === 0) continue;
+
+    // Greedily pick the windows with the most destinations, earliest first
+    const bestWindows: TimeWindow<BackwardFlightEntry>[] = [];
+    const candidates = findTimeWindows(upcomingFlights, windowMs).sort(
+      (a, b) => b.destinations.size - a.destinations.size || a.start - b.start,
+    );
+    for (const window of candidates) {
+      if (bestWindows.length === BEST_WINDOWS_PER_AIRPORT) break;
+      const overlaps = bestWindows.some(
+        (best) => window.start <= best.end && window.end >= best.start,
+      );
+      if (!overlaps) bestWindows.push(window);
+    }
+
+    results.push({
+      airportCode: originCode,
+      airportName: upcomingFlights[0]!.origin.name || "Unknown",
+      maxDestinations: bestWindows[0]!.destinations.size,
+      bestWindows: bestWindows.sort((a, b) => a.start - b.start),
+    });
+  }
+
+  // Sort by the best window (descending), then by how soon it starts
+  return results.sort(
+    (a, b) =>
+      b.maxDestinations - a.maxDestinations ||
+      firstBestWindowStart(a) - firstBestWindowStart(b),
+  );
+}
+
+function firstBestWindowStart(analysis: AirportAnalysis): number {
+  return (
+    analysis.bestWindows.find(
+      (window) => window.destinations.size === analysis.maxDestinations,
+    )?.start ?? Infinity
+  );
+}
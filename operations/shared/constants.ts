@@ -6,5 +6,49 @@ export const EXPONENTIAL_BACKOFF_MULTIPLIER = 2; // Multiplier for exponential b
 // Retry configuration
 export const MAX_RETRY_ATTEMPTS = 3; // Reduced attempts to fail faster
 
+// Request scheduling
+export const REQUESTS_PER_SECOND = 1000 / DELAY_BETWEEN_CALLS_MS; // Sustained request budget
+export const REQUEST_BURST = 5; // Requests allowed back to back before throttling
+export const MAX_CONCURRENT_REQUESTS = 5;
+export const MAX_RETRY_AFTER_MS = 60 * 1000; // Cap for server requested delays
+export const CIRCUIT_BREAKER_THRESHOLD = 5; // Consecutive failures before failing fast
+export const CIRCUIT_BREAKER_COOLDOWN_MS = 60 * 1000;
+
+// Schedule paging
+export const SCHEDULE_PAGE_SIZE = 100; // Maximum flights per page the endpoint allows
+export const DEFAULT_SCHEDULE_HOURS_BACK = 2; // Matches the "recent flights" shown in displays
+export const MAX_HISTORIC_SCHEDULE_PAGES = 5;
+
+// Time window analysis
+export const DEFAULT_WINDOW_HOURS = 4; // Roughly an afternoon at one airport
+export const BEST_WINDOWS_PER_AIRPORT = 3;
+
 // Display limits
 export const TOP_AIRPORTS_TO_DISPLAY = 10;
+
+// Country coverage
+export const COVERAGE_FLIGHTS_PER_COUNTRY = 3;
+export const OVERFLIGHT_AIRPORTS_PER_COUNTRY = 3; // Busiest airports searched for overflights
+export const OVERFLIGHT_RADIUS_KM = 500;
+export const ISLAND_AIRSPACE_KM = 100; // Around airports missing from reverse geocoding
+
+// Route planning
+export const DEFAULT_PLANNER_DAYS = 2; // Schedules rarely reach further ahead
+
+// Reachability search
+export const DEFAULT_REACH_HOURS = 24; // Itineraries leaving home within a day
+export const DEFAULT_MAX_STOPS = 2;
+export const DEFAULT_MIN_CONNECTION_MINUTES = 60;
+export const MAX_HUBS_TO_EXPAND = 15; // First stops searched for onward connections
+export const LONGEST_FLIGHT_HOURS = 20; // Longest scheduled nonstop flights
+
+// Airframe tracking
+export const AIRFRAME_HISTORY_LIMIT = 10;
+
+// Airline goals
+export const DEFAULT_OPERATOR_HOURS = 24;
+export const OPERATOR_FLIGHTS_TO_DISPLAY = 5; // Per airline and kind of flight
+export const OPERATOR_ROUTES_TO_DISPLAY = 10;
+
+// Live feed snapshots
+export const RARE_AIRCRAFT_TO_DISPLAY = 20; // Rarest airborne aircraft after a snapshot
@@ -0,0 +1,40 @@
+import { country_reverse_geocoding } from "country-reverse-geocoding";
+import type { Coordinates } from "./geo";
+
+const crg = country_reverse_geocoding();
+
+// Reverse geocoding names whose slug differs from flightradar24's
+const REVERSE_GEOCODING_ALIASES: Record<string, string> = {
+  macedonia: "north-macedonia",
+  "republic-of-serbia": "serbia",
+  "republic-of-the-congo": "congo",
+  swaziland: "eswatini",
+  "the-bahamas": "bahamas",
+  "united-republic-of-tanzania": "tanzania",
+};
+
+/**
+ * Converts a country name to a flightradar24 style slug, e.g.
+ * "Marshall Islands" to "marshall-islands"
+ */
+export function countrySlug(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f']/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Slug of the country a point lies in. Small islands are missing from the
+ * reverse geocoding data, so points over them give undefined.
+ */
+export function countryAt(point: Coordinates): string | undefined {
+  const country = crg.get_country(point.latitude, point.longitude);
+  if (!country) return undefined;
+  // US states are listed by name
+  if (country.code === "USA") return "united-states";
+  const slug = countrySlug(country.name);
+  return REVERSE_GEOCODING_ALIASES[slug] ?? slug;
+}
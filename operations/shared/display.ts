@@ -1,31 +1,50 @@
 import chalk from "chalk";
 import type {
   AirportAnalysis,
+  TimeWindow,
   ForwardFlightEntry,
   BackwardFlightEntry,
   AircraftFlightEntry,
+  AirframeStatus,
+  AreaFlightEntry,
+  CountryCoverage,
+  CoverageFlightEntry,
+  Itinerary,
+  OperatorSummary,
+  PlannedFlight,
+  ReachHub,
+  RoutePlan,
   AirportDistance,
   AirportDiversity,
+  TimeZoneSetting,
 } from "./types";
-import { formatTime, getStatusColor } from "./utils";
-import { TOP_AIRPORTS_TO_DISPLAY } from "./constants";
+import type { Novelty } from "../../collection/types";
+import { aircraftTypeName } from "../../aircraft";
+import {
+  formatFlightTime,
+  formatNovelty,
+  formatQuiet,
+  formatRouteMetrics,
+  formatScheduledAircraft,
+  formatTime,
+  getStatusColor,
+} from "./utils";
+import { resolveTimeZone } from "./time-zones";
+import {
+  OPERATOR_FLIGHTS_TO_DISPLAY,
+  OPERATOR_ROUTES_TO_DISPLAY,
+  TOP_AIRPORTS_TO_DISPLAY,
+} from "./constants";
 import { country_reverse_geocoding } from "country-reverse-geocoding";
 const crg = country_reverse_geocoding();
 
-/**
- * Check if a timestamp falls within the undesirable time range (23:00-06:00)
- */
-function isInUndesirableTimeRange(timestamp: number): boolean {
-  const date = new Date(timestamp);
-  const hour = date.getHours();
-  return hour >= 23 || hour < 6;
-}
-
 /**
  * Display flights grouped by origin airport (backward lookup)
  */
 export function displayFlightsByOrigin(
   flightsByOrigin: Record<string, BackwardFlightEntry[]>,
+  noveltyOf?: (flight: BackwardFlightEntry) => Novelty,
+  timeZone?: TimeZoneSetting,
 ): void {
   Object.entries(flightsByOrigin).forEach(([originCode, flights]) => {
     console.log(
@@ -34,42 +53,45 @@ export function displayFlightsByOrigin(
       ),
     );
 
-    flights
-      .sort((a, b) => a.time - b.time)
-      .forEach((flight) => {
-        const date = new Date(flight.time);
-        const statusColor = getStatusColor(flight.status);
+    flights.forEach((flight) => {
+      const statusColor = getStatusColor(flight.status);
 
-        console.log(
-          `${chalk.gray(formatTime(date))} - ${chalk.cyan(flight.code)} ${flight.target} ${statusColor(flight.status)}`,
-        );
-      });
+      console.log(
+        `${chalk.gray(formatFlightTime(flight, timeZone))} - ${chalk.cyan(flight.code)} ${flight.target} ${chalk.yellow(formatScheduledAircraft(flight))} ${chalk.gray(formatRouteMetrics(flight))} ${statusColor(flight.status)} ${formatQuiet(flight)} ${formatNovelty(noveltyOf?.(flight))}`.trimEnd(),
+      );
+    });
   });
 }
 
 /**
  * Display individual departure flights (forward lookup)
  */
-export function displayDepartureSchedule(flights: ForwardFlightEntry[]): void {
+export function displayDepartureSchedule(
+  flights: ForwardFlightEntry[],
+  noveltyOf?: (flight: ForwardFlightEntry) => Novelty,
+  timeZone?: TimeZoneSetting,
+): void {
   console.log(chalk.bold.cyan("\n📋 DEPARTURE SCHEDULE"));
 
-  flights
-    .sort((a, b) => a.time - b.time)
-    .forEach((flight) => {
-      const date = new Date(flight.time);
-      const statusColor = getStatusColor(flight.status);
+  flights.forEach((flight) => {
+    const statusColor = getStatusColor(flight.status);
 
-      console.log(
-        `${chalk.gray(formatTime(date))} - ${chalk.cyan(flight.code)} ${chalk.magenta(flight.destination.name)} (${chalk.gray(flight.destination?.country?.name)}) ${statusColor(flight.status)}`,
-      );
-    });
+    console.log(
+      `${chalk.gray(formatFlightTime(flight, timeZone))} - ${chalk.cyan(flight.code)} ${chalk.magenta(flight.destination.name)} (${chalk.gray(flight.destination?.country?.name)}) ${chalk.yellow(formatScheduledAircraft(flight))} ${chalk.gray(formatRouteMetrics(flight))} ${statusColor(flight.status)} ${formatQuiet(flight)} ${formatNovelty(noveltyOf?.(flight))}`.trimEnd(),
+    );
+  });
 }
 
 /**
  * Display individual aircraft flight
  */
-export function displayAircraftFlight(flight: AircraftFlightEntry): void {
-  const aircraftStr = chalk.cyan.bold(flight.code);
+export function displayAircraftFlight(
+  flight: AircraftFlightEntry,
+  novelty?: Novelty,
+): void {
+  const aircraftStr =
+    chalk.cyan.bold(flight.code) +
+    (flight.model ? ` ${chalk.cyan(flight.model)}` : "");
   const registrationStr = chalk.yellow(flight.registration);
   const distStr = chalk.magenta(
     `${flight.closestAirport.distance.toFixed()}km (${flight.closestAirport.code})`,
@@ -85,26 +107,65 @@ export function displayAircraftFlight(flight: AircraftFlightEntry): void {
       locationStr = chalk.green(`${country.name} (${country.code})`);
     }
   }
+  const noveltyStr = formatNovelty(novelty);
 
   if (flight.onGround) {
     console.log(
-      `${aircraftStr} (${registrationStr}): ${chalk.greenBright("on ground")} ${distStr} @ ${coordStr} ${locationStr}`,
+      `${aircraftStr} (${registrationStr}): ${chalk.greenBright("on ground")} ${distStr} @ ${coordStr} ${locationStr} ${noveltyStr}`.trimEnd(),
     );
   } else {
     const routeStr = `${chalk.blue(flight.origin)} ${chalk.white("→")} ${chalk.blue(flight.destination)}`;
+    const metricsStr = chalk.gray(formatRouteMetrics(flight));
     console.log(
-      `${aircraftStr} (${registrationStr}): ${routeStr} ${distStr} @ ${coordStr} ${locationStr}`,
+      `${aircraftStr} (${registrationStr}): ${routeStr} ${metricsStr} ${distStr} @ ${coordStr} ${locationStr} ${noveltyStr}`.trimEnd(),
     );
   }
 }
 
 /**
- * Display list of aircraft flights sorted by distance
+ * Display list of aircraft flights in the order given, closest first unless
+ * sorted by a route metric
  */
-export function displayAircraftFlights(flights: AircraftFlightEntry[]): void {
-  flights
-    .sort((a, b) => a.closestAirport.distance - b.closestAirport.distance)
-    .forEach(displayAircraftFlight);
+export function displayAircraftFlights(
+  flights: AircraftFlightEntry[],
+  noveltyOf?: (flight: AircraftFlightEntry) => Novelty,
+): void {
+  flights.forEach((flight) =>
+    displayAircraftFlight(flight, noveltyOf?.(flight)),
+  );
+}
+
+/**
+ * Display live flights of an area search sorted by distance
+ */
+export function displayAreaFlights(
+  flights: AreaFlightEntry[],
+  noveltyOf?: (flight: AreaFlightEntry) => Novelty,
+): void {
+  if (flights.length === 0) {
+    console.log(chalk.yellow("No live flights found in the area"));
+    return;
+  }
+
+  flights.forEach((flight) => {
+    const distStr = chalk.magenta(`${flight.distance.toFixed()}km`.padStart(6));
+    const aircraftStr = chalk.cyan.bold(flight.code || "????");
+    const registrationStr = chalk.yellow(flight.registration ?? "no reg");
+    const flightStr = flight.flightNumber ? ` ${flight.flightNumber}` : "";
+    const stateStr = flight.onGround
+      ? chalk.greenBright("on ground")
+      : `${chalk.blue(flight.origin ?? "?")} ${chalk.white("→")} ${chalk.blue(flight.destination ?? "?")} ${chalk.gray([formatRouteMetrics(flight), `${flight.altitude}ft ${flight.groundSpeed}kt`].filter(Boolean).join(" "))}`;
+
+    console.log(
+      `${distStr} ${aircraftStr} (${registrationStr})${flightStr}: ${stateStr} ${formatNovelty(noveltyOf?.(flight))}`.trimEnd(),
+    );
+  });
+
+  console.log(
+    chalk.bold.green(
+      `\n✨ ${flights.length} live flight${flights.length === 1 ? "" : "s"} in the area`,
+    ),
+  );
 }
 
 /**
@@ -119,7 +180,14 @@ export function displayMissingAircraftTypes(
   if (missing.length) {
     console.log(
       chalk.redBright(`Missing aircraft types: `) +
-        chalk.white(missing.join(", ")),
+        chalk.white(
+          missing
+            .map((type) => {
+              const name = aircraftTypeName(type);
+              return name ? `${type} (${name})` : type;
+            })
+            .join(", "),
+        ),
     );
   } else {
     console.log(chalk.greenBright("All aircraft types found!"));
@@ -132,6 +200,7 @@ export function displayMissingAircraftTypes(
 export function displayAirportsByDistance(
   airports: AirportDistance[],
   flightsByOrigin: Record<string, BackwardFlightEntry[]>,
+  timeZone?: TimeZoneSetting,
 ): void {
   console.log(
     chalk.bold.cyan(
@@ -161,11 +230,10 @@ export function displayAirportsByDistance(
     flights
       .sort((a, b) => a.time - b.time)
       .forEach((flight) => {
-        const flightDate = new Date(flight.time);
         const statusColor = getStatusColor(flight.status);
 
         console.log(
-          `      ${chalk.gray(formatTime(flightDate))} - ${chalk.cyan(flight.code)} → ${chalk.white(flight.target)} ${statusColor(flight.status)}`,
+          `      ${chalk.gray(formatFlightTime(flight, timeZone))} - ${chalk.cyan(flight.code)} → ${chalk.white(flight.target)} ${statusColor(flight.status)} ${formatQuiet(flight)}`.trimEnd(),
         );
       });
 
@@ -208,6 +276,7 @@ export function displayAirportsDistanceSummary(
 export function displayAirportsByDiversity(
   airports: AirportDiversity[],
   flightsByOrigin: Record<string, BackwardFlightEntry[]>,
+  timeZone?: TimeZoneSetting,
 ): void {
   console.log(chalk.bold.cyan(`\n🎯 AIRPORTS BY DESTINATION DIVERSITY`));
   console.log(
@@ -233,21 +302,29 @@ export function displayAirportsByDiversity(
     // Show next flight time
     let nextFlightStr = "";
     if (airport.nextFlightTime !== Infinity) {
-      const nextFlightDate = new Date(airport.nextFlightTime);
+      const nextFlightTimeStr = formatFlightTime(
+        {
+          time: airport.nextFlightTime,
+          timeZone: flightsByOrigin[airport.code]?.[0]?.timeZone,
+        },
+        timeZone,
+      );
       const timeUntil = airport.nextFlightTime - now;
       const hoursUntil = Math.floor(timeUntil / (1000 * 60 * 60));
       const minutesUntil = Math.floor(
         (timeUntil % (1000 * 60 * 60)) / (1000 * 60),
       );
 
-      if (timeUntil > 0) {
+      if (airport.nextFlightQuiet) {
+        nextFlightStr = chalk.blue(
+          `Next: ${nextFlightTimeStr} (${hoursUntil}h ${minutesUntil}m) 💤 only in quiet hours`,
+        );
+      } else if (timeUntil > 0) {
         nextFlightStr = chalk.green(
-          `Next: ${formatTime(nextFlightDate)} (${hoursUntil}h ${minutesUntil}m)`,
+          `Next: ${nextFlightTimeStr} (${hoursUntil}h ${minutesUntil}m)`,
         );
       } else {
-        nextFlightStr = chalk.yellow(
-          `Next: ${formatTime(nextFlightDate)} (overdue)`,
-        );
+        nextFlightStr = chalk.yellow(`Next: ${nextFlightTimeStr} (overdue)`);
       }
     } else {
       nextFlightStr = chalk.red("No future flights");
@@ -272,13 +349,12 @@ export function displayAirportsByDiversity(
     if (relevantFlights.length > 0) {
       console.log(chalk.gray("      Recent/Upcoming flights:"));
       relevantFlights.forEach((flight) => {
-        const flightDate = new Date(flight.time);
         const statusColor = getStatusColor(flight.status);
         const isPast = flight.time < now;
         const timePrefix = isPast ? "  " : "→ ";
 
         console.log(
-          `        ${timePrefix}${chalk.gray(formatTime(flightDate))} - ${chalk.cyan(flight.code)} → ${chalk.white(flight.target)} ${statusColor(flight.status)}`,
+          `        ${timePrefix}${chalk.gray(formatFlightTime(flight, timeZone))} - ${chalk.cyan(flight.code)} → ${chalk.white(flight.target)} ${statusColor(flight.status)} ${formatQuiet(flight)}`.trimEnd(),
         );
       });
     }
@@ -287,6 +363,65 @@ export function displayAirportsByDiversity(
   });
 }
 
+/**
+ * Display the best time windows of each origin airport with their flights
+ */
+export function displayBestTimeWindows(
+  analyses: AirportAnalysis[],
+  windowHours: number,
+  timeZone?: TimeZoneSetting,
+): void {
+  console.log(
+    chalk.bold.cyan(`\n⏱️  BEST ${windowHours}-HOUR WINDOWS BY DESTINATIONS`),
+  );
+  console.log(
+    chalk.gray(
+      "Upcoming windows in which an airport serves the most target airports:\n",
+    ),
+  );
+
+  if (analyses.length === 0) {
+    console.log(chalk.yellow("No upcoming flights to analyze"));
+    return;
+  }
+
+  analyses.slice(0, TOP_AIRPORTS_TO_DISPLAY).forEach((analysis, index) => {
+    const rankStr = chalk.gray(`${(index + 1).toString().padStart(2)}.`);
+    console.log(
+      `${rankStr} ${chalk.bold.yellow(analysis.airportCode)} ${chalk.white(analysis.airportName)} - ${chalk.magenta(`up to ${analysis.maxDestinations} destinations`)}`,
+    );
+    analysis.bestWindows.forEach((window) =>
+      displayTimeWindow(window, timeZone),
+    );
+    console.log(""); // Empty line between airports
+  });
+
+  if (analyses.length > TOP_AIRPORTS_TO_DISPLAY) {
+    console.log(
+      chalk.gray(
+        `... and ${analyses.length - TOP_AIRPORTS_TO_DISPLAY} more airports`,
+      ),
+    );
+  }
+}
+
+function displayTimeWindow(
+  window: TimeWindow<BackwardFlightEntry>,
+  timeZone?: TimeZoneSetting,
+): void {
+  const destinationsList = Array.from(window.destinations).sort().join(", ");
+  const zone = resolveTimeZone(timeZone, window.flights[0]?.timeZone);
+  console.log(
+    `      ${chalk.green(`${formatTime(new Date(window.start), zone)} - ${formatTime(new Date(window.end), zone)}`)} ${chalk.magenta(`${window.destinations.size} destination${window.destinations.size === 1 ? "" : "s"}`)} ${chalk.gray(destinationsList)}`,
+  );
+  window.flights.forEach((flight) => {
+    const statusColor = getStatusColor(flight.status);
+    console.log(
+      `        ${chalk.gray(formatFlightTime(flight, timeZone))} - ${chalk.cyan(flight.code)} → ${chalk.white(flight.target)} ${statusColor(flight.status)}`,
+    );
+  });
+}
+
 /**
  * Display diversity analysis summary
  */
@@ -327,9 +462,11 @@ export function displayDepartureDiversitySummary(
     distinctDestinations: number;
     totalFlights: number;
     nextFlightTime: number;
+    nextFlightQuiet?: boolean;
     destinations: Set<string>;
   },
   flights: import("./types").ForwardFlightEntry[],
+  timeZone?: TimeZoneSetting,
 ): void {
   console.log(
     chalk.bold.cyan(
@@ -347,22 +484,31 @@ export function displayDepartureDiversitySummary(
   // Show next flight time
   const now = Date.now();
   if (diversityData.nextFlightTime !== Infinity) {
-    const nextFlightDate = new Date(diversityData.nextFlightTime);
+    const nextFlightTimeStr = formatFlightTime(
+      { time: diversityData.nextFlightTime, timeZone: flights[0]?.timeZone },
+      timeZone,
+    );
     const timeUntil = diversityData.nextFlightTime - now;
     const hoursUntil = Math.floor(timeUntil / (1000 * 60 * 60));
     const minutesUntil = Math.floor(
       (timeUntil % (1000 * 60 * 60)) / (1000 * 60),
     );
 
-    if (timeUntil > 0) {
+    if (diversityData.nextFlightQuiet) {
+      console.log(
+        chalk.blue(
+          `Next departure: ${nextFlightTimeStr} (${hoursUntil}h ${minutesUntil}m) 💤 only in quiet hours`,
+        ),
+      );
+    } else if (timeUntil > 0) {
       console.log(
         chalk.green(
-          `Next departure: ${formatTime(nextFlightDate)} (${hoursUntil}h ${minutesUntil}m)`,
+          `Next departure: ${nextFlightTimeStr} (${hoursUntil}h ${minutesUntil}m)`,
         ),
       );
     } else {
       console.log(
-        chalk.yellow(`Next departure: ${formatTime(nextFlightDate)} (overdue)`),
+        chalk.yellow(`Next departure: ${nextFlightTimeStr} (overdue)`),
       );
     }
   } else {
@@ -375,3 +521,367 @@ export function displayDepartureDiversitySummary(
     .join(", ");
   console.log(chalk.gray(`Destinations: ${destinationsList}`));
 }
+
+const touchLabels: Record<CoverageFlightEntry["touch"], string> = {
+  departing: "🛫 departing ",
+  arriving: "🛬 arriving  ",
+  overflying: "✈️  overflying",
+};
+
+/**
+ * Formats the time until a flight can be caught, e.g. "in 2h 05m"
+ */
+function formatCatchableIn(catchableAt: number, now: number): string {
+  const minutes = Math.round((catchableAt - now) / 60000);
+  if (minutes <= 0) return "now";
+  const hours = Math.floor(minutes / 60);
+  return hours > 0
+    ? `in ${hours}h ${String(minutes % 60).padStart(2, "0")}m`
+    : `in ${minutes}m`;
+}
+
+/**
+ * Display the flights touching each country of a coverage search
+ */
+export function displayCountryCoverage(
+  coverage: CountryCoverage[],
+  noveltyOf?: (flight: CoverageFlightEntry) => Novelty,
+  timeZone?: TimeZoneSetting,
+): void {
+  if (coverage.length === 0) {
+    console.log(chalk.green("🎉 No countries left to cover"));
+    return;
+  }
+
+  const now = Date.now();
+  coverage.forEach(({ country, airports, flights }) => {
+    console.log(
+      chalk.bold.cyan(`\n🌍 ${country}`) +
+        chalk.gray(` (${airports.join(", ") || "no airports"})`),
+    );
+    if (flights.length === 0) {
+      console.log(chalk.yellow("  No flights touching it found"));
+      return;
+    }
+    flights.forEach((flight) => {
+      const inStr = chalk.bold.green(
+        formatCatchableIn(flight.catchableAt, now).padEnd(10),
+      );
+      const routeStr = `${chalk.blue(flight.origin ?? "?")} ${chalk.white("→")} ${chalk.blue(flight.destination ?? "?")}`;
+      const cityStr = flight.otherCity
+        ? chalk.magenta(` ${flight.otherCity}`)
+        : "";
+      const aircraftStr = flight.aircraftType
+        ? chalk.gray(
+            ` ${flight.aircraftType} ${flight.registration ?? ""}`.trimEnd(),
+          )
+        : "";
+      const timeStr =
+        flight.status === "scheduled"
+          ? ` ${chalk.gray(formatFlightTime(flight, timeZone))}`
+          : "";
+      console.log(
+        `  ${inStr} ${touchLabels[flight.touch]} ${chalk.cyan(flight.code)} ${routeStr}${cityStr}${aircraftStr}${timeStr} ${getStatusColor(flight.status)(flight.status)} ${formatNovelty(noveltyOf?.(flight))}`.trimEnd(),
+      );
+    });
+  });
+
+  const covered = coverage.filter((c) => c.flights.length > 0).length;
+  console.log(
+    chalk.bold.green(
+      `\n✨ Flights found for ${covered} of ${coverage.length} countries`,
+    ),
+  );
+}
+
+/**
+ * Formats a duration in minutes, e.g. "17h 05m"
+ */
+function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function formatPlannedFlight(
+  flight: PlannedFlight,
+  timeZone?: TimeZoneSetting,
+): string {
+  const timeOf = (time: number | undefined, zone: string | undefined) =>
+    time === undefined
+      ? "?"
+      : formatFlightTime({ time, timeZone: zone }, timeZone);
+  const aircraftStr = [flight.airline, flight.aircraftType, flight.registration]
+    .filter(Boolean)
+    .join(" ");
+  return [
+    chalk.cyan(flight.code),
+    aircraftStr && chalk.gray(aircraftStr),
+    flight.status === "scheduled" &&
+      `${chalk.gray("dep")} ${timeOf(flight.departureTime, flight.departureTimeZone)}`,
+    `${chalk.gray("arr")} ${timeOf(flight.arrivalTime, flight.arrivalTimeZone)}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Display route plans as a prioritised list of routes to catch next,
+ * followed by the routes without service
+ */
+export function displayRoutePlans(
+  plans: RoutePlan[],
+  days: number,
+  noveltyOf?: (flight: PlannedFlight) => Novelty,
+  timeZone?: TimeZoneSetting,
+): void {
+  const served = plans.filter((plan) => !plan.noService);
+  const unserved = plans.filter((plan) => plan.noService);
+  const now = Date.now();
+
+  if (served.length > 0) {
+    console.log(chalk.bold.cyan("🎯 CATCH NEXT"));
+  }
+  served.forEach((plan, index) => {
+    const distanceStr =
+      plan.distance !== undefined
+        ? chalk.magenta(` ${Math.round(plan.distance).toLocaleString()}km`)
+        : "";
+    const blockStr =
+      plan.blockMinutes !== undefined
+        ? chalk.gray(` ${formatMinutes(plan.blockMinutes)} block`)
+        : "";
+    console.log(
+      `\n${chalk.bold(`${index + 1}.`)} ${chalk.yellow(plan.source)} ⇄ ${chalk.yellow(plan.destination)}${distanceStr}${blockStr} ${chalk.bold.green(formatCatchableIn(plan.nextCatchableAt ?? now, now))}`,
+    );
+    plan.legs.forEach((leg) => {
+      const legStr = `   ${chalk.yellow(leg.origin)} → ${chalk.yellow(leg.destination)}`;
+      leg.airborne.forEach((flight) => {
+        console.log(
+          `${legStr} ${chalk.yellow("✈️  airborne")} ${formatPlannedFlight(flight, timeZone)} ${formatNovelty(noveltyOf?.(flight))}`.trimEnd(),
+        );
+      });
+      if (leg.next) {
+        const moreStr =
+          leg.departures > 1
+            ? chalk.gray(` (+${leg.departures - 1} more in ${days} days)`)
+            : "";
+        console.log(
+          `${legStr} ${chalk.blue("🕐 next")} ${formatPlannedFlight(leg.next, timeZone)}${moreStr}`,
+        );
+      } else if (leg.airborne.length === 0) {
+        console.log(`${legStr} ${chalk.gray(`no departures in ${days} days`)}`);
+      }
+    });
+  });
+
+  if (unserved.length > 0) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️  NO SERVICE IN THE NEXT ${days} DAYS (${unserved.length})`,
+      ),
+    );
+    unserved.forEach((plan) => {
+      console.log(chalk.gray(`  ${plan.source} ⇄ ${plan.destination}`));
+    });
+  }
+}
+
+/**
+ * Display the hubs feeding the targets, then the itineraries soonest
+ * arrival first and the targets out of reach
+ */
+export function displayReachability(
+  itineraries: Itinerary[],
+  hubs: ReachHub[],
+  unreachable: string[],
+  timeZone?: TimeZoneSetting,
+): void {
+  if (itineraries.length === 0) {
+    console.log(chalk.yellow("No itineraries found to any target airport"));
+  }
+
+  if (hubs.length > 0) {
+    console.log(chalk.bold.cyan("🔭 HUBS TO WATCH"));
+    hubs.forEach((hub, index) => {
+      console.log(
+        `${chalk.bold(`${index + 1}.`)} ${chalk.yellow(hub.code)} → ${hub.targets.map((target) => chalk.magenta(target)).join(", ")} ${chalk.gray(`(${hub.itineraries} ${hub.itineraries === 1 ? "itinerary" : "itineraries"}, first arrival ${formatFlightTime({ time: hub.earliestArrival }, timeZone)})`)}`,
+      );
+    });
+    console.log("");
+  }
+
+  if (itineraries.length > 0) {
+    console.log(chalk.bold.cyan("🧭 ITINERARIES"));
+  }
+  itineraries.forEach((itinerary) => {
+    const route = [itinerary.origin, ...itinerary.stops, itinerary.destination]
+      .map((code) => chalk.yellow(code))
+      .join(" → ");
+    const stopsStr =
+      itinerary.stops.length === 0
+        ? "direct"
+        : `${itinerary.stops.length} stop${itinerary.stops.length === 1 ? "" : "s"}`;
+    console.log(
+      `\n${route} ${chalk.gray(`${stopsStr}, ${formatMinutes(Math.round((itinerary.arrivalTime - itinerary.departureTime) / (60 * 1000)))} total`)}`,
+    );
+    itinerary.legs.forEach((leg, index) => {
+      const connection = itinerary.connections[index - 1];
+      if (connection !== undefined) {
+        console.log(
+          chalk.gray(`     ${formatMinutes(connection)} at ${leg.origin}`),
+        );
+      }
+      console.log(
+        `   ${chalk.yellow(leg.origin)} → ${chalk.yellow(leg.destination)} ${formatPlannedFlight(leg, timeZone)}`,
+      );
+    });
+  });
+
+  if (unreachable.length > 0) {
+    console.log(chalk.yellow(`\n❌ NOT REACHABLE (${unreachable.length})`));
+    console.log(chalk.gray(`  ${unreachable.join(", ")}`));
+  }
+}
+
+/**
+ * Display tracked airframes with their position, current flight, next
+ * departure and recent history
+ */
+export function displayAirframes(
+  airframes: AirframeStatus[],
+  timeZone?: TimeZoneSetting,
+): void {
+  airframes.forEach((status, index) => {
+    const ids = [
+      status.registration ?? status.airframe.code,
+      status.hex && `hex ${status.hex}`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    const aircraftStr = [status.aircraftType, status.airline]
+      .filter(Boolean)
+      .join(" ");
+    console.log(
+      `${index > 0 ? "\n" : ""}${chalk.bold.cyan(`✈️  ${ids}`)} ${chalk.gray(aircraftStr)}`.trimEnd(),
+    );
+
+    const { position } = status;
+    if (position) {
+      const stateStr = position.onGround
+        ? chalk.blue("on ground")
+        : chalk.yellow(
+            `airborne at ${position.altitude.toLocaleString()}ft, ${position.groundSpeed}kt`,
+          );
+      console.log(
+        `   📍 ${stateStr} ${chalk.gray(`[${position.latitude.toFixed(3)}, ${position.longitude.toFixed(3)}] seen ${formatFlightTime({ time: position.seenAt }, timeZone)}`)}`,
+      );
+    } else {
+      console.log(chalk.gray("   📍 not in the live feed"));
+    }
+
+    const flightLine = (label: string, flight: PlannedFlight) =>
+      `   ${label} ${chalk.yellow(flight.origin)} → ${chalk.yellow(flight.destination)} ${formatPlannedFlight(flight, timeZone)}`;
+    if (status.currentFlight && status.currentFlight !== status.nextDeparture) {
+      console.log(flightLine(chalk.green("now "), status.currentFlight));
+    }
+    if (status.nextDeparture) {
+      console.log(flightLine(chalk.blue("next"), status.nextDeparture));
+    } else {
+      console.log(chalk.gray("   next departure not scheduled yet"));
+    }
+
+    if (status.history.length > 0) {
+      console.log(chalk.gray(`   Recent flights (${status.history.length}):`));
+      status.history.forEach((flight) => {
+        const departure =
+          flight.departureTime !== undefined
+            ? formatFlightTime(
+                {
+                  time: flight.departureTime,
+                  timeZone: flight.departureTimeZone,
+                },
+                timeZone,
+              )
+            : "?";
+        console.log(
+          chalk.gray(
+            `     ${departure} ${flight.code} ${flight.origin} → ${flight.destination}`,
+          ),
+        );
+      });
+    } else if (!position) {
+      console.log(chalk.gray("   No recent flights found"));
+    }
+  });
+}
+
+/**
+ * Display the airline goals with their airborne flights, next departures,
+ * fleet types and routes
+ */
+export function displayOperatorSummaries(
+  summaries: OperatorSummary[],
+  noveltyOf?: (flight: PlannedFlight) => Novelty,
+  timeZone?: TimeZoneSetting,
+): void {
+  const moreOf = (flights: PlannedFlight[]) =>
+    flights.length > OPERATOR_FLIGHTS_TO_DISPLAY
+      ? chalk.gray(`     +${flights.length - OPERATOR_FLIGHTS_TO_DISPLAY} more`)
+      : undefined;
+
+  summaries.forEach((summary, index) => {
+    const codes = [summary.airline, summary.iata].filter(Boolean).join(" / ");
+    const fleetStr =
+      summary.fleetSize !== undefined
+        ? chalk.gray(` fleet of ${summary.fleetSize}`)
+        : "";
+    console.log(
+      `${index > 0 ? "\n" : ""}${chalk.bold.cyan(`🏷️  ${summary.name}`)} ${chalk.gray(`(${codes})`)}${fleetStr}`,
+    );
+    if (summary.airborne.length === 0 && summary.departures.length === 0) {
+      console.log(chalk.yellow("   No flights found"));
+      return;
+    }
+
+    summary.airborne.slice(0, OPERATOR_FLIGHTS_TO_DISPLAY).forEach((flight) => {
+      const aircraftStr = [flight.aircraftType, flight.registration]
+        .filter(Boolean)
+        .join(" ");
+      console.log(
+        `   ${chalk.yellow("✈️  airborne")} ${chalk.yellow(flight.origin)} → ${chalk.yellow(flight.destination)} ${chalk.cyan(flight.code)} ${chalk.gray(aircraftStr)} ${formatNovelty(noveltyOf?.(flight))}`.trimEnd(),
+      );
+    });
+    const moreAirborne = moreOf(summary.airborne);
+    if (moreAirborne) console.log(moreAirborne);
+
+    summary.departures
+      .slice(0, OPERATOR_FLIGHTS_TO_DISPLAY)
+      .forEach((flight) => {
+        console.log(
+          `   ${chalk.blue("🕐 next")} ${chalk.yellow(flight.origin)} → ${chalk.yellow(flight.destination)} ${formatPlannedFlight(flight, timeZone)}`,
+        );
+      });
+    const moreDepartures = moreOf(summary.departures);
+    if (moreDepartures) console.log(moreDepartures);
+
+    if (summary.fleet.length > 0) {
+      console.log(
+        chalk.gray(
+          `   Fleet: ${summary.fleet.map((type) => `${type.aircraftType} ×${type.flights}`).join(", ")}`,
+        ),
+      );
+    }
+    if (summary.routes.length > 0) {
+      console.log(
+        chalk.gray(
+          `   Routes: ${summary.routes
+            .slice(0, OPERATOR_ROUTES_TO_DISPLAY)
+            .map(
+              (route) =>
+                `${route.origin}-${route.destination} ×${route.flights}`,
+            )
+            .join(", ")}`,
+        ),
+      );
+    }
+  });
+}
@@ -1,5 +1,6 @@
-import type { Flight, FlightRadar24API } from "flightradarapi";
+import type { Flight } from "flightradarapi";
 import { Entity, Airport as FRAirport } from "flightradarapi";
+import type { FlightDataProvider, FlightQuery } from "../../providers";
 import chalk from "chalk";
 import { getArrivals } from "../get-arrivals";
 import { getDepartures } from "../get-departures";
@@ -7,16 +8,25 @@ import type {
   ForwardFlightEntry,
   BackwardFlightEntry,
   AircraftFlightEntry,
+  AirframeId,
   AirportDistance,
+  PlannedFlight,
+  RouteMetrics,
+  ScheduleWindow,
+  TimeZoneSetting,
 } from "./types";
-import { isToday, sleep } from "./utils";
 import {
-  DELAY_BETWEEN_CALLS_MS,
-  MAX_RETRY_ATTEMPTS,
-  EXPONENTIAL_BACKOFF_BASE_MS,
-  EXPONENTIAL_BACKOFF_MULTIPLIER,
-} from "./constants";
+  type Bounds,
+  type Coordinates,
+  formatBounds,
+  splitAtAntimeridian,
+} from "./geo";
+import { airportPosition, computeRouteMetrics } from "./route-metrics";
+import { scheduledAircraft } from "./scheduled-aircraft";
+import { resolveTimeZone } from "./time-zones";
+import { isToday, orUndefined } from "./utils";
 import type { FlightData } from "../../types/flight-data";
+import { aircraftTypeName } from "../../aircraft";
 
 /**
  * Transforms API arrival data to BackwardFlightEntry format
@@ -24,6 +34,7 @@ import type { FlightData } from "../../types/flight-data";
 export function transformToBackwardFlightEntry(
   apiResponse: FlightData,
   targetAirport: string,
+  targetCoordinates?: Coordinates,
 ): BackwardFlightEntry {
   const time = apiResponse.time;
   const origin = apiResponse.airport.origin;
@@ -44,6 +55,7 @@ export function transformToBackwardFlightEntry(
         time?.estimated.departure ??
         time?.scheduled.departure ??
         0) * 1000,
+    timeZone: origin?.timezone?.name,
     origin: {
       country: origin?.position?.country?.name,
       code: origin?.code?.iata,
@@ -55,6 +67,8 @@ export function transformToBackwardFlightEntry(
           }
         : undefined,
     },
+    ...scheduledAircraft(apiResponse),
+    ...computeRouteMetrics(time, airportPosition(origin), targetCoordinates),
   };
 }
 
@@ -63,6 +77,7 @@ export function transformToBackwardFlightEntry(
  */
 export function transformToForwardFlightEntry(
   apiResponse: FlightData,
+  sourceCoordinates?: Coordinates,
 ): ForwardFlightEntry {
   const time = apiResponse.time;
   const destination = apiResponse.airport.destination;
@@ -82,21 +97,74 @@ export function transformToForwardFlightEntry(
         time?.estimated.departure ??
         time?.scheduled.departure ??
         0) * 1000,
+    timeZone: apiResponse.airport.origin?.timezone?.name,
     destination: {
       country: destination?.position?.country,
       code: destination?.code?.iata,
       name: destination?.position?.region.city,
     },
+    ...scheduledAircraft(apiResponse),
+    ...computeRouteMetrics(
+      time,
+      sourceCoordinates,
+      airportPosition(destination),
+    ),
   };
 }
 
 /**
- * Filters flights to only include those happening today
+ * Transforms API flight data to PlannedFlight format
  */
-export function filterFlightsForToday<T extends { time: number }>(
-  flights: T[],
-): T[] {
-  return flights.filter((flight) => isToday(flight.time));
+export function transformToPlannedFlight(
+  data: FlightData,
+  origin: string,
+  destination: string,
+): PlannedFlight {
+  const time = data.time;
+  const toMs = (seconds: number | null | undefined) =>
+    seconds ? seconds * 1000 : undefined;
+  return {
+    code: data.identification.number.default || data.identification.callsign,
+    status:
+      time?.real.departure != null
+        ? time.real.arrival != null
+          ? "arrived"
+          : "departed"
+        : "scheduled",
+    origin,
+    destination,
+    airline: data.airline?.name,
+    aircraftType: data.aircraft?.model.code,
+    registration: data.aircraft?.registration,
+    departureTime: toMs(
+      time?.real.departure ??
+        time?.estimated.departure ??
+        time?.scheduled.departure,
+    ),
+    departureTimeZone: data.airport.origin?.timezone?.name,
+    arrivalTime: toMs(
+      time?.real.arrival ??
+        time?.estimated.arrival ??
+        time?.other.eta ??
+        time?.scheduled.arrival,
+    ),
+    arrivalTimeZone: data.airport.destination?.timezone?.name,
+    blockMinutes:
+      time?.scheduled.arrival && time.scheduled.departure
+        ? Math.round((time.scheduled.arrival - time.scheduled.departure) / 60)
+        : undefined,
+  };
+}
+
+/**
+ * Filters flights to only include those happening today in the selected zone
+ */
+export function filterFlightsForToday<
+  T extends { time: number; timeZone?: string },
+>(flights: T[], timeZone?: TimeZoneSetting): T[] {
+  return flights.filter((flight) =>
+    isToday(flight.time, resolveTimeZone(timeZone, flight.timeZone)),
+  );
 }
 
 /**
@@ -133,125 +201,100 @@ export function filterByDestinations(
 }
 
 /**
- * Fetches arrivals for an airport with retry logic
+ * Fetches arrivals for an airport
  */
-export async function fetchArrivalsWithRetry(
-  api: FlightRadar24API,
-  airport: string,
-): Promise<BackwardFlightEntry[]> {
-  let attempts = 0;
-
-  while (attempts < MAX_RETRY_ATTEMPTS) {
-    try {
-      console.log(chalk.gray(`Fetching arrivals for ${airport}...`));
-      const flights = await getArrivals(api, airport);
-
-      return flights.map((f) => transformToBackwardFlightEntry(f, airport));
-    } catch (error: any) {
-      attempts++;
-
-      if (String(error).includes("429")) {
-        // Exponential backoff: base delay * multiplier^attempts
-        const delayMs =
-          EXPONENTIAL_BACKOFF_BASE_MS *
-          Math.pow(EXPONENTIAL_BACKOFF_MULTIPLIER, attempts - 1);
-        console.error(
-          chalk.red(
-            `Rate limit hit for ${airport} (429 Too Many Requests). ` +
-              `Retrying in ${delayMs}ms... (Attempt ${attempts}/${MAX_RETRY_ATTEMPTS})`,
-          ),
-        );
-        await sleep(delayMs);
-      } else {
-        console.error(
-          chalk.red(`Failed to fetch arrivals for ${airport}: ${error}`),
-        );
-        break;
-      }
-    }
-  }
-
-  return [];
-}
-
 export async function fetchArrivals(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   airport: string,
+  scheduleWindow?: ScheduleWindow,
 ): Promise<BackwardFlightEntry[]> {
-  console.log(chalk.gray(`Fetching arrivals for ${airport}...`));
-  const flights = await getArrivals(api, airport);
-  return flights.map((f) => transformToBackwardFlightEntry(f, airport));
+  console.error(chalk.gray(`Fetching arrivals for ${airport}...`));
+  const [flights, coordinates] = await Promise.all([
+    getArrivals(provider, airport, scheduleWindow),
+    fetchAirportCoordinates(provider, airport),
+  ]);
+  return flights.map((f) =>
+    transformToBackwardFlightEntry(f, airport, coordinates),
+  );
 }
 
 /**
- * Fetches departures for an airport with retry logic
+ * Fetches departures for an airport
  */
-export async function fetchDeparturesWithRetry(
-  api: FlightRadar24API,
+export async function fetchDepartures(
+  provider: FlightDataProvider,
   airport: string,
+  scheduleWindow?: ScheduleWindow,
 ): Promise<ForwardFlightEntry[]> {
-  let attempts = 0;
-
-  while (attempts < MAX_RETRY_ATTEMPTS) {
-    try {
-      console.log(chalk.gray(`Fetching departures for ${airport}...`));
-      const flights = await getDepartures(api, airport);
-      return flights.map(transformToForwardFlightEntry);
-    } catch (error: any) {
-      attempts++;
+  console.error(chalk.gray(`Fetching departures for ${airport}...`));
+  const [flights, coordinates] = await Promise.all([
+    getDepartures(provider, airport, scheduleWindow),
+    fetchAirportCoordinates(provider, airport),
+  ]);
+  return flights.map((f) => transformToForwardFlightEntry(f, coordinates));
+}
 
-      if (String(error).includes("429")) {
-        // Exponential backoff: base delay * multiplier^attempts
-        const delayMs =
-          EXPONENTIAL_BACKOFF_BASE_MS *
-          Math.pow(EXPONENTIAL_BACKOFF_MULTIPLIER, attempts - 1);
-        console.error(
-          chalk.red(
-            `Rate limit hit for ${airport} (429 Too Many Requests). ` +
-              `Retrying in ${delayMs}ms... (Attempt ${attempts}/${MAX_RETRY_ATTEMPTS})`,
-          ),
-        );
-        await sleep(delayMs);
-      } else {
+/**
+ * Fetches arrivals for multiple airports, skipping airports that fail.
+ * Requests are throttled and retried by the provider's scheduler.
+ */
+export async function fetchAllArrivals(
+  provider: FlightDataProvider,
+  airports: string[],
+  scheduleWindow?: ScheduleWindow,
+): Promise<BackwardFlightEntry[]> {
+  const results = await Promise.all(
+    airports.map(async (airport) => {
+      try {
+        return await fetchArrivals(provider, airport, scheduleWindow);
+      } catch (error) {
         console.error(
-          chalk.red(`Failed to fetch departures for ${airport}: ${error}`),
+          chalk.red(`Failed to fetch arrivals for ${airport}: ${error}`),
         );
-        break;
+        return [];
       }
-    }
-  }
+    }),
+  );
 
-  return [];
+  return results.flat();
 }
 
 /**
- * Fetches departures for an airport
+ * Fetches the coordinates of airports by IATA code, each airport once.
+ * Airports that fail to load are left out.
  */
-export async function fetchDepartures(
-  api: FlightRadar24API,
-  airport: string,
-): Promise<ForwardFlightEntry[]> {
-  console.log(chalk.gray(`Fetching departures for ${airport}...`));
-  const flights = await getDepartures(api, airport);
-  return flights.map(transformToForwardFlightEntry);
+export async function fetchAirportPositions(
+  provider: FlightDataProvider,
+  codes: (string | undefined)[],
+): Promise<Map<string, Coordinates>> {
+  const unique = [...new Set(codes)].flatMap((code) => orUndefined(code) ?? []);
+  const positions = await Promise.all(
+    unique.map(
+      async (code) =>
+        [code, await fetchAirportCoordinates(provider, code)] as const,
+    ),
+  );
+  return new Map(
+    positions.flatMap(([code, position]) =>
+      position ? [[code, position] as const] : [],
+    ),
+  );
 }
 
 /**
- * Fetches arrivals for multiple airports with delays between calls
+ * Route metrics of a live feed flight from the positions of its airports.
+ * The feed carries no schedule, so only the route distance is known.
  */
-export async function fetchAllArrivals(
-  api: FlightRadar24API,
-  airports: string[],
-): Promise<BackwardFlightEntry[]> {
-  const allFlights: BackwardFlightEntry[] = [];
-
-  for (const airport of airports) {
-    const flights = await fetchArrivalsWithRetry(api, airport);
-    allFlights.push(...flights);
-    await sleep(DELAY_BETWEEN_CALLS_MS);
-  }
-
-  return allFlights;
+export function liveRouteMetrics(
+  positions: Map<string, Coordinates>,
+  origin: string | undefined,
+  destination: string | undefined,
+): RouteMetrics {
+  return computeRouteMetrics(
+    undefined,
+    origin ? positions.get(origin) : undefined,
+    destination ? positions.get(destination) : undefined,
+  );
 }
 
 /**
@@ -260,6 +303,7 @@ export async function fetchAllArrivals(
 export function transformToAircraftFlightEntry(
   apiResponse: Flight,
   airports: FRAirport[],
+  positions: Map<string, Coordinates> = new Map(),
 ): AircraftFlightEntry {
   const closestAirport = airports
     .map((a) => ({
@@ -269,6 +313,7 @@ export function transformToAircraftFlightEntry(
     }))
     .sort((a, b) => a.distance - b.distance)[0]!;
   return {
+    id: apiResponse.id,
     live: !apiResponse.onGround,
     status: "scheduled" as const, // Aircraft flights don't have arrival/departure status
     code: apiResponse.aircraftCode,
@@ -279,37 +324,122 @@ export function transformToAircraftFlightEntry(
       number | null,
       number | null,
     ],
+    model: aircraftTypeName(apiResponse.aircraftCode),
     registration: apiResponse.registration,
+    flightNumber: orUndefined(apiResponse.number),
+    airline: orUndefined(apiResponse.airlineIcao),
     origin: apiResponse.originAirportIata,
     destination: apiResponse.destinationAirportIata,
+    ...liveRouteMetrics(
+      positions,
+      apiResponse.originAirportIata,
+      apiResponse.destinationAirportIata,
+    ),
   };
 }
 
 /**
- * Fetches flights by aircraft type
+ * Fetches flights by aircraft type, with their route distances if asked
+ * for, which takes a lookup per airport
  */
 export async function fetchFlightsByType(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   airports: FRAirport[],
   aircraftType: string,
+  withRouteMetrics = false,
 ): Promise<AircraftFlightEntry[]> {
-  const flights = await api.getFlights(null, null, null, aircraftType);
+  const flights = await provider.getFlights({ aircraftType });
+  const positions = withRouteMetrics
+    ? await fetchAirportPositions(
+        provider,
+        flights.flatMap((flight) => [
+          flight.originAirportIata,
+          flight.destinationAirportIata,
+        ]),
+      )
+    : undefined;
   const result = flights.map((flight: Flight) =>
-    transformToAircraftFlightEntry(flight, airports),
+    transformToAircraftFlightEntry(flight, airports, positions),
   );
   result.sort((a, b) => a.closestAirport.distance - b.closestAirport.distance);
   return result;
 }
 
+/**
+ * Fetches the live flights within bounds. Bounds that cross the antimeridian
+ * are requested in two parts and merged by flight id.
+ */
+export async function fetchFlightsInBounds(
+  provider: FlightDataProvider,
+  bounds: Bounds,
+  query: Omit<FlightQuery, "bounds"> = {},
+): Promise<Flight[]> {
+  const flights = new Map<string, Flight>();
+  for (const part of splitAtAntimeridian(bounds)) {
+    for (const flight of await provider.getFlights({
+      ...query,
+      bounds: formatBounds(part),
+    })) {
+      flights.set(flight.id, flight);
+    }
+  }
+  return [...flights.values()];
+}
+
+/**
+ * Finds an airframe in the live feed. Registrations filter the feed
+ * directly, hex codes are looked up with the search endpoint first and
+ * matched on the ICAO 24-bit address of the results.
+ */
+export async function fetchLiveAirframe(
+  provider: FlightDataProvider,
+  airframe: AirframeId,
+): Promise<Flight | undefined> {
+  const latest = (flights: Flight[]) =>
+    flights.sort((a, b) => b.time - a.time)[0];
+  if (airframe.by === "registration") {
+    return latest(await provider.getFlights({ registration: airframe.code }));
+  }
+
+  const result = await provider.search(airframe.code);
+  const registrations = new Set(
+    (result.live ?? []).flatMap((flight) =>
+      flight.detail.reg ? [flight.detail.reg] : [],
+    ),
+  );
+  for (const registration of registrations) {
+    const flights = await provider.getFlights({ registration });
+    const match = latest(
+      flights.filter(
+        (flight) => flight.icao24bit?.toUpperCase() === airframe.code,
+      ),
+    );
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Fetches the live flight of an airframe, if it is in the feed
+ */
+export async function fetchFlightsByAirframe(
+  provider: FlightDataProvider,
+  airports: FRAirport[],
+  airframe: AirframeId,
+): Promise<AircraftFlightEntry[]> {
+  const flight = await fetchLiveAirframe(provider, airframe);
+  return flight ? [transformToAircraftFlightEntry(flight, airports)] : [];
+}
+
 /**
  * Fetches airport details with coordinates
  */
 export async function fetchAirportWithCoordinates(
-  api: FlightRadar24API,
+  provider: FlightDataProvider,
   airportCode: string,
 ): Promise<Entity | null> {
   try {
-    const airport = await api.getAirport(airportCode);
+    const airport = await provider.getAirport(airportCode);
     if (airport && airport.latitude && airport.longitude) {
       return airport;
     }
@@ -322,6 +452,19 @@ export async function fetchAirportWithCoordinates(
   }
 }
 
+/**
+ * Fetches the coordinates of an airport, used for route distances
+ */
+export async function fetchAirportCoordinates(
+  provider: FlightDataProvider,
+  airportCode: string,
+): Promise<Coordinates | undefined> {
+  const airport = await fetchAirportWithCoordinates(provider, airportCode);
+  return airport?.latitude != null && airport.longitude != null
+    ? { latitude: airport.latitude, longitude: airport.longitude }
+    : undefined;
+}
+
 /**
  * Analyzes source airports by distance from an origin airport
  */
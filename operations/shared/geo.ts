@@ -0,0 +1,157 @@
+import type { Zone } from "../../providers";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Rectangular area in degrees. West lies east of east for areas that cross
+// the antimeridian.
+export interface Bounds {
+  north: number;
+  south: number;
+  west: number;
+  east: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Wraps a longitude into [-180, 180)
+const wrapLongitude = (longitude: number) =>
+  ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Great-circle distance between two points in km (haversine formula)
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Smallest bounding box containing a circle around a point. Boxes that
+ * reach over the antimeridian wrap around to the other side.
+ */
+export function boundsAroundPoint(
+  center: Coordinates,
+  radiusKm: number,
+): Bounds {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const lonDelta =
+    radiusKm /
+    (KM_PER_DEGREE_LATITUDE *
+      Math.max(Math.cos(toRadians(center.latitude)), 0.01));
+  const north = Math.min(center.latitude + latDelta, 90);
+  const south = Math.max(center.latitude - latDelta, -90);
+  if (lonDelta >= 180) {
+    return { north, south, west: -180, east: 180 };
+  }
+  const west = center.longitude - lonDelta;
+  const east = center.longitude + lonDelta;
+  return {
+    north,
+    south,
+    west: west < -180 ? wrapLongitude(west) : west,
+    east: east > 180 ? wrapLongitude(east) : east,
+  };
+}
+
+/**
+ * Whether bounds cross the antimeridian
+ */
+export function crossesAntimeridian(bounds: Bounds): boolean {
+  return bounds.west > bounds.east;
+}
+
+/**
+ * Splits bounds that cross the antimeridian into the parts west and east of
+ * it, as the live feed only takes boxes with west below east
+ */
+export function splitAtAntimeridian(bounds: Bounds): Bounds[] {
+  if (!crossesAntimeridian(bounds)) return [bounds];
+  return [
+    { ...bounds, east: 180 },
+    { ...bounds, west: -180 },
+  ];
+}
+
+export function boundsCenter(bounds: Bounds): Coordinates {
+  const east = crossesAntimeridian(bounds) ? bounds.east + 360 : bounds.east;
+  return {
+    latitude: (bounds.north + bounds.south) / 2,
+    longitude: wrapLongitude((bounds.west + east) / 2),
+  };
+}
+
+export function isWithinBounds(point: Coordinates, bounds: Bounds): boolean {
+  const withinLongitude = crossesAntimeridian(bounds)
+    ? point.longitude >= bounds.west || point.longitude <= bounds.east
+    : point.longitude >= bounds.west && point.longitude <= bounds.east;
+  return (
+    point.latitude <= bounds.north &&
+    point.latitude >= bounds.south &&
+    withinLongitude
+  );
+}
+
+/**
+ * Formats bounds as the "north,south,west,east" string of the live feed
+ */
+export function formatBounds(bounds: Bounds): string {
+  return [bounds.north, bounds.south, bounds.west, bounds.east]
+    .map((value) => value.toFixed(2))
+    .join(",");
+}
+
+/**
+ * Flattens the zone tree of the live feed into bounds by lower case zone name
+ */
+export function flattenZones(
+  zones: Record<string, Zone>,
+  result: Record<string, Bounds> = {},
+): Record<string, Bounds> {
+  for (const [name, zone] of Object.entries(zones)) {
+    result[name.toLowerCase()] = {
+      north: zone.tl_y,
+      south: zone.br_y,
+      west: zone.tl_x,
+      east: zone.br_x,
+    };
+    if (zone.subzones) {
+      flattenZones(zone.subzones, result);
+    }
+  }
+  return result;
+}
+
+/**
+ * Bounds of the innermost zones of the live feed, which together cover the
+ * feed in requests small enough not to be capped
+ */
+export function leafZones(
+  zones: Record<string, Zone>,
+  result: Record<string, Bounds> = {},
+): Record<string, Bounds> {
+  for (const [name, zone] of Object.entries(zones)) {
+    if (zone.subzones && Object.keys(zone.subzones).length > 0) {
+      leafZones(zone.subzones, result);
+    } else {
+      result[name.toLowerCase()] = {
+        north: zone.tl_y,
+        south: zone.br_y,
+        west: zone.tl_x,
+        east: zone.br_x,
+      };
+    }
+  }
+  return result;
+}
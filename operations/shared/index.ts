@@ -3,5 +3,12 @@ export * from "./analysis";
 export * from "./types";
 export * from "./constants";
 export * from "./utils";
+export * from "./geo";
+export * from "./countries";
+export * from "./time-zones";
+export * from "./quiet-hours";
+export * from "./route-metrics";
+export * from "./scheduled-aircraft";
+export * from "./airlines";
 export * from "./flight-processing";
 export * from "./display";
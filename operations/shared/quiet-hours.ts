@@ -0,0 +1,51 @@
+import { getZonedParts, resolveTimeZone } from "./time-zones";
+import type { QuietHours } from "./types";
+
+/**
+ * Checks if a flight falls into the quiet hours, evaluated in their zone
+ */
+export function isInQuietHours(
+  flight: { time: number; timeZone?: string },
+  quietHours: QuietHours,
+): boolean {
+  const { hour, minute } = getZonedParts(
+    flight.time,
+    resolveTimeZone(quietHours.timeZone, flight.timeZone),
+  );
+  const minutes = hour * 60 + minute;
+  const { start, end } = quietHours;
+  // Ranges like 23:00-06:00 wrap around midnight
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Marks flights in the quiet hours, or drops them if the quiet hours hide
+ * flights
+ */
+export function applyQuietHours<
+  T extends { time: number; timeZone?: string; quiet?: boolean },
+>(flights: T[], quietHours?: QuietHours): T[] {
+  if (!quietHours) return flights;
+  const marked = flights.map((flight) => ({
+    ...flight,
+    quiet: isInQuietHours(flight, quietHours),
+  }));
+  return quietHours.mode === "hide"
+    ? marked.filter((flight) => !flight.quiet)
+    : marked;
+}
+
+/**
+ * Picks the next flight from now, preferring flights outside the quiet hours
+ */
+export function findNextFlight<T extends { time: number; quiet?: boolean }>(
+  flights: T[],
+  now = Date.now(),
+): T | undefined {
+  const upcoming = flights
+    .filter((flight) => flight.time >= now)
+    .sort((a, b) => a.time - b.time);
+  return upcoming.find((flight) => !flight.quiet) ?? upcoming[0];
+}
@@ -0,0 +1,146 @@
+import type { FlightData } from "../../types/flight-data";
+import { distanceKm, type Coordinates } from "./geo";
+import type { RouteFilters, RouteMetrics, RouteSortKey } from "./types";
+
+export const ROUTE_SORT_KEYS: RouteSortKey[] = [
+  "time",
+  "distance",
+  "duration",
+  "delay",
+];
+
+type FlightTimes = FlightData["time"];
+type FlightAirport = FlightData["airport"]["origin"];
+
+function minutesBetween(
+  from: number | null | undefined,
+  to: number | null | undefined,
+): number | undefined {
+  return from && to ? Math.round((to - from) / 60) : undefined;
+}
+
+/**
+ * Coordinates of an airport of the flight data, if included
+ */
+export function airportPosition(
+  airport: FlightAirport,
+): Coordinates | undefined {
+  return airport?.position
+    ? {
+        latitude: airport.position.latitude,
+        longitude: airport.position.longitude,
+      }
+    : undefined;
+}
+
+/**
+ * Computes the great-circle distance, durations and departure delay of a
+ * flight from its times and the coordinates of both ends
+ */
+export function computeRouteMetrics(
+  time: FlightTimes,
+  origin?: Coordinates,
+  destination?: Coordinates,
+): RouteMetrics {
+  return {
+    routeDistance:
+      origin && destination
+        ? Math.round(distanceKm(origin, destination))
+        : undefined,
+    scheduledDuration: minutesBetween(
+      time?.scheduled.departure,
+      time?.scheduled.arrival,
+    ),
+    actualDuration: time?.real.departure
+      ? minutesBetween(
+          time.real.departure,
+          time.real.arrival ?? time.estimated.arrival ?? time.other?.eta,
+        )
+      : undefined,
+    delay: minutesBetween(
+      time?.scheduled.departure,
+      time?.real.departure ?? time?.estimated.departure,
+    ),
+  };
+}
+
+/**
+ * Whether the route filters or the sort key need the route metrics, so
+ * operations on the live feed only look up airports when they are used
+ */
+export function usesRouteMetrics(
+  filters: RouteFilters = {},
+  sortBy: RouteSortKey = "time",
+): boolean {
+  return (
+    sortBy !== "time" ||
+    Object.values(filters).some((value) => value !== undefined)
+  );
+}
+
+function isWithin(
+  value: number | undefined,
+  min: number | undefined,
+  max: number | undefined,
+): boolean {
+  if (min === undefined && max === undefined) return true;
+  return (
+    value !== undefined &&
+    (min === undefined || value >= min) &&
+    (max === undefined || value <= max)
+  );
+}
+
+/**
+ * Keeps the flights meeting all route thresholds
+ */
+export function applyRouteFilters<T extends RouteMetrics>(
+  flights: T[],
+  filters: RouteFilters = {},
+): T[] {
+  return flights.filter(
+    (flight) =>
+      isWithin(
+        flight.routeDistance,
+        filters.minDistance,
+        filters.maxDistance,
+      ) &&
+      isWithin(
+        flight.scheduledDuration,
+        filters.minDuration,
+        filters.maxDuration,
+      ) &&
+      isWithin(flight.delay, filters.minDelay, undefined),
+  );
+}
+
+/**
+ * Sorts flights soonest first, or by the longest route, the longest
+ * scheduled duration or the largest delay. Flights missing the metric go last.
+ */
+export function sortByRouteMetric<T extends RouteMetrics>(
+  flights: T[],
+  sortBy: RouteSortKey,
+  timeOf: (flight: T) => number | undefined,
+): T[] {
+  const valueOf = (flight: T): number | undefined => {
+    switch (sortBy) {
+      case "time":
+        return timeOf(flight);
+      case "distance":
+        return flight.routeDistance;
+      case "duration":
+        return flight.scheduledDuration;
+      case "delay":
+        return flight.delay;
+    }
+  };
+  return flights.sort((a, b) => {
+    const first = valueOf(a);
+    const second = valueOf(b);
+    if (first === undefined || second === undefined) {
+      return Number(first === undefined) - Number(second === undefined);
+    }
+    return sortBy === "time" ? first - second : second - first;
+  });
+}
@@ -0,0 +1,52 @@
+import { aircraftTypeName } from "../../aircraft";
+import type { FlightData } from "../../types/flight-data";
+import type { AircraftFilters, ScheduledAircraft } from "./types";
+import { orUndefined } from "./utils";
+
+/**
+ * Reads the aircraft, airline and owner the schedules assign to a flight
+ */
+export function scheduledAircraft(data: FlightData): ScheduledAircraft {
+  const aircraftType = orUndefined(data.aircraft?.model.code);
+  const airline = orUndefined(data.airline?.name);
+  const owner = orUndefined(data.owner?.name);
+  return {
+    aircraftType,
+    model:
+      (aircraftType && aircraftTypeName(aircraftType)) ??
+      orUndefined(data.aircraft?.model.text),
+    registration: orUndefined(data.aircraft?.registration),
+    aircraftCountry: orUndefined(data.aircraft?.country.name),
+    airline,
+    airlineIcao: orUndefined(data.airline?.code.icao),
+    airlineIata: orUndefined(data.airline?.code.iata),
+    owner: owner !== airline ? owner : undefined,
+  };
+}
+
+/**
+ * Whether a flight is operated by one of the airlines, by ICAO designator or,
+ * for airlines without one, by IATA code
+ */
+function isOperatedBy(flight: ScheduledAircraft, airlines: string[]): boolean {
+  const code = flight.airlineIcao ?? flight.airlineIata;
+  return code !== undefined && airlines.includes(code.toUpperCase());
+}
+
+/**
+ * Keeps the flights on one of the aircraft types and operated by one of the
+ * airlines of the filters
+ */
+export function applyAircraftFilters<T extends ScheduledAircraft>(
+  flights: T[],
+  filters: AircraftFilters = {},
+): T[] {
+  const { aircraftTypes, airlines } = filters;
+  return flights.filter(
+    (flight) =>
+      (!aircraftTypes?.length ||
+        (flight.aircraftType !== undefined &&
+          aircraftTypes.includes(flight.aircraftType.toUpperCase()))) &&
+      (!airlines?.length || isOperatedBy(flight, airlines)),
+  );
+}
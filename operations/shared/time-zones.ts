@@ -0,0 +1,110 @@
+import type { TimeZoneSetting } from "./types";
+
+// Zone of the machine running the scan
+export const USER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string is an IANA time zone name known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a setting to the IANA zone to use for a flight, falling back to
+ * the user's zone when the airport's zone is unknown
+ */
+export function resolveTimeZone(
+  setting: TimeZoneSetting = "local",
+  airportTimeZone?: string,
+): string {
+  switch (setting) {
+    case "airport":
+      return airportTimeZone ?? USER_TIME_ZONE;
+    case "utc":
+      return "UTC";
+    case "local":
+      return USER_TIME_ZONE;
+    default:
+      return setting;
+  }
+}
+
+/**
+ * Wall clock date and time of a timestamp in a zone
+ */
+export function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(timestamp)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ""),
+  };
+}
+
+/**
+ * Offset of a zone from UTC at a timestamp, in milliseconds
+ */
+function getOffsetMs(timestamp: number, timeZone: string): number {
+  const { year, month, day, hour, minute } = getZonedParts(timestamp, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  return wallClock - (timestamp - (timestamp % (60 * 1000)));
+}
+
+/**
+ * Timestamp of midnight starting the given day in a zone, days may be out of
+ * range to move across months
+ */
+export function zonedMidnight(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string,
+): number {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  // Correct the guess with the offset in effect at it to handle DST changes
+  const guess = utcMidnight - getOffsetMs(utcMidnight, timeZone);
+  return utcMidnight - getOffsetMs(guess, timeZone);
+}
@@ -1,13 +1,68 @@
+import type { AirlineInfo } from "../../providers";
+
 // Base flight entry interface that can be extended for specific use cases
 export interface BaseFlightEntry {
   live: boolean;
   status: "arrived" | "departed" | "scheduled";
   code: string;
   time: number;
+  // IANA time zone of the airport the time refers to, if known
+  timeZone?: string;
+  // Set when quiet hours are configured and the flight falls into them
+  quiet?: boolean;
+}
+
+// Route length, duration and delay of a flight, where known
+export interface RouteMetrics {
+  routeDistance?: number; // great-circle km
+  scheduledDuration?: number; // minutes
+  // Real or estimated minutes in the air, once departed
+  actualDuration?: number;
+  delay?: number; // departure delay in minutes, negative when early
+}
+
+// Thresholds on the route metrics, flights missing a metric are dropped
+export interface RouteFilters {
+  minDistance?: number; // km
+  maxDistance?: number;
+  minDuration?: number; // scheduled minutes
+  maxDuration?: number;
+  minDelay?: number; // minutes
+}
+
+// Order of flight lists: soonest first, or longest/most delayed first
+export type RouteSortKey = "time" | "distance" | "duration" | "delay";
+
+// Aircraft and operator the schedules assign to a flight, where known
+export interface ScheduledAircraft {
+  aircraftType?: string; // ICAO type designator
+  // Manufacturer and model from the catalog, else the schedules' model text
+  model?: string;
+  registration?: string;
+  // Country the aircraft is registered in
+  aircraftCountry?: string;
+  airline?: string;
+  // Designators of the operating airline
+  airlineIcao?: string;
+  airlineIata?: string;
+  // Owner of the aircraft when it differs from the operating airline
+  owner?: string;
+}
+
+// Aircraft and airline criteria, flights missing the field are dropped
+export interface AircraftFilters {
+  // ICAO type designators
+  aircraftTypes?: string[];
+  // Airline ICAO or IATA designators. Flights match on their ICAO designator,
+  // or on their IATA code when the schedules list none
+  airlines?: string[];
 }
 
 // Forward lookup flight entry (from source to destinations)
-export interface ForwardFlightEntry extends BaseFlightEntry {
+export interface ForwardFlightEntry
+  extends BaseFlightEntry,
+    RouteMetrics,
+    ScheduledAircraft {
   destination: {
     country?: { name?: string };
     code?: string;
@@ -16,7 +71,10 @@ export interface ForwardFlightEntry extends BaseFlightEntry {
 }
 
 // Backward lookup flight entry (from origins to target)
-export interface BackwardFlightEntry extends BaseFlightEntry {
+export interface BackwardFlightEntry
+  extends BaseFlightEntry,
+    RouteMetrics,
+    ScheduledAircraft {
   target: string;
   origin: {
     country?: string;
@@ -30,21 +88,181 @@ export interface BackwardFlightEntry extends BaseFlightEntry {
 }
 
 // Aircraft-based flight entry (for flights-by-type operations)
-export interface AircraftFlightEntry extends BaseFlightEntry {
+export interface AircraftFlightEntry extends BaseFlightEntry, RouteMetrics {
+  // Flight id of the live feed
+  id: string;
   closestAirport: { name: string; code: string; distance: number };
   onGround: boolean;
   coordinates: [number | null, number | null];
+  // Manufacturer and model from the aircraft type catalog
+  model?: string;
   registration: string;
+  flightNumber?: string;
+  airline?: string;
   origin?: string;
   destination?: string;
 }
 
+// Live flight entry of an area search, code is the aircraft type
+export interface AreaFlightEntry extends BaseFlightEntry, RouteMetrics {
+  onGround: boolean;
+  coordinates: [number, number];
+  // Distance from the centre of the searched area in km
+  distance: number;
+  altitude: number; // feet
+  groundSpeed: number; // knots
+  registration?: string;
+  flightNumber?: string;
+  airline?: string;
+  origin?: string;
+  destination?: string;
+}
+
+// How a flight touches a country
+export type CountryTouch = "departing" | "arriving" | "overflying";
+
+// Flight touching a country of a coverage search
+export interface CoverageFlightEntry extends BaseFlightEntry {
+  country: string; // flightradar24 slug
+  touch: CountryTouch;
+  origin?: string;
+  destination?: string;
+  // City at the other end of a departing or arriving flight
+  otherCity?: string;
+  // When the flight is airborne and can be caught
+  catchableAt: number;
+  aircraftType?: string;
+  registration?: string;
+}
+
+// Flights touching a country, soonest catchable first
+export interface CountryCoverage {
+  country: string;
+  airports: string[];
+  flights: CoverageFlightEntry[];
+  nextCatchableAt?: number;
+}
+
+// A flight of a planned route with its times in milliseconds
+export interface PlannedFlight {
+  code: string;
+  status: "arrived" | "departed" | "scheduled";
+  origin: string;
+  destination: string;
+  airline?: string;
+  aircraftType?: string;
+  registration?: string;
+  departureTime?: number;
+  departureTimeZone?: string;
+  arrivalTime?: number;
+  arrivalTimeZone?: string;
+  // Scheduled gate to gate time in minutes
+  blockMinutes?: number;
+}
+
+// One direction of a planned route
+export interface RouteLeg {
+  origin: string;
+  destination: string;
+  airborne: PlannedFlight[];
+  next?: PlannedFlight;
+  // Departures found within the planned days
+  departures: number;
+}
+
+// Both directions of an airport pair, planned to catch the route
+export interface RoutePlan {
+  source: string;
+  destination: string;
+  // Great-circle distance between the airports in km
+  distance?: number;
+  blockMinutes?: number;
+  legs: RouteLeg[];
+  // Soonest time a flight of any leg is airborne and can be caught
+  nextCatchableAt?: number;
+  // Neither airborne flights nor departures within the planned days
+  noService: boolean;
+}
+
+// An airframe to follow, by registration or ICAO 24-bit address
+export interface AirframeId {
+  by: "registration" | "hex";
+  code: string;
+}
+
+// Where an airframe is now, what it flew and where it goes next
+export interface AirframeStatus {
+  airframe: AirframeId;
+  registration?: string;
+  hex?: string;
+  aircraftType?: string;
+  airline?: string;
+  // Last position in the live feed, absent when the aircraft is not in it
+  position?: {
+    latitude: number;
+    longitude: number;
+    altitude: number; // feet
+    groundSpeed: number; // knots
+    onGround: boolean;
+    seenAt: number;
+  };
+  // Flight in progress, absent when the aircraft is not in the live feed
+  currentFlight?: PlannedFlight;
+  // Earlier flights, most recent first
+  history: PlannedFlight[];
+  // Upcoming departure the schedules assign to the registration
+  nextDeparture?: PlannedFlight;
+}
+
+// Connecting flights from a home airport to a target airport
+export interface Itinerary {
+  origin: string;
+  destination: string;
+  // Connecting airports in order, empty for direct flights
+  stops: string[];
+  legs: PlannedFlight[];
+  departureTime: number;
+  arrivalTime: number;
+  // Minutes on the ground at each stop
+  connections: number[];
+}
+
+// A connecting airport feeding target airports
+export interface ReachHub {
+  code: string;
+  itineraries: number;
+  targets: string[];
+  // Soonest arrival at a target through the hub
+  earliestArrival: number;
+}
+
 // Generic flight entry that can represent any direction or type
 export type FlightEntry =
   | ForwardFlightEntry
   | BackwardFlightEntry
   | AircraftFlightEntry;
 
+// Zone times are evaluated and shown in: the airport's, UTC, the user's or
+// an IANA zone name
+export type TimeZoneSetting = "airport" | "utc" | "local" | (string & {});
+
+// Hours of the day to avoid spotting, may wrap around midnight
+export interface QuietHours {
+  start: number; // minutes after midnight
+  end: number;
+  // Zone the hours are evaluated in, the user's by default
+  timeZone?: TimeZoneSetting;
+  // Mark flights in the quiet hours or hide them entirely
+  mode?: "mark" | "hide";
+}
+
+// Time range of an airport schedule to fetch, relative to now
+export interface ScheduleWindow {
+  hoursBack?: number;
+  // All upcoming pages the endpoint has if not set
+  hoursForward?: number;
+}
+
 // Time window for analysis
 export interface TimeWindow<T extends BaseFlightEntry = BaseFlightEntry> {
   start: number;
@@ -78,5 +296,28 @@ export interface AirportDiversity {
   distinctDestinations: number;
   totalFlights: number;
   nextFlightTime: number;
+  // Only flights in the quiet hours are left
+  nextFlightQuiet?: boolean;
   destinations: Set<string>;
 }
+
+// Airline of the airline list with the ICAO designator the live feed
+// filters by
+export type OperatorAirline = AirlineInfo & { icao: string };
+
+// Flights of an airline goal, airborne now and departing from the chosen
+// airports, with the fleet and routes they reveal
+export interface OperatorSummary {
+  airline: string; // ICAO designator
+  name: string;
+  iata?: string;
+  // Aircraft in the fleet according to the airline list
+  fleetSize?: number;
+  airborne: PlannedFlight[];
+  // Upcoming departures, soonest first
+  departures: PlannedFlight[];
+  // Aircraft types of all flights found, most flights first
+  fleet: { aircraftType: string; flights: number }[];
+  // Routes of all flights found, most flights first
+  routes: { origin: string; destination: string; flights: number }[];
+}
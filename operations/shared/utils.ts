@@ -1,14 +1,45 @@
 import chalk, { type ChalkInstance } from "chalk";
+import type { Novelty } from "../../collection/types";
+import {
+  USER_TIME_ZONE,
+  getZonedParts,
+  resolveTimeZone,
+  zonedMidnight,
+} from "./time-zones";
+import type { RouteMetrics, ScheduledAircraft, TimeZoneSetting } from "./types";
 
 /**
- * Formats a date to DD.MM. HH:MM format
+ * Formats a date to DD.MM. HH:MM format, in the user's zone by default
  */
-export function formatTime(date: Date): string {
-  const day = String(date.getDate()).padStart(2, "0");
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const hours = String(date.getHours()).padStart(2, "0");
-  const minutes = String(date.getMinutes()).padStart(2, "0");
-  return `${day}.${month}. ${hours}:${minutes}`;
+export function formatTime(date: Date, timeZone = USER_TIME_ZONE): string {
+  const parts = getZonedParts(date.getTime(), timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(parts.day)}.${pad(parts.month)}. ${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Formats the time of a flight in the selected zone, followed by the
+ * airport's local time, or the user's time if the airport's is selected,
+ * when that differs
+ */
+export function formatFlightTime(
+  flight: { time: number; timeZone?: string },
+  setting: TimeZoneSetting = "local",
+): string {
+  const date = new Date(flight.time);
+  const primaryZone = resolveTimeZone(setting, flight.timeZone);
+  const primary = formatTime(date, primaryZone);
+  const [secondaryZone, label] =
+    setting === "airport"
+      ? [USER_TIME_ZONE, "yours"]
+      : [flight.timeZone, "local"];
+  if (!secondaryZone) return primary;
+
+  const secondary = formatTime(date, secondaryZone);
+  if (secondary === primary) return primary;
+  // Only repeat the date if it differs
+  const sameDay = secondary.slice(0, 6) === primary.slice(0, 6);
+  return `${primary} ${chalk.dim(`(${sameDay ? secondary.slice(7) : secondary} ${label})`)}`;
 }
 
 /**
@@ -27,6 +58,79 @@ export function getStatusColor(status: string): ChalkInstance {
   }
 }
 
+/**
+ * Returns a badge marking rows that are new to the collection
+ */
+export function formatNovelty(novelty: Novelty | undefined): string {
+  switch (novelty) {
+    case "new-type":
+      return chalk.bgGreen.black(" NEW TYPE ");
+    case "new-registration":
+      return chalk.green("new reg");
+    case "new-country":
+      return chalk.bgGreen.black(" NEW COUNTRY ");
+    case "new-airport":
+      return chalk.bgGreen.black(" NEW AIRPORT ");
+    case "new-route":
+      return chalk.green("new route");
+    case "duplicate":
+      return chalk.gray("caught");
+    default:
+      return "";
+  }
+}
+
+/**
+ * Returns a badge marking flights in the quiet hours
+ */
+export function formatQuiet(flight: { quiet?: boolean }): string {
+  return flight.quiet ? chalk.blue("💤 quiet") : "";
+}
+
+/**
+ * Formats the route distance, scheduled duration and delay of a flight,
+ * e.g. "14,499km 17h05m +25m"
+ */
+export function formatRouteMetrics(flight: RouteMetrics): string {
+  const parts: string[] = [];
+  if (flight.routeDistance !== undefined) {
+    parts.push(`${flight.routeDistance.toLocaleString("en-US")}km`);
+  }
+  if (flight.scheduledDuration !== undefined) {
+    const hours = Math.floor(flight.scheduledDuration / 60);
+    const minutes = String(flight.scheduledDuration % 60).padStart(2, "0");
+    parts.push(`${hours}h${minutes}m`);
+  }
+  if (flight.delay !== undefined && flight.delay !== 0) {
+    parts.push(`${flight.delay > 0 ? "+" : ""}${flight.delay}m`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Formats the aircraft type, registration and airline code the schedules
+ * assign to a flight, e.g. "A388 A6-EOB UAE". Airlines without an ICAO
+ * designator show their IATA code.
+ */
+export function formatScheduledAircraft(flight: ScheduledAircraft): string {
+  return [
+    flight.aircraftType,
+    flight.registration,
+    flight.airlineIcao ?? flight.airlineIata,
+  ]
+    .filter((part) => part !== undefined)
+    .join(" ");
+}
+
+/**
+ * Maps the "N/A" placeholder of the FlightRadar24 entities to undefined
+ */
+export function orUndefined(
+  value: string | null | undefined,
+): string | undefined {
+  return value && value !== "N/A" ? value : undefined;
+}
+
 /**
  * Sleep utility for delays between API calls
  */
@@ -35,24 +139,23 @@ export function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Gets the start and end timestamps for today
+ * Gets the start and end timestamps for today in a zone, the user's by default
  */
-export function getTodayBounds(): { start: number; end: number } {
-  const now = new Date();
-  const todayStart = new Date(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate(),
-  ).getTime();
-  const todayEnd = todayStart + 24 * 60 * 60 * 1000;
-
-  return { start: todayStart, end: todayEnd };
+export function getTodayBounds(timeZone = USER_TIME_ZONE): {
+  start: number;
+  end: number;
+} {
+  const { year, month, day } = getZonedParts(Date.now(), timeZone);
+  return {
+    start: zonedMidnight(year, month, day, timeZone),
+    end: zonedMidnight(year, month, day + 1, timeZone),
+  };
 }
 
 /**
- * Checks if a timestamp is within today's bounds
+ * Checks if a timestamp is within today's bounds in a zone
  */
-export function isToday(timestamp: number): boolean {
-  const { start, end } = getTodayBounds();
+export function isToday(timestamp: number, timeZone?: string): boolean {
+  const { start, end } = getTodayBounds(timeZone);
   return timestamp >= start && timestamp < end;
 }
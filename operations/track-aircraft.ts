@@ -0,0 +1,215 @@
+import chalk from "chalk";
+import type { Flight } from "flightradarapi";
+import type {
+  AircraftHistoryFlight,
+  FlightDataProvider,
+  FlightDetails,
+} from "../providers";
+import { getDepartures } from "./get-departures";
+import {
+  AIRFRAME_HISTORY_LIMIT,
+  DEFAULT_PLANNER_DAYS,
+  fetchLiveAirframe,
+  orUndefined,
+  transformToPlannedFlight,
+  type AirframeId,
+  type AirframeStatus,
+  type PlannedFlight,
+} from "./shared";
+
+export interface TrackAircraftOptions {
+  // Earlier flights listed per airframe
+  historyLimit?: number;
+}
+
+/**
+ * Normalizes a registration for comparisons, the feed and the schedules
+ * differ in hyphens
+ */
+function normalizeRegistration(registration: string): string {
+  return registration.replace(/-/g, "").toUpperCase();
+}
+
+/**
+ * Transforms an entry of the aircraft history to PlannedFlight format
+ */
+function transformHistoryFlight(
+  flight: AircraftHistoryFlight,
+  registration: string | undefined,
+): PlannedFlight {
+  const departure = flight.time.real.departure;
+  return {
+    code: flight.identification.number.default ?? "?",
+    status: "arrived",
+    origin: flight.airport.origin?.code?.iata ?? "?",
+    destination: flight.airport.destination?.code?.iata ?? "?",
+    registration,
+    departureTime: departure ? departure * 1000 : undefined,
+    departureTimeZone: flight.airport.origin?.timezone?.name,
+  };
+}
+
+/**
+ * Looks up the details of the airframe's live flight, or of any flight the
+ * search endpoint knows for it, to learn its history
+ */
+async function fetchAirframeDetails(
+  provider: FlightDataProvider,
+  airframe: AirframeId,
+  live: Flight | undefined,
+): Promise<FlightDetails | undefined> {
+  if (live) {
+    return provider.getFlightDetails(live.id);
+  }
+  const result = await provider.search(airframe.code);
+  const candidates = [...(result.live ?? []), ...(result.schedule ?? [])];
+  if (airframe.by === "registration") {
+    const known = candidates.find(
+      (flight) =>
+        flight.detail.reg !== undefined &&
+        normalizeRegistration(flight.detail.reg) ===
+          normalizeRegistration(airframe.code),
+    );
+    return known ? provider.getFlightDetails(known.id) : undefined;
+  }
+
+  // Search results carry no hex code, only the details tell the airframe
+  for (const flight of candidates) {
+    const details = await provider.getFlightDetails(flight.id);
+    if (details.aircraft?.hex?.toUpperCase() === airframe.code) {
+      return details;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the next departure the schedules of an airport assign to a
+ * registration
+ */
+async function predictNextDeparture(
+  provider: FlightDataProvider,
+  airport: string,
+  registration: string,
+): Promise<PlannedFlight | undefined> {
+  const departures = await getDepartures(provider, airport, {
+    hoursBack: 0,
+    hoursForward: DEFAULT_PLANNER_DAYS * 24,
+  });
+  return departures
+    .filter(
+      (flight) =>
+        flight.aircraft?.registration &&
+        normalizeRegistration(flight.aircraft.registration) ===
+          normalizeRegistration(registration),
+    )
+    .map((flight) =>
+      transformToPlannedFlight(
+        flight,
+        airport,
+        flight.airport.destination?.code?.iata ?? "?",
+      ),
+    )
+    .filter((flight) => flight.status === "scheduled")
+    .sort((a, b) => (a.departureTime ?? 0) - (b.departureTime ?? 0))[0];
+}
+
+/**
+ * Tracks one airframe: its live position and flight, the recent flights of
+ * the flight details and the next departure from where it is or lands
+ */
+async function trackAirframe(
+  provider: FlightDataProvider,
+  airframe: AirframeId,
+  historyLimit: number,
+): Promise<AirframeStatus> {
+  console.error(chalk.gray(`🔎 Tracking ${airframe.code}...`));
+  const live = await fetchLiveAirframe(provider, airframe);
+  const details = await fetchAirframeDetails(provider, airframe, live);
+
+  const registration =
+    orUndefined(live?.registration) ?? details?.aircraft?.registration;
+  const currentFlight =
+    live && details
+      ? transformToPlannedFlight(
+          details,
+          details.airport.origin?.code?.iata ?? live.originAirportIata,
+          details.airport.destination?.code?.iata ??
+            live.destinationAirportIata,
+        )
+      : undefined;
+  // The history includes the current flight and upcoming ones
+  const history = (details?.flightHistory?.aircraft ?? [])
+    .filter(
+      (flight) =>
+        flight.identification.id !== live?.id &&
+        flight.time.real.departure != null,
+    )
+    .map((flight) => transformHistoryFlight(flight, registration))
+    .slice(0, historyLimit);
+
+  // A flight that has not departed yet is the next departure itself,
+  // otherwise the aircraft departs next from where it is heading or parked
+  let nextDeparture: PlannedFlight | undefined;
+  if (currentFlight?.status === "scheduled") {
+    nextDeparture = currentFlight;
+  } else {
+    const station = currentFlight?.destination ?? history[0]?.destination;
+    if (registration && station && station !== "?") {
+      try {
+        nextDeparture = await predictNextDeparture(
+          provider,
+          station,
+          registration,
+        );
+      } catch (error) {
+        console.error(
+          chalk.red(`Failed to fetch departures of ${station}: ${error}`),
+        );
+      }
+    }
+  }
+
+  return {
+    airframe,
+    registration,
+    hex: orUndefined(live?.icao24bit) ?? details?.aircraft?.hex,
+    aircraftType:
+      orUndefined(live?.aircraftCode) ?? details?.aircraft?.model.code,
+    airline: details?.airline?.name ?? orUndefined(live?.airlineIcao),
+    position: live && {
+      latitude: live.latitude,
+      longitude: live.longitude,
+      altitude: live.altitude,
+      groundSpeed: live.groundSpeed,
+      onGround: live.onGround !== 0,
+      seenAt: live.time * 1000,
+    },
+    currentFlight,
+    history,
+    nextDeparture,
+  };
+}
+
+/**
+ * Aircraft tracker: Follows airframes by registration or ICAO 24-bit
+ * address, reporting their position, current flight, recent history and
+ * next scheduled departure
+ */
+export async function trackAircraft(
+  provider: FlightDataProvider,
+  airframes: AirframeId[],
+  options: TrackAircraftOptions = {},
+): Promise<AirframeStatus[]> {
+  const { historyLimit = AIRFRAME_HISTORY_LIMIT } = options;
+  return Promise.all(
+    airframes.map(async (airframe): Promise<AirframeStatus> => {
+      try {
+        return await trackAirframe(provider, airframe, historyLimit);
+      } catch (error) {
+        console.error(chalk.red(`Failed to track ${airframe.code}: ${error}`));
+        return { airframe, history: [] };
+      }
+    }),
+  );
+}
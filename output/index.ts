@@ -0,0 +1,4 @@
+// Re-export all output modules for convenient importing
+export * from "./types";
+export * from "./serialize";
+export * from "./write";
@@ -0,0 +1,67 @@
+/**
+ * Converts values JSON cannot represent, Sets become arrays and non-finite
+ * numbers (e.g. a missing next flight time) become null
+ */
+function toPlainValue(_key: string, value: unknown): unknown {
+  if (value instanceof Set) return Array.from(value);
+  if (typeof value === "number" && !Number.isFinite(value)) return null;
+  return value;
+}
+
+/**
+ * Serializes records as a pretty printed JSON array
+ */
+export function toJson(records: object[]): string {
+  return JSON.stringify(records, toPlainValue, 2) + "\n";
+}
+
+/**
+ * Serializes records as newline delimited JSON, one record per line
+ */
+export function toNdjson(records: object[]): string {
+  return records
+    .map((record) => JSON.stringify(record, toPlainValue) + "\n")
+    .join("");
+}
+
+/**
+ * Flattens nested objects into dotted keys, joining arrays of plain values
+ * with ";" and writing arrays of objects as JSON
+ */
+function flattenRecord(
+  record: object,
+  prefix = "",
+  row: Record<string, string> = {},
+): Record<string, string> {
+  for (const [key, raw] of Object.entries(record)) {
+    const name = prefix + key;
+    const value = toPlainValue(key, raw);
+    if (Array.isArray(value)) {
+      row[name] = value.some(
+        (item) => item !== null && typeof item === "object",
+      )
+        ? JSON.stringify(value, toPlainValue)
+        : value.map(String).join(";");
+    } else if (value !== null && typeof value === "object") {
+      flattenRecord(value, `${name}.`, row);
+    } else {
+      row[name] = value === null || value === undefined ? "" : String(value);
+    }
+  }
+  return row;
+}
+
+function escapeCsvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field;
+}
+
+/**
+ * Serializes records as CSV with a header row covering the keys of all records
+ */
+export function toCsv(records: object[]): string {
+  const rows = records.map((record) => flattenRecord(record));
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return [columns, ...rows.map((row) => columns.map((c) => row[c] ?? ""))]
+    .map((fields) => fields.map(escapeCsvField).join(",") + "\n")
+    .join("");
+}
@@ -0,0 +1,4 @@
+export const OUTPUT_FORMATS = ["table", "json", "ndjson", "csv"] as const;
+
+// How scan results are written to stdout, "table" is the colored rendering
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
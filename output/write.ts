@@ -0,0 +1,27 @@
+import type { OutputFormat } from "./types";
+import { toCsv, toJson, toNdjson } from "./serialize";
+
+/**
+ * Writes scan results in the requested format, rendering the colored table
+ * for the "table" format
+ */
+export function writeOutput<T extends object>(
+  format: OutputFormat,
+  records: T[],
+  renderTable: (records: T[]) => void,
+): void {
+  switch (format) {
+    case "table":
+      renderTable(records);
+      return;
+    case "json":
+      process.stdout.write(toJson(records));
+      return;
+    case "ndjson":
+      process.stdout.write(toNdjson(records));
+      return;
+    case "csv":
+      process.stdout.write(toCsv(records));
+      return;
+  }
+}
@@ -0,0 +1,87 @@
+import chalk from "chalk";
+import { fixturePath, readFixture, writeFixture } from "./fixtures";
+import { interceptProvider } from "./intercept";
+import { responseCodecs } from "./serialization";
+import type { FlightDataProvider, ProviderMethod } from "./types";
+
+// How volatile the data of a request is, deciding how long it may be cached
+export type CacheKind = "airport" | "schedule" | "live";
+
+export const CACHE_KIND_OF_METHOD: Record<ProviderMethod, CacheKind> = {
+  getAirport: "airport",
+  getAirports: "airport",
+  getAirportDetails: "schedule",
+  getFlights: "live",
+  getFlightDetails: "live",
+  search: "live",
+  getZones: "airport",
+  getAirlines: "airport",
+};
+
+export const DEFAULT_CACHE_TTL_MS: Record<CacheKind, number> = {
+  airport: 7 * 24 * 60 * 60 * 1000, // 7 days - airports rarely change
+  schedule: 10 * 60 * 1000, // 10 minutes
+  live: 30 * 1000, // 30 seconds
+};
+
+export interface CacheOptions {
+  dir: string;
+  ttl?: Partial<Record<CacheKind, number>>;
+  // Ignore cached responses, but still store the fresh ones
+  refresh?: boolean;
+}
+
+// Cache hits and misses per kind of request
+export type CacheStats = Record<CacheKind, { hits: number; misses: number }>;
+
+export function createCacheStats(): CacheStats {
+  return {
+    airport: { hits: 0, misses: 0 },
+    schedule: { hits: 0, misses: 0 },
+    live: { hits: 0, misses: 0 },
+  };
+}
+
+/**
+ * Provider caching responses on disk, keyed by method and arguments
+ */
+export function createCachingProvider(
+  inner: FlightDataProvider,
+  options: CacheOptions,
+  stats: CacheStats = createCacheStats(),
+): FlightDataProvider {
+  const ttl = { ...DEFAULT_CACHE_TTL_MS, ...options.ttl };
+
+  return interceptProvider(inner, async (method, args, next) => {
+    const kind = CACHE_KIND_OF_METHOD[method];
+    const path = fixturePath(options.dir, method, args);
+
+    if (!options.refresh) {
+      const cached = await readFixture(path);
+      if (
+        cached &&
+        Date.now() - new Date(cached.recordedAt).getTime() < ttl[kind]
+      ) {
+        stats[kind].hits++;
+        return responseCodecs[method].decode(cached.response);
+      }
+    }
+
+    stats[kind].misses++;
+    const response = await next();
+    await writeFixture(path, method, args, response);
+    return response;
+  });
+}
+
+/**
+ * Display cache hits and misses of a run
+ */
+export function displayCacheStats(stats: CacheStats): void {
+  const parts = Object.entries(stats)
+    .filter(([, { hits, misses }]) => hits + misses > 0)
+    .map(([kind, { hits, misses }]) => `${kind} ${hits} hit/${misses} miss`);
+  if (parts.length > 0) {
+    console.error(chalk.gray(`💾 Cache: ${parts.join(", ")}`));
+  }
+}
@@ -0,0 +1,99 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { writeJsonFile } from "../store";
+import { interceptProvider } from "./intercept";
+import { requestKey, responseCodecs } from "./serialization";
+import type { FlightDataProvider, ProviderMethod } from "./types";
+
+// A recorded provider response as stored on disk
+export interface Fixture {
+  method: ProviderMethod;
+  args: unknown[];
+  recordedAt: string;
+  response: unknown;
+}
+
+/**
+ * Error raised when the replay provider has no recording for a request
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly path: string) {
+    super(`No recorded response at ${path}`);
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+/**
+ * Path of the recording of a request inside a fixture directory
+ */
+export function fixturePath(
+  dir: string,
+  method: ProviderMethod,
+  args: unknown[],
+): string {
+  return join(dir, `${requestKey(method, args)}.json`);
+}
+
+/**
+ * Reads a recorded response, returning null if there is none
+ */
+export async function readFixture(path: string): Promise<Fixture | null> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as Fixture;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return null;
+    }
+    throw new Error(`Failed to read fixture ${path}: ${error}`);
+  }
+}
+
+/**
+ * Records a response, encoding entity instances as plain JSON
+ */
+export async function writeFixture(
+  path: string,
+  method: ProviderMethod,
+  args: unknown[],
+  response: unknown,
+): Promise<void> {
+  const fixture: Fixture = {
+    method,
+    args,
+    recordedAt: new Date().toISOString(),
+    response: responseCodecs[method].encode(response),
+  };
+  await writeJsonFile(path, fixture);
+}
+
+/**
+ * Provider serving responses recorded by the recording provider, so every
+ * operation can run offline and deterministically
+ */
+export function createReplayProvider(dir: string): FlightDataProvider {
+  // Requests never reach a wrapped provider, every response comes from disk
+  const inner = {} as FlightDataProvider;
+
+  return interceptProvider(inner, async (method, args) => {
+    const path = fixturePath(dir, method, args);
+    const fixture = await readFixture(path);
+    if (!fixture) {
+      throw new FixtureNotFoundError(path);
+    }
+    return responseCodecs[method].decode(fixture.response);
+  });
+}
+
+/**
+ * Provider recording every response of the wrapped provider to disk
+ */
+export function createRecordingProvider(
+  inner: FlightDataProvider,
+  dir: string,
+): FlightDataProvider {
+  return interceptProvider(inner, async (method, args, next) => {
+    const response = await next();
+    await writeFixture(fixturePath(dir, method, args), method, args, response);
+    return response;
+  });
+}
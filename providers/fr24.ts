@@ -0,0 +1,55 @@
+import { FlightRadar24API, type Flight } from "flightradarapi";
+import type {
+  AirlineInfo,
+  AirportDetailsResponse,
+  FlightDataProvider,
+  FlightDetails,
+  SearchResult,
+  Zone,
+} from "./types";
+
+// Row of the airline list as parsed by flightradarapi
+interface AirlineRow {
+  Name: string;
+  ICAO: string | null;
+  IATA: string | null;
+  n_aircrafts: number | null;
+}
+
+/**
+ * Provider backed by the live FlightRadar24 API
+ */
+export function createFr24Provider(
+  api = new FlightRadar24API(),
+): FlightDataProvider {
+  return {
+    getAirport: (code) => api.getAirport(code),
+    getAirports: (countries) => api.getAirports(countries),
+    getAirportDetails: async (code, limit, page) =>
+      (await api.getAirportDetails(
+        code,
+        limit,
+        page,
+      )) as AirportDetailsResponse,
+    getFlights: (query) =>
+      api.getFlights(
+        query.airline ?? null,
+        query.bounds ?? null,
+        query.registration ?? null,
+        query.aircraftType ?? null,
+      ),
+    getFlightDetails: async (flightId) =>
+      (await api.getFlightDetails({ id: flightId } as Flight)) as FlightDetails,
+    search: async (query) => (await api.search(query)) as SearchResult,
+    getZones: async () => (await api.getZones()) as Record<string, Zone>,
+    getAirlines: async () =>
+      ((await api.getAirlines()) as AirlineRow[]).map((row): AirlineInfo => ({
+        name: row.Name,
+        icao: row.ICAO ?? undefined,
+        iata: row.IATA ?? undefined,
+        fleetSize: Number.isNaN(row.n_aircrafts)
+          ? undefined
+          : (row.n_aircrafts ?? undefined),
+      })),
+  };
+}
@@ -0,0 +1,8 @@
+// Re-export all provider modules for convenient importing
+export * from "./types";
+export * from "./intercept";
+export * from "./serialization";
+export * from "./fr24";
+export * from "./fixtures";
+export * from "./cache";
+export * from "./scheduler";
@@ -0,0 +1,35 @@
+import {
+  PROVIDER_METHODS,
+  type FlightDataProvider,
+  type ProviderMethod,
+} from "./types";
+
+/**
+ * Hook called for every provider request, deciding whether and how the
+ * wrapped provider is called
+ */
+export type Interceptor = (
+  method: ProviderMethod,
+  args: unknown[],
+  next: () => Promise<unknown>,
+) => Promise<unknown>;
+
+/**
+ * Wraps a provider so that every request passes through an interceptor
+ */
+export function interceptProvider(
+  inner: FlightDataProvider,
+  interceptor: Interceptor,
+): FlightDataProvider {
+  const call = inner as unknown as Record<
+    ProviderMethod,
+    (...args: unknown[]) => Promise<unknown>
+  >;
+  return Object.fromEntries(
+    PROVIDER_METHODS.map((method) => [
+      method,
+      (...args: unknown[]) =>
+        interceptor(method, args, () => call[method](...args)),
+    ]),
+  ) as unknown as FlightDataProvider;
+}
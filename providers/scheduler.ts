@@ -0,0 +1,262 @@
+import chalk from "chalk";
+import pLimit from "p-limit";
+import {
+  CIRCUIT_BREAKER_COOLDOWN_MS,
+  CIRCUIT_BREAKER_THRESHOLD,
+  EXPONENTIAL_BACKOFF_BASE_MS,
+  EXPONENTIAL_BACKOFF_MULTIPLIER,
+  MAX_CONCURRENT_REQUESTS,
+  MAX_RETRY_AFTER_MS,
+  MAX_RETRY_ATTEMPTS,
+  REQUEST_BURST,
+  REQUESTS_PER_SECOND,
+} from "../operations/shared/constants";
+import { sleep } from "../operations/shared/utils";
+import { interceptProvider } from "./intercept";
+import { requestKey } from "./serialization";
+import type { FlightDataProvider } from "./types";
+
+export interface SchedulerOptions {
+  requestsPerSecond: number;
+  burst: number;
+  maxConcurrent: number;
+  maxAttempts: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerCooldownMs: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  requestsPerSecond: REQUESTS_PER_SECOND,
+  burst: REQUEST_BURST,
+  maxConcurrent: MAX_CONCURRENT_REQUESTS,
+  maxAttempts: MAX_RETRY_ATTEMPTS,
+  circuitBreakerThreshold: CIRCUIT_BREAKER_THRESHOLD,
+  circuitBreakerCooldownMs: CIRCUIT_BREAKER_COOLDOWN_MS,
+};
+
+// Counters of a run, reported once a command has finished
+export interface SchedulerStats {
+  requests: number;
+  retries: number;
+  throttled: number;
+  throttledMs: number;
+  rateLimited: number;
+  failures: number;
+  rejected: number;
+}
+
+export function createSchedulerStats(): SchedulerStats {
+  return {
+    requests: 0,
+    retries: 0,
+    throttled: 0,
+    throttledMs: 0,
+    rateLimited: 0,
+    failures: 0,
+    rejected: 0,
+  };
+}
+
+/**
+ * Error raised without calling the API while the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: number) {
+    super(
+      `Too many consecutive API failures, not sending requests until ${new Date(retryAt).toLocaleTimeString()}`,
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Reads a property of an unknown thrown value, if it is an object
+ */
+function fieldOf(value: unknown, key: string): unknown {
+  return typeof value === "object" && value !== null
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Extracts the HTTP status code from an error of the FlightRadar24 API
+ */
+function statusCodeOf(error: unknown): number | undefined {
+  const status = fieldOf(fieldOf(error, "response"), "status");
+  if (typeof status === "number") {
+    return status;
+  }
+  const message = fieldOf(error, "message");
+  const match = /status code '(\d{3})/.exec(
+    typeof message === "string" ? message : String(error),
+  );
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Delay requested by the server through a Retry-After header, if any
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = fieldOf(fieldOf(error, "response"), "headers");
+  const get = fieldOf(headers, "get");
+  const header =
+    typeof get === "function" ? get.call(headers, "retry-after") : undefined;
+  if (typeof header !== "string" || !header) return undefined;
+  const seconds = Number(header);
+  const delay = Number.isFinite(seconds)
+    ? seconds * 1000
+    : new Date(header).getTime() - Date.now();
+  return delay > 0 ? Math.min(delay, MAX_RETRY_AFTER_MS) : undefined;
+}
+
+const TIMEOUT_CODES = ["ETIMEDOUT", "ECONNRESET", "ECONNREFUSED", "EAI_AGAIN"];
+
+function isTimeout(error: unknown): boolean {
+  const code = fieldOf(error, "code");
+  return (
+    fieldOf(error, "name") === "AbortError" ||
+    fieldOf(error, "type") === "request-timeout" ||
+    (typeof code === "string" && TIMEOUT_CODES.includes(code))
+  );
+}
+
+/**
+ * Whether a failed request is worth retrying: rate limits, server errors
+ * (including Cloudflare's 520) and timeouts
+ */
+function isRetryable(error: unknown): boolean {
+  const status = statusCodeOf(error);
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  return isTimeout(error);
+}
+
+/**
+ * Exponential backoff with jitter, so concurrent retries do not line up
+ */
+function backoffMs(attempt: number): number {
+  const base =
+    EXPONENTIAL_BACKOFF_BASE_MS *
+    Math.pow(EXPONENTIAL_BACKOFF_MULTIPLIER, attempt - 1);
+  return Math.round(base * (0.5 + Math.random()));
+}
+
+/**
+ * Token bucket handing out the global request budget
+ */
+function createTokenBucket(ratePerSecond: number, capacity: number) {
+  let tokens = capacity;
+  let updatedAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(
+      capacity,
+      tokens + ((now - updatedAt) / 1000) * ratePerSecond,
+    );
+    updatedAt = now;
+  };
+
+  return {
+    // Takes a token, returning how long the caller has to wait for it
+    take(): number {
+      refill();
+      tokens -= 1;
+      return tokens >= 0 ? 0 : (-tokens / ratePerSecond) * 1000;
+    },
+  };
+}
+
+/**
+ * Provider sending every request through one scheduler with a global rate
+ * limit, concurrency limit, retries and a circuit breaker
+ */
+export function createScheduledProvider(
+  inner: FlightDataProvider,
+  options: Partial<SchedulerOptions> = {},
+  stats: SchedulerStats = createSchedulerStats(),
+): FlightDataProvider {
+  const config = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  const bucket = createTokenBucket(config.requestsPerSecond, config.burst);
+  const limit = pLimit(config.maxConcurrent);
+  let consecutiveFailures = 0;
+  let circuitOpenUntil = 0;
+
+  const send = async (next: () => Promise<unknown>) => {
+    const wait = bucket.take();
+    if (wait > 0) {
+      stats.throttled++;
+      stats.throttledMs += wait;
+      await sleep(wait);
+    }
+    stats.requests++;
+    return next();
+  };
+
+  return interceptProvider(inner, (method, args, next) =>
+    limit(async () => {
+      const label = requestKey(method, args);
+
+      for (let attempt = 1; ; attempt++) {
+        if (Date.now() < circuitOpenUntil) {
+          stats.rejected++;
+          throw new CircuitOpenError(circuitOpenUntil);
+        }
+
+        try {
+          const response = await send(next);
+          consecutiveFailures = 0;
+          return response;
+        } catch (error) {
+          // Only failures of the service count towards the circuit breaker
+          const retryable = isRetryable(error);
+          if (
+            retryable &&
+            ++consecutiveFailures >= config.circuitBreakerThreshold
+          ) {
+            circuitOpenUntil = Date.now() + config.circuitBreakerCooldownMs;
+          }
+
+          if (!retryable || attempt >= config.maxAttempts) {
+            stats.failures++;
+            throw error;
+          }
+
+          const status = statusCodeOf(error);
+          if (status === 429) {
+            stats.rateLimited++;
+          }
+          const delayMs = retryAfterMs(error) ?? backoffMs(attempt);
+          stats.retries++;
+          console.error(
+            chalk.red(
+              `Request ${label} failed (${status ?? "timeout"}). ` +
+                `Retrying in ${delayMs}ms... (Attempt ${attempt}/${config.maxAttempts})`,
+            ),
+          );
+          await sleep(delayMs);
+        }
+      }
+    }),
+  );
+}
+
+/**
+ * Display requests, retries and throttling of a run
+ */
+export function displaySchedulerStats(stats: SchedulerStats): void {
+  if (stats.requests === 0 && stats.rejected === 0) return;
+
+  const parts = [
+    `${stats.requests} request${stats.requests === 1 ? "" : "s"}`,
+    `${stats.retries} retr${stats.retries === 1 ? "y" : "ies"}`,
+    `${stats.throttled} throttled (${(stats.throttledMs / 1000).toFixed(1)}s)`,
+  ];
+  if (stats.rateLimited > 0) parts.push(`${stats.rateLimited} rate limited`);
+  if (stats.failures > 0) parts.push(`${stats.failures} failed`);
+  if (stats.rejected > 0)
+    parts.push(`${stats.rejected} rejected by circuit breaker`);
+
+  console.error(chalk.gray(`📡 API: ${parts.join(", ")}`));
+}
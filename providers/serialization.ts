@@ -0,0 +1,79 @@
+import { createHash } from "node:crypto";
+import { Airport, Flight } from "flightradarapi";
+import type { ProviderMethod } from "./types";
+
+interface Codec {
+  encode(value: unknown): unknown;
+  decode(value: unknown): unknown;
+}
+
+const identity: Codec = {
+  encode: (value) => value,
+  decode: (value) => value,
+};
+
+/**
+ * Restores an entity class instance from its plain JSON fields
+ */
+function hydrate<T extends object>(prototype: T, data: unknown): T {
+  return Object.assign(Object.create(prototype), data) as T;
+}
+
+const airportCodec: Codec = {
+  encode: (value) => ({ ...(value as Airport) }),
+  decode: (value) => hydrate(Airport.prototype, value),
+};
+
+const airportsCodec: Codec = {
+  encode: (value) => (value as Airport[]).map(airportCodec.encode),
+  decode: (value) => (value as unknown[]).map(airportCodec.decode),
+};
+
+const flightsCodec: Codec = {
+  encode: (value) => (value as Flight[]).map((flight) => ({ ...flight })),
+  decode: (value) =>
+    (value as unknown[]).map((flight) => hydrate(Flight.prototype, flight)),
+};
+
+/**
+ * JSON codecs for the response of every provider method
+ */
+export const responseCodecs: Record<ProviderMethod, Codec> = {
+  getAirport: airportCodec,
+  getAirports: airportsCodec,
+  getAirportDetails: identity,
+  getFlights: flightsCodec,
+  getFlightDetails: identity,
+  search: identity,
+  getZones: identity,
+  getAirlines: identity,
+};
+
+function describeArg(arg: unknown): string {
+  if (arg === null || arg === undefined) return "";
+  if (Array.isArray(arg)) return arg.map(describeArg).join(",");
+  if (typeof arg === "object") {
+    return Object.entries(arg)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${describeArg(value)}`)
+      .join("_");
+  }
+  return String(arg);
+}
+
+/**
+ * Stable, file name safe key identifying a request by method and arguments
+ */
+export function requestKey(method: ProviderMethod, args: unknown[]): string {
+  const description = args.map(describeArg).filter(Boolean).join("_");
+  const key = [method, description]
+    .filter(Boolean)
+    .join("_")
+    .replace(/[^A-Za-z0-9=.,-]/g, "_");
+  if (key.length <= 120) {
+    return key;
+  }
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 12);
+  return `${key.slice(0, 100)}_${hash}`;
+}
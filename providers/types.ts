@@ -0,0 +1,121 @@
+import type { Airport as FRAirport, Flight } from "flightradarapi";
+import type { Airport } from "../types/airport";
+import type { FlightData } from "../types/flight-data";
+
+// Filters supported by the live flight feed
+export interface FlightQuery {
+  airline?: string;
+  bounds?: string;
+  registration?: string;
+  aircraftType?: string;
+}
+
+// Rectangular area of the live feed, with nested areas for smaller regions
+export interface Zone {
+  tl_y: number;
+  tl_x: number;
+  br_y: number;
+  br_x: number;
+  subzones?: Record<string, Zone>;
+}
+
+// Airline of the flightradar24 airline list
+export interface AirlineInfo {
+  name: string;
+  icao?: string;
+  iata?: string;
+  // Aircraft in the airline's fleet, as listed
+  fleetSize?: number;
+}
+
+// Response of the airport details endpoint (schedules, stats, weather)
+export interface AirportDetailsResponse {
+  airport: Airport;
+}
+
+// Earlier flight of the same aircraft, listed with the flight details
+export interface AircraftHistoryFlight {
+  identification: {
+    id: string | null;
+    number: { default: string | null };
+  };
+  airport: Pick<FlightData["airport"], "origin" | "destination">;
+  time: { real: { departure: number | null } };
+}
+
+// Response of the flight details endpoint
+export type FlightDetails = FlightData & {
+  flightHistory?: {
+    aircraft?: AircraftHistoryFlight[];
+  };
+  trail?: {
+    lat: number;
+    lng: number;
+    alt: number;
+    spd: number;
+    ts: number;
+    hd: number;
+  }[];
+};
+
+// Flight entry of the search endpoint
+export interface SearchResultFlight {
+  id: string;
+  label: string;
+  detail: {
+    lat?: number;
+    lon?: number;
+    schd_from?: string;
+    schd_to?: string;
+    ac_type?: string;
+    route?: string;
+    logo?: string;
+    reg?: string;
+    callsign?: string;
+    flight?: string;
+    operator?: string;
+    operator_id?: number;
+  };
+  type: string;
+  match: string;
+}
+
+// Response of the search endpoint
+export interface SearchResult {
+  airport?: any[];
+  operator?: any[];
+  live?: SearchResultFlight[];
+  schedule?: SearchResultFlight[];
+  aircraft?: any[];
+}
+
+/**
+ * Source of flight data consumed by all operations
+ */
+export interface FlightDataProvider {
+  getAirport(code: string): Promise<FRAirport>;
+  getAirports(countries: string[]): Promise<FRAirport[]>;
+  getAirportDetails(
+    code: string,
+    limit: number,
+    page: number,
+  ): Promise<AirportDetailsResponse>;
+  getFlights(query: FlightQuery): Promise<Flight[]>;
+  getFlightDetails(flightId: string): Promise<FlightDetails>;
+  search(query: string): Promise<SearchResult>;
+  getZones(): Promise<Record<string, Zone>>;
+  getAirlines(): Promise<AirlineInfo[]>;
+}
+
+export type ProviderMethod = keyof FlightDataProvider;
+
+export const PROVIDER_METHODS: ProviderMethod[] = [
+  "getAirport",
+  "getAirports",
+  "getAirportDetails",
+  "getFlights",
+  "getFlightDetails",
+  "search",
+  "getZones",
+  "getAirlines",
+];
@@ -0,0 +1,4 @@
+// Re-export all region modules for convenient importing
+export * from "./types";
+export * from "./presets";
+export * from "./resolve";
@@ -0,0 +1,379 @@
+import type { RegionDefinition } from "./types";
+
+// Island regions have many airstrips with an IATA code but no scheduled
+// flights, so their airports are limited to those with traffic
+const ISLAND_FILTERS = { minFlights: 1 };
+
+/**
+ * Built-in regions, targeted with --region. Countries are flightradar24
+ * slugs as used in https://www.flightradar24.com/data/airports/<slug>
+ */
+export const REGION_PRESETS: Record<string, RegionDefinition> = {
+  // Oceania
+  australasia: {
+    description: "Australia and New Zealand",
+    countries: ["australia", "new-zealand"],
+  },
+  melanesia: {
+    description: "Fiji, New Caledonia, Papua New Guinea, Solomons, Vanuatu",
+    countries: [
+      "fiji",
+      "new-caledonia",
+      "papua-new-guinea",
+      "solomon-islands",
+      "vanuatu",
+    ],
+    ...ISLAND_FILTERS,
+  },
+  micronesia: {
+    description: "Guam, Kiribati, Marshall Islands, Micronesia, Nauru, Palau",
+    countries: [
+      "guam",
+      "kiribati",
+      "marshall-islands",
+      "micronesia",
+      "nauru",
+      "northern-mariana-islands",
+      "palau",
+    ],
+    // Wake Island and Midway Atoll
+    airports: ["AWK", "MDY"],
+    ...ISLAND_FILTERS,
+  },
+  polynesia: {
+    description: "Samoa, Tonga, Tuvalu, French Polynesia and the Cook Islands",
+    countries: [
+      "american-samoa",
+      "cook-islands",
+      "french-polynesia",
+      "niue",
+      "samoa",
+      "tonga",
+      "tuvalu",
+      "wallis-and-futuna",
+    ],
+    ...ISLAND_FILTERS,
+  },
+  oceania: {
+    description: "Pacific islands, without Australia and New Zealand",
+    regions: ["melanesia", "micronesia", "polynesia"],
+  },
+
+  // Asia
+  "central-asia": {
+    description: "Kazakhstan, Kyrgyzstan, Tajikistan, Turkmenistan, Uzbekistan",
+    countries: [
+      "kazakhstan",
+      "kyrgyzstan",
+      "tajikistan",
+      "turkmenistan",
+      "uzbekistan",
+    ],
+  },
+  "east-asia": {
+    description: "China, Japan, Korea, Mongolia and Taiwan",
+    countries: [
+      "china",
+      "hong-kong",
+      "japan",
+      "macao",
+      "mongolia",
+      "north-korea",
+      "south-korea",
+      "taiwan",
+    ],
+  },
+  "south-asia": {
+    description: "Indian subcontinent",
+    countries: [
+      "afghanistan",
+      "bangladesh",
+      "bhutan",
+      "india",
+      "maldives",
+      "nepal",
+      "pakistan",
+      "sri-lanka",
+    ],
+  },
+  "south-east-asia": {
+    description: "Indochina and the Malay archipelago",
+    countries: [
+      "brunei",
+      "cambodia",
+      "east-timor",
+      "indonesia",
+      "laos",
+      "malaysia",
+      "myanmar",
+      "philippines",
+      "singapore",
+      "thailand",
+      "vietnam",
+    ],
+  },
+  "middle-east": {
+    description: "Arabian peninsula, Levant, Iraq and Iran",
+    countries: [
+      "bahrain",
+      "iran",
+      "iraq",
+      "israel",
+      "jordan",
+      "kuwait",
+      "lebanon",
+      "oman",
+      "qatar",
+      "saudi-arabia",
+      "syria",
+      "united-arab-emirates",
+      "yemen",
+    ],
+  },
+  caucasus: {
+    description: "Armenia, Azerbaijan and Georgia",
+    countries: ["armenia", "azerbaijan", "georgia"],
+  },
+  asia: {
+    description: "All Asian sub-regions",
+    regions: [
+      "central-asia",
+      "east-asia",
+      "south-asia",
+      "south-east-asia",
+      "middle-east",
+      "caucasus",
+    ],
+  },
+
+  // Africa
+  "north-africa": {
+    description: "Maghreb, Egypt, Libya and Sudan",
+    countries: ["algeria", "egypt", "libya", "morocco", "sudan", "tunisia"],
+  },
+  "west-africa": {
+    description: "From Mauritania to Nigeria",
+    countries: [
+      "benin",
+      "burkina-faso",
+      "cape-verde",
+      "gambia",
+      "ghana",
+      "guinea",
+      "guinea-bissau",
+      "ivory-coast",
+      "liberia",
+      "mali",
+      "mauritania",
+      "niger",
+      "nigeria",
+      "senegal",
+      "sierra-leone",
+      "togo",
+    ],
+  },
+  "central-africa": {
+    description: "From Chad to Angola",
+    countries: [
+      "angola",
+      "cameroon",
+      "central-african-republic",
+      "chad",
+      "congo",
+      "democratic-republic-of-the-congo",
+      "equatorial-guinea",
+      "gabon",
+      "sao-tome-and-principe",
+    ],
+  },
+  "east-africa": {
+    description: "Horn of Africa, the Great Lakes and Indian Ocean islands",
+    countries: [
+      "burundi",
+      "comoros",
+      "djibouti",
+      "eritrea",
+      "ethiopia",
+      "kenya",
+      "madagascar",
+      "mauritius",
+      "reunion",
+      "rwanda",
+      "seychelles",
+      "somalia",
+      "south-sudan",
+      "tanzania",
+      "uganda",
+    ],
+  },
+  "southern-africa": {
+    description: "From Zambia to South Africa",
+    countries: [
+      "botswana",
+      "eswatini",
+      "lesotho",
+      "malawi",
+      "mozambique",
+      "namibia",
+      "south-africa",
+      "zambia",
+      "zimbabwe",
+    ],
+  },
+  africa: {
+    description: "All African sub-regions",
+    regions: [
+      "north-africa",
+      "west-africa",
+      "central-africa",
+      "east-africa",
+      "southern-africa",
+    ],
+  },
+
+  // Europe
+  "northern-europe": {
+    description: "Nordic and Baltic countries, the British Isles",
+    countries: [
+      "denmark",
+      "estonia",
+      "faroe-islands",
+      "finland",
+      "iceland",
+      "ireland",
+      "latvia",
+      "lithuania",
+      "norway",
+      "sweden",
+      "united-kingdom",
+    ],
+  },
+  "western-europe": {
+    description: "From France to Austria",
+    countries: [
+      "austria",
+      "belgium",
+      "france",
+      "germany",
+      "liechtenstein",
+      "luxembourg",
+      "monaco",
+      "netherlands",
+      "switzerland",
+    ],
+  },
+  "southern-europe": {
+    description: "Iberia, Italy, the Balkans, Greece and Turkey",
+    countries: [
+      "albania",
+      "bosnia-and-herzegovina",
+      "croatia",
+      "cyprus",
+      "greece",
+      "italy",
+      "kosovo",
+      "malta",
+      "montenegro",
+      "north-macedonia",
+      "portugal",
+      "serbia",
+      "slovenia",
+      "spain",
+      "turkey",
+    ],
+  },
+  "eastern-europe": {
+    description: "From Poland to Russia",
+    countries: [
+      "belarus",
+      "bulgaria",
+      "czech-republic",
+      "hungary",
+      "moldova",
+      "poland",
+      "romania",
+      "russia",
+      "slovakia",
+      "ukraine",
+    ],
+  },
+  europe: {
+    description: "All European sub-regions",
+    regions: [
+      "northern-europe",
+      "western-europe",
+      "southern-europe",
+      "eastern-europe",
+    ],
+  },
+
+  // Americas
+  caribbean: {
+    description: "Caribbean islands",
+    countries: [
+      "anguilla",
+      "antigua-and-barbuda",
+      "aruba",
+      "bahamas",
+      "barbados",
+      "cayman-islands",
+      "cuba",
+      "curacao",
+      "dominica",
+      "dominican-republic",
+      "grenada",
+      "guadeloupe",
+      "haiti",
+      "jamaica",
+      "martinique",
+      "puerto-rico",
+      "saint-kitts-and-nevis",
+      "saint-lucia",
+      "saint-vincent-and-the-grenadines",
+      "trinidad-and-tobago",
+      "turks-and-caicos-islands",
+      "virgin-islands-british",
+      "virgin-islands-us",
+    ],
+    ...ISLAND_FILTERS,
+  },
+  "central-america": {
+    description: "From Belize to Panama",
+    countries: [
+      "belize",
+      "costa-rica",
+      "el-salvador",
+      "guatemala",
+      "honduras",
+      "nicaragua",
+      "panama",
+    ],
+  },
+  "north-america": {
+    description: "Canada, the United States, Mexico and Greenland",
+    countries: ["canada", "greenland", "mexico", "united-states"],
+  },
+  "south-america": {
+    description: "South American countries",
+    countries: [
+      "argentina",
+      "bolivia",
+      "brazil",
+      "chile",
+      "colombia",
+      "ecuador",
+      "falkland-islands",
+      "french-guiana",
+      "guyana",
+      "paraguay",
+      "peru",
+      "suriname",
+      "uruguay",
+      "venezuela",
+    ],
+  },
+  americas: {
+    description: "All of North, Central and South America",
+    regions: ["north-america", "central-america", "caribbean", "south-america"],
+  },
+};
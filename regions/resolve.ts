@@ -0,0 +1,224 @@
+import chalk from "chalk";
+import {
+  airportsOfCountries,
+  type AirportFilters,
+} from "../operations/airports-of-countries";
+import type { FlightDataProvider } from "../providers";
+import { dataPath, readJsonFile, writeJsonFile } from "../store";
+import { REGION_PRESETS } from "./presets";
+import type { RegionDefinition, ResolvedRegion } from "./types";
+
+const REGION_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Airports rarely open or close
+
+// Airports of a country targeted by a campaign goal need scheduled flights
+const COUNTRY_FILTERS: AirportFilters = { minFlights: 1 };
+
+/**
+ * Error raised for unknown, cyclic or empty regions
+ */
+export class RegionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RegionError";
+  }
+}
+
+export interface RegionOptions {
+  // Custom regions, replacing presets of the same name
+  custom?: Record<string, RegionDefinition>;
+  // Resolve again even if the cached airports are still fresh
+  refresh?: boolean;
+}
+
+/**
+ * All known regions by lowercase name: the presets and custom regions
+ */
+export function listRegions(
+  custom: Record<string, RegionDefinition> = {},
+): Record<string, RegionDefinition> {
+  return {
+    ...REGION_PRESETS,
+    ...Object.fromEntries(
+      Object.entries(custom).map(([name, region]) => [
+        name.toLowerCase(),
+        region,
+      ]),
+    ),
+  };
+}
+
+/**
+ * Looks up a region by lowercase name, ignoring keys every object inherits
+ * such as "constructor"
+ */
+function findRegion(
+  regions: Record<string, RegionDefinition>,
+  name: string,
+): RegionDefinition | undefined {
+  return Object.hasOwn(regions, name) ? regions[name] : undefined;
+}
+
+/**
+ * Fingerprint of a region and all regions it includes, so that editing
+ * any of them invalidates the cached airports
+ */
+function fingerprint(
+  name: string,
+  regions: Record<string, RegionDefinition>,
+  path: string[] = [],
+): unknown {
+  if (path.includes(name)) {
+    throw new RegionError(
+      `Region "${name}" includes itself: ${[...path, name].join(" > ")}`,
+    );
+  }
+  const region = findRegion(regions, name);
+  if (!region) {
+    throw new RegionError(
+      `Unknown region "${name}". Known regions: ${Object.keys(regions).join(", ")}`,
+    );
+  }
+  const { description, ...definition } = region;
+  return {
+    ...definition,
+    regions: (region.regions ?? []).map((included) =>
+      fingerprint(included.toLowerCase(), regions, [...path, name]),
+    ),
+  };
+}
+
+/**
+ * Returns the cached airports of a region, resolving and caching them if
+ * the cache is missing, outdated or built from another definition
+ */
+async function cachedAirports(
+  path: string,
+  name: string,
+  definition: unknown,
+  refresh: boolean,
+  resolve: () => Promise<string[]>,
+): Promise<string[]> {
+  const key = JSON.stringify(definition);
+  if (!refresh) {
+    const cached = await readJsonFile<ResolvedRegion | null>(path, null);
+    if (
+      cached?.definition === key &&
+      Date.now() - Date.parse(cached.resolvedAt) < REGION_CACHE_TTL_MS
+    ) {
+      return cached.airports;
+    }
+  }
+
+  console.error(chalk.gray(`🗺️  Resolving the airports of ${name}...`));
+  const airports = await resolve();
+  if (airports.length === 0) {
+    throw new RegionError(`No airports found for ${name}`);
+  }
+  const resolved: ResolvedRegion = {
+    name,
+    definition: key,
+    resolvedAt: new Date().toISOString(),
+    airports,
+  };
+  await writeJsonFile(path, resolved);
+  return airports;
+}
+
+async function resolveNamedRegion(
+  provider: FlightDataProvider,
+  name: string,
+  regions: Record<string, RegionDefinition>,
+  refresh: boolean,
+): Promise<string[]> {
+  const region = findRegion(regions, name)!;
+  return cachedAirports(
+    dataPath("regions", `${encodeURIComponent(name)}.json`),
+    name,
+    fingerprint(name, regions),
+    refresh,
+    async () => {
+      const included: string[] = [];
+      for (const child of region.regions ?? []) {
+        included.push(
+          ...(await resolveNamedRegion(
+            provider,
+            child.toLowerCase(),
+            regions,
+            refresh,
+          )),
+        );
+      }
+      const countries = region.countries?.length
+        ? await airportsOfCountries(provider, region.countries, region)
+        : [];
+      return [
+        ...new Set([
+          ...(region.airports ?? []).map((code) => code.toUpperCase()),
+          ...countries,
+          ...included,
+        ]),
+      ];
+    },
+  );
+}
+
+/**
+ * Resolves a region by name to the codes of its airports
+ */
+export async function resolveRegion(
+  provider: FlightDataProvider,
+  name: string,
+  options: RegionOptions = {},
+): Promise<string[]> {
+  const regions = listRegions(options.custom);
+  const key = name.toLowerCase();
+  // Validates the name and the regions it includes before any request
+  fingerprint(key, regions);
+  return resolveNamedRegion(provider, key, regions, options.refresh ?? false);
+}
+
+/**
+ * Countries of a region and all regions it includes
+ */
+export function regionCountries(
+  name: string,
+  custom: Record<string, RegionDefinition> = {},
+): string[] {
+  const regions = listRegions(custom);
+  const collect = (key: string): string[] => {
+    const region = findRegion(regions, key)!;
+    return [
+      ...(region.countries ?? []),
+      ...(region.regions ?? []).flatMap((included) =>
+        collect(included.toLowerCase()),
+      ),
+    ];
+  };
+  fingerprint(name.toLowerCase(), regions);
+  return [...new Set(collect(name.toLowerCase()))];
+}
+
+/**
+ * Resolves countries (flightradar24 slugs) to the codes of their airports
+ * with scheduled flights
+ */
+export async function resolveCountryAirports(
+  provider: FlightDataProvider,
+  countries: string[],
+  options: Pick<RegionOptions, "refresh"> = {},
+): Promise<string[]> {
+  const airports: string[] = [];
+  for (const country of countries) {
+    const slug = country.toLowerCase();
+    airports.push(
+      ...(await cachedAirports(
+        dataPath("regions", "countries", `${encodeURIComponent(slug)}.json`),
+        `country "${slug}"`,
+        { countries: [slug], ...COUNTRY_FILTERS },
+        options.refresh ?? false,
+        () => airportsOfCountries(provider, [slug], COUNTRY_FILTERS),
+      )),
+    );
+  }
+  return airports;
+}
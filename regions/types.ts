@@ -0,0 +1,22 @@
+import type { AirportFilters } from "../operations/airports-of-countries";
+
+// A named set of airports, built from countries, other regions and
+// explicit airport codes. Filters apply to the airports of the countries
+export interface RegionDefinition extends AirportFilters {
+  description?: string;
+  // flightradar24 country slugs, e.g. "marshall-islands"
+  countries?: string[];
+  // Other regions included as a whole, e.g. "micronesia"
+  regions?: string[];
+  // IATA codes always included
+  airports?: string[];
+}
+
+// Airports of a region as cached in the data directory
+export interface ResolvedRegion {
+  name: string;
+  // Fingerprint of the definitions the airports were resolved from
+  definition: string;
+  resolvedAt: string;
+  airports: string[];
+}
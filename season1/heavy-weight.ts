@@ -1,14 +0,0 @@
-export default [
-  // "A346", // Airbus A340-600
-  // "A388", // Airbus A380
-  // "B742", // Boeing 747-200
-  // "B754", // Boeing 747-400
-  // "B748", // Boeing 747-8
-  // "B77W", // Boeing 777-300ER
-  // "C5M", // Locheed C-5 Super Galaxy
-  "A345", // Airbus A340-500
-  // "A124", // Antonov An-124 Ruslan
-  "B743", // Boeing 747-300
-  // "BLCF", // Boeing Dreamlifter
-  "SLCH", // Scaled 351 Stratolaunch
-];
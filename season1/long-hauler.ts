@@ -1,12 +0,0 @@
-export default [
-  // { source: "AKL", destination: "DOH" }, // Auckland <-> Doha
-  // { source: "AKL", destination: "DXB" }, // Auckland <-> Dubai
-  { source: "AKL", destination: "JFK" }, // Auckland <-> New York (JFK)
-  // { source: "SIN", destination: "LAX" }, // Singapore <-> Los Angeles
-  { source: "SIN", destination: "JFK" }, // Singapore <-> New York (JFK)
-  // { source: "SIN", destination: "EWR" }, // Singapore <-> New York (Newark)
-  { source: "PER", destination: "LHR" }, // Perth <-> London
-  { source: "PER", destination: "CDG" }, // Perth <-> Paris
-  { source: "DFW", destination: "MEL" }, // Dallas <-> Melbourne
-  { source: "SZX", destination: "MEX" }, // Shenzen <-> Mexiko
-];
@@ -1,14 +0,0 @@
-export default [
-  // "MRF1", // Dassault Mirage F1
-  "F15", // Boeing F15 Strike Eagle
-  "MIR2", // Dassault Mirage 2000
-  "MIRA", // Dassault Mirage III
-  "RFAL", // Dassault Rafale
-  "LCA", // Hindustan LCA Tejas
-  "F104", // Lockheed F-104 Starfighter
-  "F16", // Lockheed Martin F16 Fighting Falcon
-  "MG29", // Mikoyan Mig-29 Baaz
-  "TOR", // Panavia Tornado
-  "SB35", // SAAB 35 Draken
-  "SB37", // SAAB 37 Viggen
-];
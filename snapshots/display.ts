@@ -0,0 +1,91 @@
+import chalk from "chalk";
+import { formatTime } from "../operations/shared";
+import type { LiveSnapshot, RareAircraft, TypeRarity } from "./types";
+
+// Entries listed per count of a snapshot
+const TOP_COUNTS_TO_DISPLAY = 10;
+
+/**
+ * Formats the share of snapshots a type was seen in, e.g. "seen in 3% of
+ * 34 snapshots"
+ */
+function formatRarity(rarity: TypeRarity): string {
+  const snapshots = `${rarity.snapshots} snapshot${rarity.snapshots === 1 ? "" : "s"}`;
+  if (rarity.seenIn === 0) {
+    return `never seen in ${snapshots}`;
+  }
+  const percent = Math.round(rarity.share * 100);
+  return `seen in ${percent === 0 ? "<1" : percent}% of ${snapshots}`;
+}
+
+function displayTopCounts(title: string, counts: Record<string, number>) {
+  const top = Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_COUNTS_TO_DISPLAY);
+  console.log(
+    `${chalk.bold(title)} ${top.map(([key, count]) => `${chalk.cyan(key)} ${chalk.gray(count)}`).join(", ")}`,
+  );
+}
+
+/**
+ * Display the counts of a snapshot and the rarest aircraft in the air
+ */
+export function displaySnapshot(
+  snapshot: LiveSnapshot,
+  rare: RareAircraft[],
+): void {
+  console.log(
+    chalk.bold.cyan(`📸 SNAPSHOT ${formatTime(new Date(snapshot.takenAt))}`) +
+      chalk.gray(
+        ` ${snapshot.aircraft.toLocaleString()} aircraft, ${snapshot.airborne.toLocaleString()} airborne, ${snapshot.zones} zones`,
+      ),
+  );
+  if (snapshot.failedZones.length > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  Zones missing from the snapshot, so it was not stored: ${snapshot.failedZones.join(", ")}`,
+      ),
+    );
+  }
+  displayTopCounts("Types:", snapshot.aircraftTypes);
+  displayTopCounts("Operators:", snapshot.operators);
+  displayTopCounts("Countries:", snapshot.countries);
+
+  if (rare.length === 0) {
+    return;
+  }
+  console.log(chalk.bold.cyan("\n💎 RAREST IN THE AIR"));
+  rare.forEach((aircraft) => {
+    const nameStr = aircraft.model ? ` ${chalk.cyan(aircraft.model)}` : "";
+    const idStr = [
+      aircraft.registration,
+      aircraft.flightNumber,
+      aircraft.airline,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const routeStr =
+      aircraft.origin || aircraft.destination
+        ? ` ${chalk.blue(aircraft.origin ?? "?")} → ${chalk.blue(aircraft.destination ?? "?")}`
+        : "";
+    console.log(
+      `${chalk.cyan.bold(aircraft.aircraftType)}${nameStr} ${chalk.yellow(idStr)}${routeStr} ${chalk.gray(`[${aircraft.coordinates.map((c) => c.toFixed(3)).join(", ")}]`)} ${chalk.magenta(formatRarity(aircraft.rarity))}`,
+    );
+  });
+}
+
+/**
+ * Display the rarity of aircraft types across the stored snapshots
+ */
+export function displayTypeRarities(rarities: TypeRarity[]): void {
+  rarities.forEach((rarity) => {
+    const nameStr = rarity.model ? ` ${rarity.model}` : "";
+    const countStr =
+      rarity.seenIn > 0
+        ? ` ${chalk.gray(`(${rarity.averageCount.toFixed(1)} per snapshot)`)}`
+        : "";
+    console.log(
+      `  ${chalk.cyan(rarity.aircraftType.padEnd(6))}${nameStr} ${chalk.magenta(formatRarity(rarity))}${countStr}`,
+    );
+  });
+}
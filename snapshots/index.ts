@@ -0,0 +1,5 @@
+// Re-export all snapshot modules for convenient importing
+export * from "./types";
+export * from "./store";
+export * from "./rarity";
+export * from "./display";
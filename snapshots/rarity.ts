@@ -0,0 +1,85 @@
+import type { Flight } from "flightradarapi";
+import { aircraftTypeName } from "../aircraft";
+import { orUndefined } from "../operations/shared";
+import type { LiveSnapshot, RareAircraft, TypeRarity } from "./types";
+
+/**
+ * Rarity of every aircraft type seen in the snapshots, rarest first: the
+ * share of snapshots a type shows up in, then its average count
+ */
+export function typeRarities(snapshots: LiveSnapshot[]): TypeRarity[] {
+  const seen = new Map<string, { seenIn: number; total: number }>();
+  for (const snapshot of snapshots) {
+    for (const [aircraftType, count] of Object.entries(
+      snapshot.aircraftTypes,
+    )) {
+      const stats = seen.get(aircraftType) ?? { seenIn: 0, total: 0 };
+      stats.seenIn++;
+      stats.total += count;
+      seen.set(aircraftType, stats);
+    }
+  }
+  return [...seen.entries()]
+    .map(([aircraftType, { seenIn, total }]) => ({
+      aircraftType,
+      model: aircraftTypeName(aircraftType),
+      seenIn,
+      snapshots: snapshots.length,
+      share: seenIn / snapshots.length,
+      averageCount: total / seenIn,
+    }))
+    .sort((a, b) => a.share - b.share || a.averageCount - b.averageCount);
+}
+
+/**
+ * Rarity of a type none of the snapshots has seen
+ */
+export function unseenTypeRarity(
+  aircraftType: string,
+  snapshots: number,
+): TypeRarity {
+  return {
+    aircraftType,
+    model: aircraftTypeName(aircraftType),
+    seenIn: 0,
+    snapshots,
+    share: 0,
+    averageCount: 0,
+  };
+}
+
+/**
+ * The airborne aircraft of the feed whose types are the rarest, at most
+ * limit of them. Types the snapshots have never seen rank first.
+ */
+export function rarestAircraft(
+  flights: Flight[],
+  rarities: TypeRarity[],
+  limit: number,
+): RareAircraft[] {
+  const rarityOf = new Map(
+    rarities.map((rarity) => [rarity.aircraftType, rarity]),
+  );
+  const rank = new Map(
+    rarities.map((rarity, index) => [rarity.aircraftType, index]),
+  );
+  const snapshots = rarities[0]?.snapshots ?? 0;
+  const rankOf = (flight: Flight) => rank.get(flight.aircraftCode) ?? -1;
+  return flights
+    .filter((flight) => flight.onGround === 0 && flight.aircraftCode)
+    .sort((a, b) => rankOf(a) - rankOf(b))
+    .slice(0, limit)
+    .map((flight) => ({
+      aircraftType: flight.aircraftCode,
+      model: aircraftTypeName(flight.aircraftCode),
+      registration: orUndefined(flight.registration),
+      flightNumber: orUndefined(flight.number),
+      airline: orUndefined(flight.airlineIcao),
+      origin: orUndefined(flight.originAirportIata),
+      destination: orUndefined(flight.destinationAirportIata),
+      coordinates: [flight.latitude, flight.longitude],
+      rarity:
+        rarityOf.get(flight.aircraftCode) ??
+        unseenTypeRarity(flight.aircraftCode, snapshots),
+    }));
+}
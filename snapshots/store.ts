@@ -0,0 +1,50 @@
+import { readdir } from "node:fs/promises";
+import { dataPath, readJsonFile, writeJsonFile } from "../store";
+import type { LiveSnapshot } from "./types";
+
+function snapshotsDir(): string {
+  return dataPath("snapshots");
+}
+
+/**
+ * Whether every zone of the feed made it into a snapshot. Partial snapshots
+ * would count as misses for every type and skew the rarity scores.
+ */
+export function isCompleteSnapshot(snapshot: LiveSnapshot): boolean {
+  return snapshot.failedZones.length === 0 && snapshot.aircraft > 0;
+}
+
+/**
+ * Stores a snapshot in a file named after the time it was taken
+ */
+export async function saveSnapshot(snapshot: LiveSnapshot): Promise<void> {
+  const name = snapshot.takenAt.replace(/:/g, "-");
+  await writeJsonFile(dataPath("snapshots", `${name}.json`), snapshot);
+}
+
+/**
+ * Loads all stored complete snapshots, oldest first
+ */
+export async function loadSnapshots(): Promise<LiveSnapshot[]> {
+  let files: string[];
+  try {
+    files = await readdir(snapshotsDir());
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return [];
+    }
+    throw new Error(`Failed to list ${snapshotsDir()}: ${error}`);
+  }
+  const snapshots = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) =>
+        readJsonFile<LiveSnapshot | null>(dataPath("snapshots", file), null),
+      ),
+  );
+  return snapshots.filter(
+    (snapshot): snapshot is LiveSnapshot =>
+      snapshot !== null && isCompleteSnapshot(snapshot),
+  );
+}
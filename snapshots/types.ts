@@ -0,0 +1,41 @@
+// Counts of the whole live feed at one moment
+export interface LiveSnapshot {
+  takenAt: string;
+  // Zones of the feed searched, and those that failed
+  zones: number;
+  failedZones: string[];
+  // Distinct aircraft in the feed, on the ground or in the air
+  aircraft: number;
+  airborne: number;
+  // Aircraft per ICAO type designator
+  aircraftTypes: Record<string, number>;
+  // Aircraft per ICAO airline designator
+  operators: Record<string, number>;
+  // Aircraft per country of registration
+  countries: Record<string, number>;
+}
+
+// How often an aircraft type shows up in the stored snapshots
+export interface TypeRarity {
+  aircraftType: string;
+  model?: string;
+  // Snapshots the type was seen in, out of all stored
+  seenIn: number;
+  snapshots: number;
+  share: number; // seenIn / snapshots, 0 to 1
+  // Aircraft of the type per snapshot it was seen in
+  averageCount: number;
+}
+
+// Aircraft in the air right now with the rarity of its type
+export interface RareAircraft {
+  aircraftType: string;
+  model?: string;
+  registration?: string;
+  flightNumber?: string;
+  airline?: string;
+  origin?: string;
+  destination?: string;
+  coordinates: [number, number];
+  rarity: TypeRarity;
+}
@@ -0,0 +1,3 @@
+// Re-export all store modules for convenient importing
+export * from "./paths";
+export * from "./json-file";
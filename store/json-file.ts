@@ -0,0 +1,29 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * Reads a JSON file, returning the fallback if it does not exist yet
+ */
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return fallback;
+    }
+    throw new Error(`Failed to read ${path}: ${error}`);
+  }
+}
+
+/**
+ * Writes a JSON file atomically, creating parent directories as needed
+ */
+export async function writeJsonFile(
+  path: string,
+  data: unknown,
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(data, null, 2) + "\n");
+  await rename(tempPath, path);
+}
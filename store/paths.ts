@@ -0,0 +1,16 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Directory holding all local skycards data, overridable with SKYCARDS_HOME
+ */
+export function dataDir(): string {
+  return process.env.SKYCARDS_HOME ?? join(homedir(), ".skycards");
+}
+
+/**
+ * Path of a file inside the data directory
+ */
+export function dataPath(...segments: string[]): string {
+  return join(dataDir(), ...segments);
+}
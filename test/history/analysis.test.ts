@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { analyzeTypeHistories, type Observation } from "../../history";
+
+const observation = (
+  seenAt: string,
+  fields: Partial<Observation> = {},
+): Observation => ({
+  seenAt,
+  command: "types",
+  aircraftType: "AT76",
+  registration: "DQ-FJT",
+  latitude: -9.9,
+  longitude: 178.9,
+  onGround: false,
+  origin: "NAN",
+  destination: "FUN",
+  ...fields,
+});
+
+describe("analyzeTypeHistories", () => {
+  const [atr, otter] = analyzeTypeHistories(
+    [
+      // Two scans in the same hour count as one sighting
+      observation("2026-10-19T00:05:00.000Z"),
+      observation("2026-10-19T00:40:00.000Z"),
+      observation("2026-10-20T00:10:00.000Z"),
+      observation("2026-10-19T03:00:00.000Z", {
+        registration: "DQ-FJK",
+        origin: undefined,
+        destination: undefined,
+        onGround: true,
+        airport: "NAN",
+      }),
+      observation("2026-10-19T05:00:00.000Z", {
+        aircraftType: "DHC6",
+        registration: "T2-TLA",
+      }),
+    ],
+    "Pacific/Fiji",
+  );
+
+  test("counts sightings per type, most sighted first", () => {
+    expect(atr).toMatchObject({
+      aircraftType: "AT76",
+      sightings: 3,
+      aircraft: 2,
+      firstSeen: "2026-10-19T00:05:00.000Z",
+      lastSeen: "2026-10-20T00:10:00.000Z",
+    });
+    expect(otter?.aircraftType).toBe("DHC6");
+  });
+
+  test("finds the best hour and weekday in the zone", () => {
+    // Noon in Fiji, on Monday and Tuesday
+    expect(atr!.hours[12]).toBe(2);
+    expect(atr!.bestHour).toBe(12);
+    expect(atr!.weekdays[1]).toBe(2);
+    expect(atr!.bestWeekday).toBe(1);
+  });
+
+  test("counts routes and bases by days", () => {
+    expect(atr!.routes).toEqual([
+      { origin: "NAN", destination: "FUN", days: 2 },
+    ]);
+    expect(atr!.bases).toEqual([
+      { airport: "NAN", days: 3 },
+      { airport: "FUN", days: 2 },
+    ]);
+  });
+});
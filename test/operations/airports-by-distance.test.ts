@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import { airportsByDistance } from "../../operations/airports-by-distance";
+import { replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("airportsByDistance", () => {
+  test("sorts the origins of the arrivals by distance", async () => {
+    const { airports } = await airportsByDistance(
+      replayProvider(),
+      ["FUN"],
+      "TRW",
+      { timeZone: "airport" },
+    );
+    expect(
+      airports.map(({ code, flightCount }) => ({ code, flightCount })),
+    ).toEqual([
+      { code: "NAN", flightCount: 3 },
+      { code: "SUV", flightCount: 1 },
+    ]);
+    expect(airports[0]!.distance).toBeLessThan(airports[1]!.distance);
+  });
+
+  test("evaluates today in the zone asked for", async () => {
+    // FJ209 left Nadi at 11:10 local time, still yesterday in UTC
+    const { flightsByOrigin } = await airportsByDistance(
+      replayProvider(),
+      ["FUN"],
+      "TRW",
+      { timeZone: "utc" },
+    );
+    expect(flightsByOrigin.NAN?.map((flight) => flight.code)).toEqual([
+      "FJ211",
+      "T9301",
+    ]);
+  });
+
+  test("gives up without the coordinates of the origin", async () => {
+    const result = await airportsByDistance(replayProvider(), ["FUN"], "XXX");
+    expect(result).toEqual({ flightsByOrigin: {}, airports: [] });
+  });
+});
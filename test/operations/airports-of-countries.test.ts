@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { airportsOfCountries } from "../../operations/airports-of-countries";
+import { replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("airportsOfCountries", () => {
+  test("lists the airports with an IATA code", async () => {
+    expect(
+      await airportsOfCountries(replayProvider(), [
+        "fiji",
+        "tuvalu",
+        "atlantis",
+      ]),
+    ).toEqual(["NAN", "SUV", "FUN"]);
+  });
+
+  test("ranks the airports by scheduled traffic", async () => {
+    expect(
+      await airportsOfCountries(replayProvider(), ["fiji"], { maxAirports: 1 }),
+    ).toEqual(["NAN"]);
+    expect(
+      await airportsOfCountries(replayProvider(), ["fiji"], { minFlights: 50 }),
+    ).toEqual(["NAN"]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { backwardLookup } from "../../operations/backward-lookup";
+import { replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("backwardLookup", () => {
+  test("groups today's arrivals by origin", async () => {
+    const { flights, flightsByOrigin, airports } = await backwardLookup(
+      replayProvider(),
+      ["FUN"],
+      { timeZone: "airport" },
+    );
+    expect(flights).toHaveLength(4);
+    expect(
+      Object.fromEntries(
+        Object.entries(flightsByOrigin).map(([code, flights]) => [
+          code,
+          flights.map((flight) => flight.code),
+        ]),
+      ),
+    ).toEqual({ NAN: ["FJ209", "FJ211", "T9301"], SUV: ["FJ251"] });
+    expect(airports.map((airport) => airport.code).sort()).toEqual([
+      "NAN",
+      "SUV",
+    ]);
+  });
+
+  test("ranks the origins by their best time window", async () => {
+    const { windows } = await backwardLookup(replayProvider(), ["FUN"], {
+      timeZone: "airport",
+    });
+    expect(windows.map((window) => window.airportCode).sort()).toEqual([
+      "NAN",
+      "SUV",
+    ]);
+    expect(windows.every((window) => window.maxDestinations === 1)).toBe(true);
+  });
+
+  test("skips airports without a recorded schedule", async () => {
+    const { flights } = await backwardLookup(replayProvider(), ["FUN", "TRW"], {
+      timeZone: "airport",
+    });
+    expect(flights.every((flight) => flight.target === "FUN")).toBe(true);
+  });
+});
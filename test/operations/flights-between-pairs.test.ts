@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { flightsBetweenPairsSimple } from "../../operations/flights-between-pairs";
+import { RECORDED_AT, replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("flightsBetweenPairsSimple", () => {
+  test("searches both directions and adds the times of the details", async () => {
+    const flights = await flightsBetweenPairsSimple(replayProvider(), [
+      { source: "NAN", destination: "FUN" },
+    ]);
+    expect(flights.map((flight) => [flight.code, flight.type])).toEqual([
+      ["FJ209", "live"],
+      ["FJ211", "schedule"],
+    ]);
+    expect(flights[0]).toMatchObject({
+      status: "departed",
+      arrivalTime: RECORDED_AT.getTime() / 1000 + 2 * 60 * 60,
+      arrivalTimeZone: "Pacific/Funafuti",
+      delay: 10,
+    });
+  });
+
+  test("keeps the search data of flights without details", async () => {
+    const flights = await flightsBetweenPairsSimple(replayProvider(), [
+      { source: "NAN", destination: "FUN", searchBothDirections: false },
+    ]);
+    const scheduled = flights.find((flight) => flight.code === "FJ211");
+    expect(scheduled).toMatchObject({ operator: "FJI", route: "NAN → FUN" });
+    expect(scheduled?.arrivalTime).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { flightsByTypes } from "../../operations/flights-by-type";
+import { replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("flightsByTypes", () => {
+  test("sorts the live aircraft of the types by distance to the airports", async () => {
+    const provider = replayProvider();
+    const airports = await Promise.all(
+      ["NAN", "FUN"].map((code) => provider.getAirport(code)),
+    );
+    const flights = await flightsByTypes(provider, airports, ["AT76", "DHC6"]);
+    expect(
+      flights.map((flight) => [
+        flight.registration,
+        flight.closestAirport.code,
+      ]),
+    ).toEqual([
+      ["DQ-FJK", "NAN"],
+      ["DQ-FJT", "FUN"],
+      ["DQ-FIE", "NAN"],
+    ]);
+    expect(flights[0]).toMatchObject({
+      code: "AT76",
+      model: "ATR 72-600",
+      onGround: true,
+      flightNumber: "FJ211",
+      airline: "FJI",
+    });
+  });
+
+  test("filters and sorts by the route distance between the feed's airports", async () => {
+    const provider = replayProvider();
+    const airports = [await provider.getAirport("NAN")];
+    const flights = await flightsByTypes(provider, airports, ["AT76", "DHC6"], {
+      routeFilters: { minDistance: 1000 },
+      sortBy: "distance",
+    });
+    // KDV is not recorded, so the route of DQ-FIE has no distance
+    expect(flights.map((flight) => flight.registration)).toEqual([
+      "DQ-FJK",
+      "DQ-FJT",
+    ]);
+    expect(flights[0]!.routeDistance).toBeWithin(1000, 1200);
+    expect(flights[0]!.scheduledDuration).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { fowardLookup } from "../../operations/forward-lookup";
+import { RECORDED_AT, replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("fowardLookup", () => {
+  test("lists today's departures to the destinations, soonest first", async () => {
+    const flights = await fowardLookup(replayProvider(), "NAN", ["FUN"], {
+      timeZone: "airport",
+    });
+    expect(flights.map((flight) => flight.code)).toEqual([
+      "FJ209",
+      "FJ211",
+      "T9301",
+    ]);
+    expect(flights[0]).toMatchObject({
+      status: "departed",
+      time: RECORDED_AT.getTime() - 50 * 60 * 1000,
+      delay: 10,
+      aircraftType: "AT76",
+      registration: "DQ-FJT",
+      airlineIcao: "FJI",
+    });
+    expect(flights[0]!.routeDistance).toBeWithin(1000, 1100);
+  });
+
+  test("keeps the flights of the aircraft filters", async () => {
+    const flights = await fowardLookup(replayProvider(), "NAN", ["FUN"], {
+      timeZone: "airport",
+      aircraftFilters: { aircraftTypes: ["DHC6"] },
+    });
+    expect(flights.map((flight) => flight.code)).toEqual(["T9301"]);
+  });
+
+  test("matches IATA only airlines on their IATA code", async () => {
+    const flights = await fowardLookup(replayProvider(), "NAN", ["FUN"], {
+      timeZone: "airport",
+      aircraftFilters: { airlines: ["T9"] },
+    });
+    expect(flights.map((flight) => flight.code)).toEqual(["T9301"]);
+  });
+
+  test("matches airlines with an ICAO designator only on it", async () => {
+    const flights = await fowardLookup(replayProvider(), "NAN", ["FUN"], {
+      timeZone: "airport",
+      aircraftFilters: { airlines: ["FJ"] },
+    });
+    expect(flights).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { getArrivals } from "../../operations/get-arrivals";
+import { replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("getArrivals", () => {
+  test("lists the arrivals of the recorded schedule pages", async () => {
+    const flights = await getArrivals(replayProvider(), "FUN");
+    expect(
+      flights.map((flight) => flight.identification.number.default),
+    ).toEqual(["FJ209", "FJ211", "T9301", "FJ251"]);
+  });
+
+  test("drops arrivals scheduled after the window", async () => {
+    const flights = await getArrivals(replayProvider(), "FUN", {
+      hoursForward: 5,
+    });
+    expect(
+      flights.map((flight) => flight.identification.number.default),
+    ).toEqual(["FJ209", "FJ211"]);
+  });
+
+  test("keeps the schedule when an earlier page fails to load", async () => {
+    // Only page -1 of FUN is recorded, so going further back fails
+    const flights = await getArrivals(replayProvider(), "FUN", {
+      hoursBack: 200,
+    });
+    expect(
+      flights.map((flight) => flight.identification.number.default),
+    ).toEqual(["FJ209", "FJ211", "T9301", "FJ251"]);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { getDepartures } from "../../operations/get-departures";
+import { replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+const numbers = (
+  flights: { identification: { number: { default: string } } }[],
+) => flights.map((flight) => flight.identification.number.default).sort();
+
+describe("getDepartures", () => {
+  test("goes back through the historic pages to the window start", async () => {
+    const flights = await getDepartures(replayProvider(), "NAN");
+    expect(numbers(flights)).toEqual([
+      "FJ209",
+      "FJ211",
+      "FJ5",
+      "FJ910",
+      "T9301",
+    ]);
+  });
+
+  test("skips the historic pages without hours back", async () => {
+    const flights = await getDepartures(replayProvider(), "NAN", {
+      hoursBack: 0,
+    });
+    expect(numbers(flights)).toEqual(["FJ211", "FJ5", "FJ910", "T9301"]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { reachability } from "../../operations/reachability";
+import {
+  HOUR_MS,
+  RECORDED_AT,
+  replayProvider,
+  useRecordedTime,
+} from "../replay";
+
+useRecordedTime();
+
+describe("reachability", () => {
+  test("finds direct and one-stop itineraries", async () => {
+    const { itineraries, hubs, unreachable } = await reachability(
+      replayProvider(),
+      "NAN",
+      ["FUN"],
+      { maxStops: 1 },
+    );
+    expect(
+      itineraries.map((itinerary) => ({
+        stops: itinerary.stops,
+        legs: itinerary.legs.map((leg) => leg.code),
+        arrivalTime: itinerary.arrivalTime,
+      })),
+    ).toEqual([
+      {
+        stops: [],
+        legs: ["FJ211"],
+        arrivalTime: RECORDED_AT.getTime() + (290 / 60) * HOUR_MS,
+      },
+      {
+        stops: ["SUV"],
+        legs: ["FJ5", "FJ251"],
+        arrivalTime: RECORDED_AT.getTime() + 6.5 * HOUR_MS,
+      },
+    ]);
+    expect(itineraries[1]!.connections).toEqual([105]);
+    expect(hubs.map((hub) => hub.code)).toEqual(["SUV"]);
+    expect(unreachable).toEqual([]);
+  });
+
+  test("stops at direct flights without stops", async () => {
+    const { itineraries } = await reachability(
+      replayProvider(),
+      "NAN",
+      ["FUN"],
+      {
+        maxStops: 0,
+      },
+    );
+    expect(itineraries.map((itinerary) => itinerary.legs.length)).toEqual([1]);
+  });
+});
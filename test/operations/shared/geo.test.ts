@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import {
+  boundsAroundPoint,
+  boundsCenter,
+  isWithinBounds,
+  splitAtAntimeridian,
+} from "../../../operations/shared";
+
+const nadi = { latitude: -17.7554, longitude: 177.4431 };
+
+describe("boundsAroundPoint", () => {
+  test("keeps boxes away from the antimeridian as they are", () => {
+    const bounds = boundsAroundPoint({ latitude: 53.63, longitude: 9.99 }, 100);
+    expect(bounds.west).toBeWithin(8, 9.99);
+    expect(bounds.east).toBeWithin(9.99, 12);
+    expect(splitAtAntimeridian(bounds)).toEqual([bounds]);
+  });
+
+  test("wraps boxes across the antimeridian to the other side", () => {
+    const bounds = boundsAroundPoint(nadi, 500);
+    expect(bounds.west).toBeWithin(172, 173);
+    expect(bounds.east).toBeWithin(-178, -177);
+    expect(splitAtAntimeridian(bounds)).toEqual([
+      { ...bounds, east: 180 },
+      { ...bounds, west: -180 },
+    ]);
+  });
+
+  test("spans all longitudes around the poles", () => {
+    const bounds = boundsAroundPoint({ latitude: 85, longitude: 0 }, 2500);
+    expect([bounds.west, bounds.east]).toEqual([-180, 180]);
+  });
+});
+
+describe("isWithinBounds", () => {
+  const bounds = { north: -10, south: -25, west: 170, east: -170 };
+
+  test("covers both sides of a box across the antimeridian", () => {
+    expect(isWithinBounds({ latitude: -18, longitude: 178 }, bounds)).toBe(
+      true,
+    );
+    expect(isWithinBounds({ latitude: -18, longitude: -175 }, bounds)).toBe(
+      true,
+    );
+    expect(isWithinBounds({ latitude: -18, longitude: 0 }, bounds)).toBe(false);
+    expect(isWithinBounds({ latitude: -5, longitude: 178 }, bounds)).toBe(
+      false,
+    );
+  });
+
+  test("centres boxes across the antimeridian on it", () => {
+    expect(boundsCenter(bounds)).toEqual({ latitude: -17.5, longitude: -180 });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyQuietHours,
+  findNextFlight,
+  isInQuietHours,
+  type QuietHours,
+} from "../../../operations/shared";
+
+interface Flight {
+  time: number;
+  timeZone?: string;
+  quiet?: boolean;
+}
+
+const at = (time: string, timeZone = "Pacific/Fiji"): Flight => ({
+  time: Date.parse(time),
+  timeZone,
+});
+
+// 23:00 to 06:00 at the airport
+const night: QuietHours = { start: 23 * 60, end: 6 * 60, timeZone: "airport" };
+
+describe("isInQuietHours", () => {
+  test("wraps ranges around midnight", () => {
+    // 23:30, 05:59 and 06:00 in Fiji
+    expect(isInQuietHours(at("2026-10-19T11:30:00Z"), night)).toBe(true);
+    expect(isInQuietHours(at("2026-10-19T17:59:00Z"), night)).toBe(true);
+    expect(isInQuietHours(at("2026-10-19T18:00:00Z"), night)).toBe(false);
+  });
+
+  test("evaluates the hours in the configured zone", () => {
+    const flight = at("2026-10-19T11:30:00Z");
+    expect(isInQuietHours(flight, { ...night, timeZone: "utc" })).toBe(false);
+    expect(
+      isInQuietHours(flight, { start: 11 * 60, end: 12 * 60, timeZone: "utc" }),
+    ).toBe(true);
+  });
+});
+
+describe("applyQuietHours", () => {
+  const flights = [at("2026-10-19T11:30:00Z"), at("2026-10-19T20:00:00Z")];
+
+  test("marks or hides the flights in the quiet hours", () => {
+    expect(applyQuietHours(flights, night).map((f) => f.quiet)).toEqual([
+      true,
+      false,
+    ]);
+    expect(applyQuietHours(flights, { ...night, mode: "hide" })).toEqual([
+      { ...flights[1]!, quiet: false },
+    ]);
+  });
+
+  test("prefers the next flight outside the quiet hours", () => {
+    const marked = applyQuietHours(flights, night);
+    const now = Date.parse("2026-10-19T00:00:00Z");
+    expect(findNextFlight(marked, now)).toBe(marked[1]!);
+    expect(findNextFlight([marked[0]!], now)).toBe(marked[0]!);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyRouteFilters,
+  computeRouteMetrics,
+  sortByRouteMetric,
+} from "../../../operations/shared";
+
+const T0 = Date.parse("2026-10-19T00:00:00Z") / 1000;
+
+const times = (real: { departure: number | null; arrival: number | null }) => ({
+  scheduled: { departure: T0, arrival: T0 + 170 * 60 },
+  real,
+  estimated: { departure: null, arrival: T0 + 175 * 60 },
+  other: { eta: null, duration: null },
+});
+
+describe("computeRouteMetrics", () => {
+  test("measures distance, durations and delay", () => {
+    const metrics = computeRouteMetrics(
+      times({ departure: T0 - 5 * 60, arrival: null }),
+      { latitude: -17.7554, longitude: 177.4431 },
+      { latitude: -8.525, longitude: 179.1961 },
+    );
+    expect(metrics).toEqual({
+      routeDistance: expect.any(Number),
+      scheduledDuration: 170,
+      actualDuration: 180,
+      delay: -5,
+    });
+    expect(metrics.routeDistance!).toBeWithin(1000, 1100);
+  });
+
+  test("leaves metrics out that the data lacks", () => {
+    expect(
+      computeRouteMetrics(times({ departure: null, arrival: null })),
+    ).toEqual({
+      routeDistance: undefined,
+      scheduledDuration: 170,
+      actualDuration: undefined,
+      delay: undefined,
+    });
+  });
+});
+
+describe("route filters and sorting", () => {
+  const flights = [
+    { code: "A", routeDistance: 300, delay: 5 },
+    { code: "B", routeDistance: 1050 },
+    { code: "C", delay: 40 },
+  ];
+
+  test("drops flights missing a filtered metric", () => {
+    expect(
+      applyRouteFilters(flights, { minDistance: 500 }).map((f) => f.code),
+    ).toEqual(["B"]);
+    expect(applyRouteFilters(flights, {})).toHaveLength(3);
+  });
+
+  test("sorts flights missing the metric last", () => {
+    const codes = (sortBy: "distance" | "delay") =>
+      sortByRouteMetric([...flights], sortBy, () => undefined).map(
+        (f) => f.code,
+      );
+    expect(codes("distance")).toEqual(["B", "A", "C"]);
+    expect(codes("delay")).toEqual(["C", "A", "B"]);
+  });
+});
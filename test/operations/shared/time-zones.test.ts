@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { getZonedParts, zonedMidnight } from "../../../operations/shared";
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+describe("zonedMidnight", () => {
+  test("uses the offset in effect at midnight on DST change days", () => {
+    // Clocks go forward at 02:00 on 29 March and back at 03:00 on 25 October
+    expect(iso(zonedMidnight(2026, 3, 29, "Europe/Berlin"))).toBe(
+      "2026-03-28T23:00:00.000Z",
+    );
+    expect(iso(zonedMidnight(2026, 3, 30, "Europe/Berlin"))).toBe(
+      "2026-03-29T22:00:00.000Z",
+    );
+    expect(iso(zonedMidnight(2026, 10, 25, "Europe/Berlin"))).toBe(
+      "2026-10-24T22:00:00.000Z",
+    );
+    expect(iso(zonedMidnight(2026, 10, 26, "Europe/Berlin"))).toBe(
+      "2026-10-25T23:00:00.000Z",
+    );
+  });
+
+  test("moves days out of range across months", () => {
+    expect(iso(zonedMidnight(2026, 10, 32, "Pacific/Fiji"))).toBe(
+      "2026-10-31T12:00:00.000Z",
+    );
+  });
+});
+
+describe("getZonedParts", () => {
+  test("reads the local date across the date line", () => {
+    const timestamp = Date.parse("2026-10-19T11:30:00Z");
+    expect(getZonedParts(timestamp, "Pacific/Apia")).toMatchObject({
+      day: 20,
+      hour: 0,
+      minute: 30,
+      weekday: 2,
+    });
+    expect(getZonedParts(timestamp, "Pacific/Pago_Pago")).toMatchObject({
+      day: 19,
+      hour: 0,
+      minute: 30,
+      weekday: 1,
+    });
+  });
+});
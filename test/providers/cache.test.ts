@@ -0,0 +1,102 @@
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createCacheStats,
+  createCachingProvider,
+  DEFAULT_CACHE_TTL_MS,
+  type FlightDataProvider,
+} from "../../providers";
+import { RECORDED_AT } from "../replay";
+
+/**
+ * Provider counting the requests that reach it
+ */
+function countingProvider() {
+  const calls = { count: 0 };
+  const provider = {
+    getZones: async () => {
+      calls.count++;
+      return {};
+    },
+    getFlights: async () => {
+      calls.count++;
+      return [];
+    },
+  } as unknown as FlightDataProvider;
+  return { provider, calls };
+}
+
+// Moves the clock by the given time after the recording
+const at = (elapsedMs: number) =>
+  setSystemTime(new Date(RECORDED_AT.getTime() + elapsedMs));
+
+describe("createCachingProvider", () => {
+  let dir: string;
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "skycards-cache-"));
+  });
+  afterAll(async () => {
+    setSystemTime();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("serves cached airport data until its TTL expires", async () => {
+    const { provider, calls } = countingProvider();
+    const stats = createCacheStats();
+    const cached = createCachingProvider(provider, { dir }, stats);
+
+    at(0);
+    await cached.getZones();
+    at(DEFAULT_CACHE_TTL_MS.airport - 1000);
+    await cached.getZones();
+    expect(calls.count).toBe(1);
+    at(DEFAULT_CACHE_TTL_MS.airport);
+    await cached.getZones();
+    expect(calls.count).toBe(2);
+    expect(stats.airport).toEqual({ hits: 1, misses: 2 });
+  });
+
+  test("expires live data after its own TTL", async () => {
+    const { provider, calls } = countingProvider();
+    const stats = createCacheStats();
+    const cached = createCachingProvider(
+      provider,
+      { dir, ttl: { live: 5000 } },
+      stats,
+    );
+
+    at(0);
+    await cached.getFlights({ airline: "FJI" });
+    at(4000);
+    await cached.getFlights({ airline: "FJI" });
+    expect(calls.count).toBe(1);
+    at(5000);
+    await cached.getFlights({ airline: "FJI" });
+    expect(calls.count).toBe(2);
+    // Other requests have their own entry
+    await cached.getFlights({ airline: "QFA" });
+    expect(calls.count).toBe(3);
+    expect(stats.live).toEqual({ hits: 1, misses: 3 });
+  });
+
+  test("bypasses the cache on refresh, but still stores responses", async () => {
+    const { provider, calls } = countingProvider();
+    at(0);
+    await createCachingProvider(provider, { dir, refresh: true }).getZones();
+    expect(calls.count).toBe(1);
+
+    const stats = createCacheStats();
+    await createCachingProvider(provider, { dir }, stats).getZones();
+    expect(calls.count).toBe(1);
+    expect(stats.airport).toEqual({ hits: 1, misses: 0 });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { Flight } from "flightradarapi";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FixtureNotFoundError,
+  createRecordingProvider,
+  createReplayProvider,
+  type FlightDataProvider,
+} from "../../providers";
+import { fetchAirportWithCoordinates } from "../../operations/shared";
+import { replayProvider, useRecordedTime } from "../replay";
+
+useRecordedTime();
+
+describe("createReplayProvider", () => {
+  test("fails requests without a recording", async () => {
+    expect(replayProvider().getAirport("XXX")).rejects.toBeInstanceOf(
+      FixtureNotFoundError,
+    );
+  });
+
+  test("replays what the recording provider recorded", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "skycards-fixtures-"));
+    try {
+      const flight = Object.assign(Object.create(Flight.prototype), {
+        id: "3c4e1a02",
+        latitude: -9.9,
+        longitude: 178.9,
+        registration: "DQ-FJT",
+      }) as Flight;
+      const live = {
+        getFlights: async () => [flight],
+      } as unknown as FlightDataProvider;
+
+      const recorded = await createRecordingProvider(live, dir).getFlights({
+        registration: "DQ-FJT",
+      });
+      const replayed = await createReplayProvider(dir).getFlights({
+        registration: "DQ-FJT",
+      });
+      expect(replayed).toEqual(recorded);
+      expect(replayed[0]).toBeInstanceOf(Flight);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("fetchAirportWithCoordinates", () => {
+  test("restores the recorded airport entity", async () => {
+    const provider = replayProvider();
+    const nadi = await fetchAirportWithCoordinates(provider, "NAN");
+    const funafuti = await fetchAirportWithCoordinates(provider, "FUN");
+    expect(nadi).toMatchObject({ latitude: -17.7554, longitude: 177.4431 });
+    expect(nadi!.getDistanceFrom(funafuti!)).toBeWithin(1000, 1100);
+  });
+
+  test("returns null for airports it cannot fetch", async () => {
+    expect(
+      await fetchAirportWithCoordinates(replayProvider(), "XXX"),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import {
+  CircuitOpenError,
+  createScheduledProvider,
+  createSchedulerStats,
+  type FlightDataProvider,
+  type SchedulerOptions,
+} from "../../providers";
+
+// Errors as thrown by the FlightRadar24 client
+const httpError = (status: number, retryAfter?: string) =>
+  Object.assign(
+    new Error(
+      `Received status code '${status}: Error' for the URL https://example`,
+    ),
+    {
+      response: {
+        status,
+        headers: new Headers(retryAfter ? { "retry-after": retryAfter } : {}),
+      },
+    },
+  );
+const messageError = (status: number) =>
+  new Error(`Received status code '${status}: Error' for the URL https://x`);
+const timeoutError = () =>
+  Object.assign(new Error("socket hang up"), { code: "ETIMEDOUT" });
+
+/**
+ * Provider whose getZones fails with the given errors, then succeeds
+ */
+function failingProvider(errors: unknown[]) {
+  const calls = { count: 0 };
+  const provider = {
+    getZones: async () => {
+      const error = errors[calls.count++];
+      if (error) throw error;
+      return {};
+    },
+  } as unknown as FlightDataProvider;
+  return { provider, calls };
+}
+
+// Generous budget, so only the tests of throttling wait for tokens
+const options: Partial<SchedulerOptions> = {
+  requestsPerSecond: 1000,
+  burst: 100,
+  maxAttempts: 3,
+};
+
+describe("createScheduledProvider", () => {
+  let spies: { mockRestore(): void }[] = [];
+  beforeEach(() => {
+    spies = [
+      spyOn(console, "error").mockImplementation(() => {}),
+      // Shortest backoff, half the base delay
+      spyOn(Math, "random").mockReturnValue(0),
+    ];
+  });
+  afterEach(() => spies.forEach((spy) => spy.mockRestore()));
+
+  test("retries rate limits after the Retry-After delay", async () => {
+    const { provider, calls } = failingProvider([
+      httpError(429, "0.01"),
+      httpError(503, "0.01"),
+    ]);
+    const stats = createSchedulerStats();
+    const scheduled = createScheduledProvider(provider, options, stats);
+    expect(await scheduled.getZones()).toEqual({});
+    expect(calls.count).toBe(3);
+    expect(stats).toMatchObject({
+      requests: 3,
+      retries: 2,
+      rateLimited: 1,
+      failures: 0,
+    });
+  });
+
+  test("reads the status code from the error message", async () => {
+    const { provider, calls } = failingProvider([
+      messageError(502),
+      messageError(502),
+    ]);
+    const stats = createSchedulerStats();
+    const scheduled = createScheduledProvider(
+      provider,
+      { ...options, maxAttempts: 2 },
+      stats,
+    );
+    await expect(scheduled.getZones()).rejects.toThrow("status code '502");
+    expect(calls.count).toBe(2);
+    expect(stats).toMatchObject({ retries: 1, failures: 1 });
+  });
+
+  test("backs off and retries timeouts", async () => {
+    const { provider, calls } = failingProvider([timeoutError()]);
+    const stats = createSchedulerStats();
+    const started = Date.now();
+    await createScheduledProvider(provider, options, stats).getZones();
+    expect(calls.count).toBe(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(450);
+  });
+
+  test("does not retry client errors", async () => {
+    const { provider, calls } = failingProvider([httpError(404)]);
+    const stats = createSchedulerStats();
+    await expect(
+      createScheduledProvider(provider, options, stats).getZones(),
+    ).rejects.toThrow("status code '404");
+    expect(calls.count).toBe(1);
+    expect(stats).toMatchObject({ retries: 0, failures: 1 });
+  });
+
+  test("fails fast once the circuit breaker opens", async () => {
+    const { provider, calls } = failingProvider([
+      httpError(503),
+      httpError(503),
+    ]);
+    const stats = createSchedulerStats();
+    const scheduled = createScheduledProvider(
+      provider,
+      { ...options, maxAttempts: 1, circuitBreakerThreshold: 2 },
+      stats,
+    );
+    await expect(scheduled.getZones()).rejects.toThrow("status code '503");
+    await expect(scheduled.getZones()).rejects.toThrow("status code '503");
+    await expect(scheduled.getZones()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(calls.count).toBe(2);
+    expect(stats).toMatchObject({ failures: 2, rejected: 1 });
+  });
+
+  test("throttles requests beyond the burst", async () => {
+    const { provider } = failingProvider([]);
+    const stats = createSchedulerStats();
+    const scheduled = createScheduledProvider(
+      provider,
+      { ...options, requestsPerSecond: 20, burst: 2 },
+      stats,
+    );
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 4 }, () => scheduled.getZones()));
+    // Two requests from the burst, two more at 50ms apart
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    expect(stats).toMatchObject({ requests: 4, throttled: 2 });
+    expect(stats.throttledMs).toBeWithin(140, 160);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, test } from "bun:test";
+import { RegionError, regionCountries } from "../../regions";
+
+describe("regionCountries", () => {
+  test("collects the countries of included regions", () => {
+    const countries = regionCountries("Oceania");
+    expect(countries).toEqual(
+      expect.arrayContaining(regionCountries("melanesia")),
+    );
+  });
+
+  test("rejects names every object inherits", () => {
+    for (const name of ["constructor", "toString", "__proto__"]) {
+      expect(() => regionCountries(name)).toThrow(RegionError);
+    }
+  });
+});
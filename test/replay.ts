@@ -0,0 +1,34 @@
+import { afterAll, beforeAll, setSystemTime, spyOn } from "bun:test";
+import { join } from "node:path";
+import { createReplayProvider, type FlightDataProvider } from "../providers";
+
+// Moment the Pacific fixtures describe, noon in Fiji and Tuvalu
+export const RECORDED_AT = new Date("2026-10-19T00:00:00Z");
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Replay provider serving a recorded fixture set of test/fixtures
+ */
+export function replayProvider(name = "pacific"): FlightDataProvider {
+  return createReplayProvider(join(import.meta.dir, "fixtures", name));
+}
+
+/**
+ * Freezes the clock at the time of the recordings and silences the
+ * progress output of the operations for the tests of a file
+ */
+export function useRecordedTime(): void {
+  const spies: { mockRestore(): void }[] = [];
+  beforeAll(() => {
+    setSystemTime(RECORDED_AT);
+    spies.push(
+      spyOn(console, "error").mockImplementation(() => {}),
+      spyOn(console, "warn").mockImplementation(() => {}),
+    );
+  });
+  afterAll(() => {
+    setSystemTime();
+    spies.forEach((spy) => spy.mockRestore());
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { Flight } from "flightradarapi";
+import {
+  rarestAircraft,
+  typeRarities,
+  type LiveSnapshot,
+} from "../../snapshots";
+
+const snapshot = (aircraftTypes: Record<string, number>): LiveSnapshot => ({
+  takenAt: "2026-10-19T00:00:00.000Z",
+  zones: 1,
+  failedZones: [],
+  aircraft: Object.values(aircraftTypes).reduce((a, b) => a + b, 0),
+  airborne: 0,
+  aircraftTypes,
+  operators: {},
+  countries: {},
+});
+
+const flight = (fields: Partial<Flight>) =>
+  Object.assign(Object.create(Flight.prototype), fields) as Flight;
+
+describe("typeRarities", () => {
+  const rarities = typeRarities([
+    snapshot({ A320: 900, AT76: 3, A225: 1 }),
+    snapshot({ A320: 950, AT76: 2 }),
+    snapshot({ A320: 920, AT76: 1, DHC6: 4 }),
+  ]);
+
+  test("rates types by the share of snapshots they are seen in", () => {
+    expect(
+      rarities.map(({ aircraftType, seenIn, share }) => [
+        aircraftType,
+        seenIn,
+        share,
+      ]),
+    ).toEqual([
+      ["A225", 1, 1 / 3],
+      ["DHC6", 1, 1 / 3],
+      ["AT76", 3, 1],
+      ["A320", 3, 1],
+    ]);
+    expect(rarities.find((r) => r.aircraftType === "AT76")?.averageCount).toBe(
+      2,
+    );
+  });
+
+  test("lists the airborne aircraft of the rarest types", () => {
+    const rare = rarestAircraft(
+      [
+        flight({ aircraftCode: "A320", onGround: 0, registration: "DQ-FJA" }),
+        flight({ aircraftCode: "DHC6", onGround: 0, registration: "DQ-FIE" }),
+        flight({ aircraftCode: "A225", onGround: 1, registration: "UR-82060" }),
+        flight({ aircraftCode: "ZZZZ", onGround: 0, registration: "N1" }),
+      ],
+      rarities,
+      2,
+    );
+    expect(rare.map((aircraft) => aircraft.registration)).toEqual([
+      "N1",
+      "DQ-FIE",
+    ]);
+    expect(rare[0]?.rarity).toMatchObject({
+      aircraftType: "ZZZZ",
+      seenIn: 0,
+      snapshots: 3,
+      share: 0,
+    });
+  });
+});
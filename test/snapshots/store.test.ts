@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  loadSnapshots,
+  saveSnapshot,
+  type LiveSnapshot,
+} from "../../snapshots";
+
+const snapshot = (takenAt: string, failedZones: string[]): LiveSnapshot => ({
+  takenAt,
+  zones: 2,
+  failedZones,
+  aircraft: 1,
+  airborne: 1,
+  aircraftTypes: { AT76: 1 },
+  operators: {},
+  countries: {},
+});
+
+describe("loadSnapshots", () => {
+  const home = process.env.SKYCARDS_HOME;
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "skycards-snapshots-"));
+    process.env.SKYCARDS_HOME = dir;
+  });
+  afterEach(async () => {
+    if (home === undefined) delete process.env.SKYCARDS_HOME;
+    else process.env.SKYCARDS_HOME = home;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("skips snapshots with zones that failed", async () => {
+    await saveSnapshot(snapshot("2026-10-19T00:00:00.000Z", []));
+    await saveSnapshot(snapshot("2026-10-19T01:00:00.000Z", ["oceania"]));
+    await saveSnapshot(snapshot("2026-10-19T02:00:00.000Z", []));
+    expect((await loadSnapshots()).map((s) => s.takenAt)).toEqual([
+      "2026-10-19T00:00:00.000Z",
+      "2026-10-19T02:00:00.000Z",
+    ]);
+  });
+});
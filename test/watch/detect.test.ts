@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import type { AircraftFlightEntry } from "../../operations/shared";
+import { detectAlerts, type TrackedAircraft } from "../../watch";
+
+const entry = (
+  fields: Partial<AircraftFlightEntry> = {},
+): AircraftFlightEntry => ({
+  id: "3c4e1a02",
+  live: true,
+  status: "departed",
+  code: "AT76",
+  time: 0,
+  closestAirport: { name: "Nadi International", code: "NAN", distance: 50 },
+  onGround: false,
+  coordinates: [-17.7, 177.4],
+  registration: "DQ-FJU",
+  flightNumber: "FJ209",
+  origin: "NAN",
+  destination: "FUN",
+  ...fields,
+});
+
+const nearby = (distance: number) => ({
+  closestAirport: { name: "Nadi International", code: "NAN", distance },
+});
+
+describe("detectAlerts", () => {
+  test("reports an aircraft once when it first comes within the radius", () => {
+    const tracked = new Map<string, TrackedAircraft>();
+    expect(detectAlerts(tracked, [entry(nearby(600))], 500)).toEqual([]);
+
+    const alerts = detectAlerts(tracked, [entry(nearby(400))], 500);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      kind: "nearby",
+      message: "AT76 DQ-FJU is 400km from NAN",
+    });
+    expect(detectAlerts(tracked, [entry(nearby(300))], 500)).toEqual([]);
+  });
+
+  test("reports every takeoff of a known aircraft", () => {
+    const tracked = new Map<string, TrackedAircraft>();
+    const onGround = entry({ ...nearby(0), onGround: true });
+    const airborne = entry({ ...nearby(0), onGround: false });
+
+    detectAlerts(tracked, [onGround], 500);
+    const alerts = detectAlerts(tracked, [airborne], 500);
+    expect(alerts.map(({ kind, message }) => [kind, message])).toEqual([
+      ["airborne", "AT76 DQ-FJU took off from NAN to FUN"],
+    ]);
+
+    detectAlerts(tracked, [onGround], 500);
+    expect(detectAlerts(tracked, [airborne], 500)).toHaveLength(1);
+  });
+
+  test("does not report aircraft first seen airborne as takeoffs", () => {
+    const tracked = new Map<string, TrackedAircraft>();
+    expect(detectAlerts(tracked, [entry(nearby(900))], 500)).toEqual([]);
+  });
+
+  test("tracks aircraft without registration by flight number", () => {
+    const tracked = new Map<string, TrackedAircraft>();
+    detectAlerts(tracked, [entry({ registration: "" })], 500);
+    expect([...tracked.keys()]).toEqual(["FJ209"]);
+  });
+});
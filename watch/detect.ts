@@ -0,0 +1,54 @@
+import type { AircraftFlightEntry } from "../operations/shared";
+import type { AlertKind, TrackedAircraft, WatchAlert } from "./types";
+
+/**
+ * Identifies an aircraft across polls, falling back to its flight number
+ * when the registration is unknown
+ */
+export function aircraftKey(flight: AircraftFlightEntry): string {
+  return flight.registration || flight.flightNumber || flight.code;
+}
+
+function createAlert(kind: AlertKind, flight: AircraftFlightEntry): WatchAlert {
+  const name = `${flight.code} ${aircraftKey(flight)}`;
+  const message =
+    kind === "nearby"
+      ? `${name} is ${flight.closestAirport.distance.toFixed()}km from ${flight.closestAirport.code}`
+      : `${name} took off${flight.origin ? ` from ${flight.origin}` : ""}${flight.destination ? ` to ${flight.destination}` : ""}`;
+  return { kind, message, flight, detectedAt: new Date().toISOString() };
+}
+
+/**
+ * Compares a poll against the tracked aircraft and returns the alerts to
+ * raise: once per aircraft when it is first seen within the radius, and
+ * every time a known aircraft goes from ground to airborne. Updates the
+ * tracked state in place.
+ */
+export function detectAlerts(
+  tracked: Map<string, TrackedAircraft>,
+  flights: AircraftFlightEntry[],
+  radiusKm: number,
+): WatchAlert[] {
+  const alerts: WatchAlert[] = [];
+
+  for (const flight of flights) {
+    const key = aircraftKey(flight);
+    const previous = tracked.get(key);
+    const state: TrackedAircraft = {
+      onGround: flight.onGround,
+      reportedNearby: previous?.reportedNearby ?? false,
+    };
+
+    if (!state.reportedNearby && flight.closestAirport.distance <= radiusKm) {
+      state.reportedNearby = true;
+      alerts.push(createAlert("nearby", flight));
+    }
+    if (previous?.onGround && !flight.onGround) {
+      alerts.push(createAlert("airborne", flight));
+    }
+
+    tracked.set(key, state);
+  }
+
+  return alerts;
+}
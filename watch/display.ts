@@ -0,0 +1,18 @@
+import chalk from "chalk";
+import { formatTime } from "../operations/shared";
+import type { WatchAlert } from "./types";
+
+/**
+ * Display a single watch alert
+ */
+export function displayWatchAlert(alert: WatchAlert): void {
+  const kindStr =
+    alert.kind === "nearby"
+      ? chalk.bgMagenta.black(" NEARBY ")
+      : chalk.bgBlue.black(" AIRBORNE ");
+  const { flight } = alert;
+  const [lat, lon] = flight.coordinates;
+  console.log(
+    `${chalk.gray(formatTime(new Date(alert.detectedAt)))} ${kindStr} ${chalk.cyan.bold(flight.code)} (${chalk.yellow(flight.registration)}) ${alert.message} ${chalk.gray(`[${lat?.toFixed(3)}, ${lon?.toFixed(3)}]`)}`,
+  );
+}
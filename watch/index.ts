@@ -0,0 +1,6 @@
+// Re-export all watch modules for convenient importing
+export * from "./types";
+export * from "./detect";
+export * from "./sinks";
+export * from "./display";
+export * from "./watch";
@@ -0,0 +1,90 @@
+import { spawn } from "node:child_process";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { toNdjson } from "../output";
+import type { AlertSink, WatchAlert } from "./types";
+
+const NOTIFY_COMMAND_TIMEOUT_MS = 10_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function alertTitle(alert: WatchAlert): string {
+  return alert.kind === "nearby"
+    ? `✈️ ${alert.flight.code} nearby`
+    : `🛫 ${alert.flight.code} airborne`;
+}
+
+/**
+ * Rings the terminal bell
+ */
+export function createBellSink(): AlertSink {
+  return {
+    name: "bell",
+    async send() {
+      process.stderr.write("\u0007");
+    },
+  };
+}
+
+/**
+ * Runs a shell command for every alert, e.g. notify-send. The alert is passed
+ * in the SKYCARDS_ALERT_TITLE, SKYCARDS_ALERT_MESSAGE and SKYCARDS_ALERT_JSON
+ * environment variables rather than interpolated into the command.
+ */
+export function createCommandSink(command: string): AlertSink {
+  return {
+    name: "notify",
+    send(alert) {
+      return new Promise((resolve, reject) => {
+        const child = spawn(command, {
+          shell: true,
+          stdio: "ignore",
+          timeout: NOTIFY_COMMAND_TIMEOUT_MS,
+          env: {
+            ...process.env,
+            SKYCARDS_ALERT_TITLE: alertTitle(alert),
+            SKYCARDS_ALERT_MESSAGE: alert.message,
+            SKYCARDS_ALERT_JSON: toNdjson([alert]).trimEnd(),
+          },
+        });
+        child.on("error", reject);
+        child.on("exit", (code, signal) => {
+          if (code === 0) resolve();
+          else reject(new Error(`"${command}" exited with ${signal ?? code}`));
+        });
+      });
+    },
+  };
+}
+
+/**
+ * POSTs every alert as JSON to a URL
+ */
+export function createWebhookSink(url: string): AlertSink {
+  return {
+    name: "webhook",
+    async send(alert) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: toNdjson([{ title: alertTitle(alert), ...alert }]),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`${url} responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Appends every alert as a JSON line to a log file
+ */
+export function createLogFileSink(path: string): AlertSink {
+  return {
+    name: "log",
+    async send(alert) {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, toNdjson([alert]));
+    },
+  };
+}
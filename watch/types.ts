@@ -0,0 +1,36 @@
+import type { AircraftFlightEntry, AirframeId } from "../operations/shared";
+
+// Why an alert was raised for a flight
+export type AlertKind = "nearby" | "airborne";
+
+export interface WatchAlert {
+  kind: AlertKind;
+  // One line summary, used as notification body
+  message: string;
+  flight: AircraftFlightEntry;
+  detectedAt: string;
+}
+
+// Destination alerts are delivered to, failures are reported but never stop
+// the watch loop
+export interface AlertSink {
+  name: string;
+  send(alert: WatchAlert): Promise<void>;
+}
+
+// What the watch loop remembers about an aircraft between polls
+export interface TrackedAircraft {
+  onGround: boolean;
+  reportedNearby: boolean;
+}
+
+export interface WatchOptions {
+  // Airframes watched besides the aircraft types
+  airframes?: AirframeId[];
+  intervalMs?: number;
+  // Distance from the closest home airport that triggers a nearby alert
+  radiusKm?: number;
+  sinks?: AlertSink[];
+  // Stops the loop once aborted
+  signal?: AbortSignal;
+}
@@ -0,0 +1,107 @@
+import chalk from "chalk";
+import type { Airport } from "flightradarapi";
+import {
+  flightsByAirframes,
+  flightsByTypes,
+} from "../operations/flights-by-type";
+import { appendObservations, observationFromAircraftFlight } from "../history";
+import { formatTime } from "../operations/shared";
+import type { FlightDataProvider } from "../providers";
+import { detectAlerts } from "./detect";
+import { displayWatchAlert } from "./display";
+import type {
+  AlertSink,
+  TrackedAircraft,
+  WatchAlert,
+  WatchOptions,
+} from "./types";
+
+export const DEFAULT_WATCH_INTERVAL_MS = 60 * 1000;
+export const DEFAULT_WATCH_RADIUS_KM = 500;
+
+/**
+ * Waits for the given time, resolving early once the signal is aborted
+ */
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Delivers an alert to all sinks, reporting sinks that fail
+ */
+async function sendAlert(sinks: AlertSink[], alert: WatchAlert): Promise<void> {
+  const results = await Promise.allSettled(
+    sinks.map((sink) => sink.send(alert)),
+  );
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(
+        chalk.red(
+          `Failed to send alert to ${sinks[index]!.name}: ${result.reason}`,
+        ),
+      );
+    }
+  });
+}
+
+/**
+ * Watch mode: Polls flights of the given aircraft types and airframes on an
+ * interval and raises alerts when one comes within the radius of the home
+ * airports or takes off, until the signal is aborted
+ */
+export async function watchAircraftTypes(
+  provider: FlightDataProvider,
+  airports: Airport[],
+  aircraftTypes: string[],
+  {
+    airframes = [],
+    intervalMs = DEFAULT_WATCH_INTERVAL_MS,
+    radiusKm = DEFAULT_WATCH_RADIUS_KM,
+    sinks = [],
+    signal,
+  }: WatchOptions = {},
+): Promise<void> {
+  const tracked = new Map<string, TrackedAircraft>();
+
+  while (!signal?.aborted) {
+    try {
+      const [typeFlights, airframeFlights] = await Promise.all([
+        flightsByTypes(provider, airports, aircraftTypes),
+        flightsByAirframes(provider, airports, airframes),
+      ]);
+      // An airframe of a watched type is polled twice
+      const typeFlightIds = new Set(typeFlights.map((flight) => flight.id));
+      const flights = [
+        ...typeFlights,
+        ...airframeFlights.filter((flight) => !typeFlightIds.has(flight.id)),
+      ];
+      const alerts = detectAlerts(tracked, flights, radiusKm);
+      console.error(
+        chalk.gray(
+          `${formatTime(new Date())} ${flights.length} flight${flights.length === 1 ? "" : "s"}, ${alerts.length} new alert${alerts.length === 1 ? "" : "s"}`,
+        ),
+      );
+      for (const alert of alerts) {
+        displayWatchAlert(alert);
+        await sendAlert(sinks, alert);
+      }
+      await appendObservations(
+        flights.flatMap(
+          (flight) => observationFromAircraftFlight(flight, "watch") ?? [],
+        ),
+      );
+    } catch (error) {
+      console.error(chalk.red(`Failed to poll flights: ${error}`));
+    }
+    await waitFor(intervalMs, signal);
+  }
+}